@@ -0,0 +1,48 @@
+import { NextRequest } from "next/server";
+import { errorJson, guardRateLimitedRequest, okJson, parseRequiredString } from "@/app/api/tmdb/_shared";
+import { isValidShortCode, normalizeShortCode } from "@/lib/shortCodes";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+// Short codes are guessable by volume alone, so lookups go through this route
+// with a tight per-client limit instead of calling the RPC from the browser.
+const JOIN_CODE_MAX_REQUESTS_PER_WINDOW = 10;
+const JOIN_CODE_SUSPECTED_BOT_MAX_REQUESTS_PER_WINDOW = 3;
+
+const NOT_FOUND_MESSAGE = "No group uses that code.";
+
+export async function GET(request: NextRequest) {
+  const guard = await guardRateLimitedRequest(request, {
+    scope: "join_code",
+    callSite: "join.resolve.GET",
+    maxRequests: JOIN_CODE_MAX_REQUESTS_PER_WINDOW,
+    suspectedBotMaxRequests: JOIN_CODE_SUSPECTED_BOT_MAX_REQUESTS_PER_WINDOW,
+    message: "Too many join code attempts. Please wait and try again.",
+  });
+  if (guard) return guard;
+
+  const code = parseRequiredString(request.nextUrl.searchParams.get("code"), "code");
+  if (!code.ok) return code.response;
+
+  const key = normalizeShortCode(code.value);
+  if (!isValidShortCode(key)) return errorJson(404, "not_found", NOT_FOUND_MESSAGE);
+
+  if (!supabaseAdmin) {
+    return errorJson(500, "config_error", "Join codes are not configured on this server.");
+  }
+
+  const resolved = await supabaseAdmin.rpc("resolve_group_short_code", { p_code: key });
+  if (resolved.error) {
+    if (process.env.NODE_ENV === "development") {
+      console.warn("[join] resolve_group_short_code failed", {
+        message: resolved.error.message,
+        code: resolved.error.code,
+      });
+    }
+    return errorJson(502, "upstream_error", "Could not look up that code.");
+  }
+
+  const groupId = typeof resolved.data === "string" ? resolved.data : null;
+  if (!groupId) return errorJson(404, "not_found", NOT_FOUND_MESSAGE);
+
+  return okJson({ groupId }, "no-store");
+}
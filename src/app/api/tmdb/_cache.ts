@@ -0,0 +1,330 @@
+import { isSupabaseAdminConfigured, supabaseAdmin } from "@/lib/supabaseAdmin";
+
+// Shared cache for TMDB proxy responses. Lookups go through the backends in
+// order (in-memory LRU, then the durable Supabase table); a hit in a later
+// backend is copied into the earlier ones. Only successful TMDB responses
+// are cached.
+
+export type TmdbCacheEntry = {
+  endpoint: string;
+  data: unknown;
+  fetchedAtMs: number;
+  freshUntilMs: number;
+  staleUntilMs: number;
+};
+
+export type TmdbCacheBackend = {
+  name: string;
+  get(key: string): Promise<TmdbCacheEntry | null>;
+  set(key: string, entry: TmdbCacheEntry): Promise<void>;
+};
+
+type TmdbCachePolicy = {
+  endpoint: string;
+  pattern: RegExp;
+  ttlSeconds: number;
+  staleSeconds: number;   // extra time a stale entry may be served while it refreshes
+};
+
+type TmdbCacheQuery = Record<string, string | number | undefined>;
+
+type TmdbLoadResult<T, E> = { ok: true; data: T } | { ok: false; error: E };
+
+type TmdbCacheCounters = {
+  hits: number;
+  staleHits: number;
+  misses: number;
+  coalesced: number;
+  refreshes: number;
+  loadErrors: number;
+};
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const TMDB_CACHE_POLICIES: TmdbCachePolicy[] = [
+  { endpoint: "genres", pattern: /^\/genre\/(movie|tv)\/list$/, ttlSeconds: 7 * DAY, staleSeconds: 30 * DAY },
+  {
+    endpoint: "certifications",
+    pattern: /^\/(movie\/\d+\/release_dates|tv\/\d+\/content_ratings)$/,
+    ttlSeconds: 7 * DAY,
+    staleSeconds: 30 * DAY,
+  },
+  { endpoint: "providers", pattern: /^\/(movie|tv)\/\d+\/watch\/providers$/, ttlSeconds: 6 * HOUR, staleSeconds: DAY },
+  { endpoint: "details", pattern: /^\/(movie|tv)\/\d+$/, ttlSeconds: DAY, staleSeconds: 7 * DAY },
+  { endpoint: "discover", pattern: /^\/discover\/(movie|tv)$/, ttlSeconds: HOUR, staleSeconds: 6 * HOUR },
+  { endpoint: "trending", pattern: /^\/trending\//, ttlSeconds: 30 * MINUTE, staleSeconds: 2 * HOUR },
+  { endpoint: "search", pattern: /^\/search\//, ttlSeconds: 10 * MINUTE, staleSeconds: HOUR },
+];
+
+const MEMORY_CACHE_MAX_ENTRIES = 1_000;
+const DURABLE_CACHE_TABLE = "tmdb_response_cache";
+const DURABLE_CACHE_PURGE_INTERVAL_MS = HOUR * 1000;
+
+function emptyCounters(): TmdbCacheCounters {
+  return { hits: 0, staleHits: 0, misses: 0, coalesced: 0, refreshes: 0, loadErrors: 0 };
+}
+
+const countersByEndpoint = new Map<string, TmdbCacheCounters>();
+const backendHits = new Map<string, number>();
+const inFlightLoads = new Map<string, Promise<TmdbLoadResult<unknown, unknown>>>();
+const metricsSince = new Date().toISOString();
+
+function bump(endpoint: string, counter: keyof TmdbCacheCounters) {
+  const counters = countersByEndpoint.get(endpoint) ?? emptyCounters();
+  counters[counter] += 1;
+  countersByEndpoint.set(endpoint, counters);
+}
+
+function logCacheWarning(message: string, details: Record<string, unknown>) {
+  if (process.env.NODE_ENV !== "development") return;
+  console.warn(`[tmdb-cache] ${message}`, details);
+}
+
+export function createMemoryCacheBackend(maxEntries = MEMORY_CACHE_MAX_ENTRIES): TmdbCacheBackend {
+  // Map keeps insertion order, so re-inserting on read makes the first key the least recently used.
+  const entries = new Map<string, TmdbCacheEntry>();
+
+  return {
+    name: "memory",
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.staleUntilMs <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry;
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+  };
+}
+
+type DurableCacheRow = {
+  endpoint: string;
+  body: unknown;
+  fetched_at: string;
+  fresh_until: string;
+  stale_until: string;
+};
+
+export function createSupabaseCacheBackend(): TmdbCacheBackend | null {
+  if (!isSupabaseAdminConfigured() || !supabaseAdmin) return null;
+  const client = supabaseAdmin;
+  let lastPurgeAtMs = 0;
+
+  async function purgeExpired(nowMs: number) {
+    if (nowMs - lastPurgeAtMs < DURABLE_CACHE_PURGE_INTERVAL_MS) return;
+    lastPurgeAtMs = nowMs;
+    const response = await client
+      .from(DURABLE_CACHE_TABLE)
+      .delete()
+      .lt("stale_until", new Date(nowMs).toISOString());
+    if (response.error) {
+      logCacheWarning("durable purge failed", { message: response.error.message });
+    }
+  }
+
+  return {
+    name: "supabase",
+    async get(key) {
+      const response = await client
+        .from(DURABLE_CACHE_TABLE)
+        .select("endpoint, body, fetched_at, fresh_until, stale_until")
+        .eq("cache_key", key)
+        .maybeSingle();
+      if (response.error) {
+        logCacheWarning("durable read failed", { key, message: response.error.message });
+        return null;
+      }
+
+      const row = response.data as DurableCacheRow | null;
+      if (!row) return null;
+      const entry: TmdbCacheEntry = {
+        endpoint: row.endpoint,
+        data: row.body,
+        fetchedAtMs: Date.parse(row.fetched_at),
+        freshUntilMs: Date.parse(row.fresh_until),
+        staleUntilMs: Date.parse(row.stale_until),
+      };
+      return entry.staleUntilMs > Date.now() ? entry : null;
+    },
+    async set(key, entry) {
+      const response = await client.from(DURABLE_CACHE_TABLE).upsert(
+        {
+          cache_key: key,
+          endpoint: entry.endpoint,
+          body: entry.data,
+          fetched_at: new Date(entry.fetchedAtMs).toISOString(),
+          fresh_until: new Date(entry.freshUntilMs).toISOString(),
+          stale_until: new Date(entry.staleUntilMs).toISOString(),
+        },
+        { onConflict: "cache_key" }
+      );
+      if (response.error) {
+        logCacheWarning("durable write failed", { key, message: response.error.message });
+        return;
+      }
+      await purgeExpired(entry.fetchedAtMs);
+    },
+  };
+}
+
+function defaultBackends() {
+  const backends = [createMemoryCacheBackend()];
+  const durable = createSupabaseCacheBackend();
+  if (durable) backends.push(durable);
+  return backends;
+}
+
+let backends: TmdbCacheBackend[] = defaultBackends();
+
+/** Replaces the cache backends, e.g. to drop the durable store or plug in another one. */
+export function setTmdbCacheBackends(next: TmdbCacheBackend[]) {
+  backends = next;
+}
+
+function policyForPath(path: string) {
+  return TMDB_CACHE_POLICIES.find((policy) => policy.pattern.test(path)) ?? null;
+}
+
+/** Path plus sorted query, so parameter order and unset values do not split the cache. */
+export function tmdbCacheKey(path: string, query: TmdbCacheQuery = {}) {
+  const params = Object.entries(query)
+    .filter((entry): entry is [string, string | number] => entry[1] !== undefined)
+    .map(([key, value]) => [key, String(value)] as const)
+    .sort(([a], [b]) => a.localeCompare(b));
+  const search = new URLSearchParams(params.map(([key, value]) => [key, value])).toString();
+  return search ? `${path}?${search}` : path;
+}
+
+async function readEntry(key: string) {
+  for (let index = 0; index < backends.length; index += 1) {
+    const backend = backends[index];
+    let entry: TmdbCacheEntry | null = null;
+    try {
+      entry = await backend.get(key);
+    } catch (error) {
+      logCacheWarning("backend read threw", { backend: backend.name, key, error: String(error) });
+    }
+    if (!entry) continue;
+
+    backendHits.set(backend.name, (backendHits.get(backend.name) ?? 0) + 1);
+    for (const earlier of backends.slice(0, index)) {
+      void earlier.set(key, entry).catch(() => undefined);
+    }
+    return entry;
+  }
+  return null;
+}
+
+function writeEntry(key: string, entry: TmdbCacheEntry) {
+  for (const backend of backends) {
+    void backend.set(key, entry).catch((error: unknown) => {
+      logCacheWarning("backend write threw", { backend: backend.name, key, error: String(error) });
+    });
+  }
+}
+
+// Identical calls that arrive while a load is running share its result.
+function loadOnce<T, E>(
+  key: string,
+  policy: TmdbCachePolicy,
+  load: () => Promise<TmdbLoadResult<T, E>>
+): Promise<TmdbLoadResult<T, E>> {
+  const existing = inFlightLoads.get(key);
+  if (existing) {
+    bump(policy.endpoint, "coalesced");
+    return existing as Promise<TmdbLoadResult<T, E>>;
+  }
+
+  const request = (async () => {
+    const result = await load();
+    if (result.ok) {
+      const nowMs = Date.now();
+      writeEntry(key, {
+        endpoint: policy.endpoint,
+        data: result.data,
+        fetchedAtMs: nowMs,
+        freshUntilMs: nowMs + policy.ttlSeconds * 1000,
+        staleUntilMs: nowMs + (policy.ttlSeconds + policy.staleSeconds) * 1000,
+      });
+    } else {
+      bump(policy.endpoint, "loadErrors");
+    }
+    return result;
+  })().finally(() => {
+    inFlightLoads.delete(key);
+  });
+
+  inFlightLoads.set(key, request as Promise<TmdbLoadResult<unknown, unknown>>);
+  return request;
+}
+
+/**
+ * Serves a TMDB call from the cache. Fresh entries are returned directly;
+ * stale ones are returned while a background load refreshes them. Paths with
+ * no cache policy always call `load`.
+ */
+export async function readThroughTmdbCache<T, E>(
+  path: string,
+  query: TmdbCacheQuery | undefined,
+  load: () => Promise<TmdbLoadResult<T, E>>
+): Promise<TmdbLoadResult<T, E>> {
+  const policy = policyForPath(path);
+  if (!policy) return load();
+
+  const key = tmdbCacheKey(path, query);
+  const entry = await readEntry(key);
+  const nowMs = Date.now();
+
+  if (entry && entry.freshUntilMs > nowMs) {
+    bump(policy.endpoint, "hits");
+    return { ok: true, data: entry.data as T };
+  }
+
+  if (entry && entry.staleUntilMs > nowMs) {
+    bump(policy.endpoint, "staleHits");
+    if (!inFlightLoads.has(key)) bump(policy.endpoint, "refreshes");
+    void loadOnce(key, policy, load).catch(() => undefined);
+    return { ok: true, data: entry.data as T };
+  }
+
+  bump(policy.endpoint, "misses");
+  return loadOnce(key, policy, load);
+}
+
+/** Counters for this server instance since it started. */
+export function getTmdbCacheMetrics() {
+  const endpoints = Object.fromEntries(
+    Array.from(countersByEndpoint.entries()).map(([endpoint, counters]) => {
+      const lookups = counters.hits + counters.staleHits + counters.misses;
+      return [
+        endpoint,
+        {
+          ...counters,
+          hitRate: lookups > 0 ? (counters.hits + counters.staleHits) / lookups : null,
+        },
+      ];
+    })
+  );
+
+  return {
+    since: metricsSince,
+    backends: backends.map((backend) => backend.name),
+    backendHits: Object.fromEntries(backendHits),
+    inFlight: inFlightLoads.size,
+    endpoints,
+  };
+}
@@ -0,0 +1,43 @@
+// Raw TMDB certification lookups shared by the details and certifications
+// routes. Callers map the raw value onto the allowed-rating tiers with
+// src/lib/certifications.ts.
+
+export type TmdbReleaseDates = {
+  results?: Array<{
+    iso_3166_1?: string | null;
+    release_dates?: Array<{
+      certification?: string | null;
+    }>;
+  }>;
+};
+
+export type TmdbContentRatings = {
+  results?: Array<{
+    iso_3166_1?: string | null;
+    rating?: string | null;
+  }>;
+};
+
+export function extractMovieCertification(
+  releaseDates: TmdbReleaseDates | undefined,
+  region: string
+): string | null {
+  const regions = releaseDates?.results ?? [];
+  const match = regions.find((entry) => entry.iso_3166_1 === region);
+  if (!match) return null;
+  for (const entry of match.release_dates ?? []) {
+    const certification = entry.certification?.trim();
+    if (certification) return certification.toUpperCase();
+  }
+  return null;
+}
+
+export function extractTvCertification(
+  contentRatings: TmdbContentRatings | undefined,
+  region: string
+): string | null {
+  const regions = contentRatings?.results ?? [];
+  const match = regions.find((entry) => entry.iso_3166_1 === region);
+  const certification = match?.rating?.trim();
+  return certification ? certification.toUpperCase() : null;
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
+import { readThroughTmdbCache } from "@/app/api/tmdb/_cache";
 import { isSupabaseAdminConfigured, supabaseAdmin } from "@/lib/supabaseAdmin";
+import { parseTmdbTitleKey, type ParsedTmdbTitleKey } from "@/lib/tmdbTitleKey";
 
 const TMDB_BASE_URL = "https://api.themoviedb.org/3";
 const TMDB_TOKEN_ENV_VAR = "TMDB_READ_TOKEN";
@@ -21,6 +23,13 @@ type ApiErrorBody = {
   };
 };
 
+type TmdbUpstreamError = {
+  status: number;
+  code: ApiErrorCode;
+  message: string;
+  detail: string;
+};
+
 type TmdbFetchOptions = {
   query?: Record<string, string | number | undefined>;
   callSite?: string;
@@ -135,6 +144,7 @@ function cleanupTmdbProxyBuckets(nowMs: number) {
 }
 
 async function checkSharedTmdbRateLimit(input: {
+  scope: string;
   bucketKey: string;
   maxRequests: number;
   callSite: string;
@@ -146,7 +156,7 @@ async function checkSharedTmdbRateLimit(input: {
 
   try {
     const response = await supabaseAdmin.rpc("acquire_api_rate_limit", {
-      p_scope: "tmdb_proxy",
+      p_scope: input.scope,
       p_client_key: input.bucketKey,
       p_window_seconds: Math.floor(TMDB_PROXY_WINDOW_MS / 1000),
       p_max_requests: input.maxRequests,
@@ -221,31 +231,46 @@ function checkLocalTmdbRateLimit(input: {
   };
 }
 
-export async function guardTmdbProxyRequest(
+export type RateLimitedRouteOptions = {
+  scope: string;
+  callSite: string;
+  maxRequests: number;
+  suspectedBotMaxRequests: number;
+  message: string;
+};
+
+/**
+ * Per-client fixed-window limiter shared by every proxy route. Uses the
+ * `api_rate_limit_bucket` table when the service role is configured and an
+ * in-memory bucket otherwise. Returns a 429 response, or null when allowed.
+ */
+export async function guardRateLimitedRequest(
   request: NextRequest,
-  callSite: string
+  options: RateLimitedRouteOptions
 ): Promise<NextResponse | null> {
+  const { scope, callSite } = options;
   const userAgent = request.headers.get("user-agent")?.trim() ?? "";
   const likelyAutomated = isLikelyAutomatedUserAgent(userAgent);
-  const maxRequests = likelyAutomated
-    ? TMDB_PROXY_SUSPECTED_BOT_MAX_REQUESTS_PER_WINDOW
-    : TMDB_PROXY_MAX_REQUESTS_PER_WINDOW;
+  const maxRequests = likelyAutomated ? options.suspectedBotMaxRequests : options.maxRequests;
 
   const clientAddress = tmdbProxyClientAddress(request);
   const uaFingerprint = userAgent.slice(0, 120).toLowerCase() || "no-ua";
   const bucketKey = `${clientAddress}|${uaFingerprint}`;
   const sharedDecision = await checkSharedTmdbRateLimit({
+    scope,
     bucketKey,
     maxRequests,
     callSite,
   });
-  const decision = sharedDecision ?? checkLocalTmdbRateLimit({ bucketKey, maxRequests });
+  const decision =
+    sharedDecision ?? checkLocalTmdbRateLimit({ bucketKey: `${scope}|${bucketKey}`, maxRequests });
 
   if (decision.allowed) return null;
 
   const retryAfterSeconds = Math.max(1, decision.retryAfterSeconds);
   if (process.env.NODE_ENV === "development") {
-    console.warn("[tmdb] rate limit triggered", {
+    console.warn("[api] rate limit triggered", {
+      scope,
       callSite,
       clientAddress,
       likelyAutomated,
@@ -258,7 +283,7 @@ export async function guardTmdbProxyRequest(
   return errorJson(
     429,
     "rate_limited",
-    "Too many TMDB requests. Please wait and try again.",
+    options.message,
     `Retry after ${retryAfterSeconds} seconds.`,
     {
       "Retry-After": String(retryAfterSeconds),
@@ -266,6 +291,16 @@ export async function guardTmdbProxyRequest(
   );
 }
 
+export function guardTmdbProxyRequest(request: NextRequest, callSite: string) {
+  return guardRateLimitedRequest(request, {
+    scope: "tmdb_proxy",
+    callSite,
+    maxRequests: TMDB_PROXY_MAX_REQUESTS_PER_WINDOW,
+    suspectedBotMaxRequests: TMDB_PROXY_SUSPECTED_BOT_MAX_REQUESTS_PER_WINDOW,
+    message: "Too many TMDB requests. Please wait and try again.",
+  });
+}
+
 export function parseRequiredString(
   value: string | null,
   field: string
@@ -342,6 +377,43 @@ export function parsePositiveInt(
   return { ok: true, value: n };
 }
 
+/** Comma-separated TMDB title keys (tmdb:movie:603), de-duplicated and capped at `maxKeys`. */
+export function parseTitleKeys(
+  value: string | null,
+  maxKeys: number
+): { ok: true; value: ParsedTmdbTitleKey[] } | { ok: false; response: NextResponse } {
+  const parts = Array.from(new Set((value ?? "").split(",").map((part) => part.trim()).filter(Boolean)));
+  if (parts.length === 0) {
+    return {
+      ok: false,
+      response: errorJson(400, "bad_request", "Missing required query parameter: titleKeys"),
+    };
+  }
+  if (parts.length > maxKeys) {
+    return {
+      ok: false,
+      response: errorJson(400, "bad_request", `Too many titleKeys. Send at most ${maxKeys} per request.`),
+    };
+  }
+
+  const keys: ParsedTmdbTitleKey[] = [];
+  for (const part of parts) {
+    const parsed = parseTmdbTitleKey(part);
+    if (!parsed) {
+      return {
+        ok: false,
+        response: errorJson(
+          400,
+          "bad_request",
+          "Invalid titleKeys. Use comma-separated keys like tmdb:movie:603."
+        ),
+      };
+    }
+    keys.push(parsed);
+  }
+  return { ok: true, value: keys };
+}
+
 export function validateLanguage(
   value: string | null
 ): { ok: true; value?: string } | { ok: false; response: NextResponse } {
@@ -363,25 +435,30 @@ export function validateLanguage(
   return { ok: true, value: raw };
 }
 
-export async function tmdbFetch<T>(
-  path: string,
-  options?: TmdbFetchOptions
-): Promise<{ ok: true; data: T } | { ok: false; response: NextResponse }> {
-  const callSite = options?.callSite ?? "unknown";
-  const token = process.env.TMDB_READ_TOKEN?.trim();
-  if (!token) {
-    if (process.env.NODE_ENV === "development" && !missingTokenLoggedByCallSite.has(callSite)) {
-      missingTokenLoggedByCallSite.add(callSite);
-      console.error("[tmdb] missing env var", {
-        envVar: TMDB_TOKEN_ENV_VAR,
-        callSite,
-      });
-    }
-    throw new MissingTmdbTokenError(callSite);
+export function validateRegion(
+  value: string | null
+): { ok: true; value?: string } | { ok: false; response: NextResponse } {
+  const raw = value?.trim();
+  if (!raw) return { ok: true, value: undefined };
+
+  // ISO 3166-1 alpha-2 codes, as TMDB uses for watch regions and certifications.
+  if (!/^[A-Za-z]{2}$/.test(raw)) {
+    return {
+      ok: false,
+      response: errorJson(400, "bad_request", "Invalid region. Use a two-letter country code like US or GB."),
+    };
   }
 
+  return { ok: true, value: raw.toUpperCase() };
+}
+
+async function requestTmdb<T>(
+  path: string,
+  query: TmdbFetchOptions["query"],
+  token: string
+): Promise<{ ok: true; data: T } | { ok: false; error: TmdbUpstreamError }> {
   const url = new URL(`${TMDB_BASE_URL}${path}`);
-  for (const [key, value] of Object.entries(options?.query ?? {})) {
+  for (const [key, value] of Object.entries(query ?? {})) {
     if (value !== undefined) {
       url.searchParams.set(key, String(value));
     }
@@ -405,13 +482,13 @@ export async function tmdbFetch<T>(
       if (response.status === 404) {
         return {
           ok: false,
-          response: errorJson(404, "not_found", "TMDB resource was not found.", detail),
+          error: { status: 404, code: "not_found", message: "TMDB resource was not found.", detail },
         };
       }
 
       return {
         ok: false,
-        response: errorJson(502, "upstream_error", "TMDB request failed.", detail),
+        error: { status: 502, code: "upstream_error", message: "TMDB request failed.", detail },
       };
     }
 
@@ -419,7 +496,41 @@ export async function tmdbFetch<T>(
   } catch (error) {
     return {
       ok: false,
-      response: errorJson(502, "network_error", "Network error while contacting TMDB.", String(error)),
+      error: {
+        status: 502,
+        code: "network_error",
+        message: "Network error while contacting TMDB.",
+        detail: String(error),
+      },
     };
   }
 }
+
+export async function tmdbFetch<T>(
+  path: string,
+  options?: TmdbFetchOptions
+): Promise<{ ok: true; data: T } | { ok: false; response: NextResponse }> {
+  const callSite = options?.callSite ?? "unknown";
+  const token = process.env.TMDB_READ_TOKEN?.trim();
+  if (!token) {
+    if (process.env.NODE_ENV === "development" && !missingTokenLoggedByCallSite.has(callSite)) {
+      missingTokenLoggedByCallSite.add(callSite);
+      console.error("[tmdb] missing env var", {
+        envVar: TMDB_TOKEN_ENV_VAR,
+        callSite,
+      });
+    }
+    throw new MissingTmdbTokenError(callSite);
+  }
+
+  const upstream = await readThroughTmdbCache<T, TmdbUpstreamError>(path, options?.query, () =>
+    requestTmdb<T>(path, options?.query, token)
+  );
+  if (upstream.ok) return upstream;
+
+  const { status, code, message, detail } = upstream.error;
+  return {
+    ok: false,
+    response: errorJson(status, code, message, detail),
+  };
+}
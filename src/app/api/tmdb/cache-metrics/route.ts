@@ -0,0 +1,16 @@
+import { NextRequest } from "next/server";
+import { getTmdbCacheMetrics } from "@/app/api/tmdb/_cache";
+import { errorJson, guardTmdbProxyRequest, okJson } from "@/app/api/tmdb/_shared";
+
+// Hit/miss counters for the TMDB response cache on the instance that serves
+// the request; each server instance keeps its own counts. Development only.
+export async function GET(request: NextRequest) {
+  if (process.env.NODE_ENV !== "development") {
+    return errorJson(404, "not_found", "Not found.");
+  }
+
+  const guard = await guardTmdbProxyRequest(request, "cache-metrics.GET");
+  if (guard) return guard;
+
+  return okJson(getTmdbCacheMetrics(), "no-store");
+}
@@ -0,0 +1,117 @@
+import { NextRequest } from "next/server";
+import {
+  extractMovieCertification,
+  extractTvCertification,
+  type TmdbContentRatings,
+  type TmdbReleaseDates,
+} from "@/app/api/tmdb/_certifications";
+import {
+  errorJson,
+  guardTmdbProxyRequest,
+  MissingTmdbTokenError,
+  okJson,
+  parseEnum,
+  parseTitleKeys,
+  tmdbFetch,
+} from "@/app/api/tmdb/_shared";
+import {
+  DEFAULT_WATCH_REGION,
+  normalizeMovieCertification,
+  normalizeTvCertification,
+  WATCH_REGION_OPTIONS,
+  type NormalizedMovieCertification,
+  type NormalizedTvCertification,
+} from "@/lib/certifications";
+import { buildTmdbTitleKey, type ParsedTmdbTitleKey } from "@/lib/tmdbTitleKey";
+
+// Keep in sync with CERTIFICATION_BATCH_SIZE in src/lib/endlessQueueStore.ts.
+const MAX_CERTIFICATION_TITLE_KEYS = 40;
+const TMDB_CONCURRENCY = 10;
+
+type CertificationResult = {
+  certification: string | null;
+  rating: NormalizedMovieCertification | NormalizedTvCertification;
+};
+
+// TMDB returns every country's certifications in one response, so the cached
+// release_dates/content_ratings payload serves all regions.
+async function fetchRawCertification(
+  key: ParsedTmdbTitleKey,
+  region: string
+): Promise<{ ok: true; value: string | null } | { ok: false }> {
+  if (key.type === "movie") {
+    const upstream = await tmdbFetch<TmdbReleaseDates>(`/movie/${key.id}/release_dates`, {
+      callSite: "certifications.GET.movie",
+    });
+    return upstream.ok ? { ok: true, value: extractMovieCertification(upstream.data, region) } : { ok: false };
+  }
+
+  const upstream = await tmdbFetch<TmdbContentRatings>(`/tv/${key.id}/content_ratings`, {
+    callSite: "certifications.GET.tv",
+  });
+  return upstream.ok ? { ok: true, value: extractTvCertification(upstream.data, region) } : { ok: false };
+}
+
+/**
+ * Certifications for many titles at once, keyed by title_key. `rating` is the
+ * certification mapped onto the group's allowed-rating tiers; keys TMDB could
+ * not answer for are listed in `failed`.
+ */
+export async function GET(request: NextRequest) {
+  const guard = await guardTmdbProxyRequest(request, "certifications.GET");
+  if (guard) return guard;
+
+  const { searchParams } = request.nextUrl;
+
+  const titleKeys = parseTitleKeys(searchParams.get("titleKeys"), MAX_CERTIFICATION_TITLE_KEYS);
+  if (!titleKeys.ok) return titleKeys.response;
+
+  const region = parseEnum(
+    searchParams.get("region"),
+    WATCH_REGION_OPTIONS.map((option) => option.value),
+    "region",
+    DEFAULT_WATCH_REGION
+  );
+  if (!region.ok) return region.response;
+
+  const results: Record<string, CertificationResult> = {};
+  const failed: string[] = [];
+
+  try {
+    for (let start = 0; start < titleKeys.value.length; start += TMDB_CONCURRENCY) {
+      const batch = titleKeys.value.slice(start, start + TMDB_CONCURRENCY);
+      const resolved = await Promise.all(
+        batch.map(async (key) => [key, await fetchRawCertification(key, region.value)] as const)
+      );
+
+      for (const [key, raw] of resolved) {
+        const titleKey = buildTmdbTitleKey(key.type, key.id);
+        if (!raw.ok) {
+          failed.push(titleKey);
+          continue;
+        }
+        results[titleKey] = {
+          certification: raw.value,
+          rating:
+            key.type === "movie"
+              ? normalizeMovieCertification(region.value, raw.value)
+              : normalizeTvCertification(region.value, raw.value),
+        };
+      }
+    }
+  } catch (error) {
+    if (error instanceof MissingTmdbTokenError) {
+      return errorJson(500, "config_error", error.message);
+    }
+    throw error;
+  }
+
+  return okJson(
+    {
+      region: region.value,
+      results,
+      failed,
+    },
+    "public, s-maxage=3600, stale-while-revalidate=86400"
+  );
+}
@@ -1,4 +1,10 @@
 import { NextRequest } from "next/server";
+import {
+  extractMovieCertification,
+  extractTvCertification,
+  type TmdbContentRatings,
+  type TmdbReleaseDates,
+} from "@/app/api/tmdb/_certifications";
 import {
   errorJson,
   guardTmdbProxyRequest,
@@ -8,7 +14,9 @@ import {
   parsePositiveInt,
   tmdbFetch,
   validateLanguage,
+  validateRegion,
 } from "@/app/api/tmdb/_shared";
+import { DEFAULT_WATCH_REGION } from "@/lib/certifications";
 
 type TmdbGenre = {
   id: number;
@@ -29,73 +37,10 @@ type TmdbDetailsResponse = {
   backdrop_path?: string | null;
   release_date?: string | null;
   first_air_date?: string | null;
-  release_dates?: {
-    results?: Array<{
-      iso_3166_1?: string | null;
-      release_dates?: Array<{
-        certification?: string | null;
-      }>;
-    }>;
-  };
-  content_ratings?: {
-    results?: Array<{
-      iso_3166_1?: string | null;
-      rating?: string | null;
-    }>;
-  };
+  release_dates?: TmdbReleaseDates;
+  content_ratings?: TmdbContentRatings;
 };
 
-function normalizeMpaa(certification: string | null | undefined) {
-  const raw = (certification ?? "").trim().toUpperCase();
-  if (!raw) return null;
-  if (raw === "PG13") return "PG-13";
-  return raw;
-}
-
-function extractUsMovieMpaa(
-  releaseDates: TmdbDetailsResponse["release_dates"]
-): string | null {
-  const regions = releaseDates?.results ?? [];
-  const us = regions.find((region) => region.iso_3166_1 === "US");
-  if (!us) return null;
-  for (const entry of us.release_dates ?? []) {
-    const normalized = normalizeMpaa(entry.certification);
-    if (normalized) return normalized;
-  }
-  return null;
-}
-
-function normalizeTvRating(rating: string | null | undefined) {
-  const raw = (rating ?? "").trim().toUpperCase();
-  if (!raw) return null;
-  if (raw === "TVY") return "TV-Y";
-  if (raw === "TVY7") return "TV-Y7";
-  if (raw === "TVG") return "TV-G";
-  if (raw === "TVPG") return "TV-PG";
-  if (raw === "TV14") return "TV-14";
-  if (raw === "TVMA") return "TV-MA";
-  if (
-    raw === "TV-Y" ||
-    raw === "TV-Y7" ||
-    raw === "TV-G" ||
-    raw === "TV-PG" ||
-    raw === "TV-14" ||
-    raw === "TV-MA"
-  ) {
-    return raw;
-  }
-  return null;
-}
-
-function extractUsTvRating(
-  contentRatings: TmdbDetailsResponse["content_ratings"]
-): string | null {
-  const regions = contentRatings?.results ?? [];
-  const us = regions.find((region) => region.iso_3166_1 === "US");
-  if (!us) return null;
-  return normalizeTvRating(us.rating);
-}
-
 export async function GET(request: NextRequest) {
   const guard = await guardTmdbProxyRequest(request, "details.GET");
   if (guard) return guard;
@@ -111,6 +56,10 @@ export async function GET(request: NextRequest) {
   const language = validateLanguage(searchParams.get("language"));
   if (!language.ok) return language.response;
 
+  const region = validateRegion(searchParams.get("region"));
+  if (!region.ok) return region.response;
+  const regionCode = region.value ?? DEFAULT_WATCH_REGION;
+
   let upstream: Awaited<ReturnType<typeof tmdbFetch<TmdbDetailsResponse>>>;
   try {
     upstream = await tmdbFetch<TmdbDetailsResponse>(`/${type.value}/${id.value}`, {
@@ -142,7 +91,8 @@ export async function GET(request: NextRequest) {
       poster_path: data.poster_path ?? null,
       backdrop_path: data.backdrop_path ?? null,
       release_date: data.release_date ?? null,
-      mpaa_rating: extractUsMovieMpaa(data.release_dates),
+      region: regionCode,
+      certification: extractMovieCertification(data.release_dates, regionCode),
     });
   }
 
@@ -157,6 +107,7 @@ export async function GET(request: NextRequest) {
     poster_path: data.poster_path ?? null,
     backdrop_path: data.backdrop_path ?? null,
     first_air_date: data.first_air_date ?? null,
-    tv_rating: extractUsTvRating(data.content_ratings),
+    region: regionCode,
+    certification: extractTvCertification(data.content_ratings, regionCode),
   });
 }
@@ -8,6 +8,7 @@ import {
   parsePositiveInt,
   tmdbFetch,
   validateLanguage,
+  validateRegion,
 } from "@/app/api/tmdb/_shared";
 import { buildTmdbTitleKey } from "@/lib/tmdbTitleKey";
 
@@ -73,6 +74,25 @@ function parseOptionalGenreIds(
   return { ok: true, value: ids.join(",") };
 }
 
+function parseOptionalProviderIds(
+  raw: string | null
+): { ok: true; value?: number[] } | { ok: false; response: ReturnType<typeof errorJson> } {
+  const trimmed = raw?.trim();
+  if (!trimmed) return { ok: true, value: undefined };
+  const ids: number[] = [];
+  for (const part of trimmed.split(",").map((p) => p.trim()).filter(Boolean)) {
+    const n = Number(part);
+    if (!Number.isInteger(n) || n <= 0) {
+      return {
+        ok: false,
+        response: errorJson(400, "bad_request", "Invalid providers. Use comma-separated numeric provider IDs."),
+      };
+    }
+    ids.push(n);
+  }
+  return { ok: true, value: ids.length > 0 ? ids : undefined };
+}
+
 function parseOptionalMinVoteCount(
   raw: string | null
 ): { ok: true; value?: number } | { ok: false; response: ReturnType<typeof errorJson> } {
@@ -130,6 +150,18 @@ export async function GET(request: NextRequest) {
   const releaseTo = parseOptionalDate(searchParams.get("releaseTo"), "releaseTo");
   if (!releaseTo.ok) return releaseTo.response;
 
+  const providers = parseOptionalProviderIds(searchParams.get("providers"));
+  if (!providers.ok) return providers.response;
+
+  const region = validateRegion(searchParams.get("region"));
+  if (!region.ok) return region.response;
+  if (providers.value && !region.value) {
+    return errorJson(400, "bad_request", "region is required when providers is set.");
+  }
+
+  const includeRentBuy = searchParams.get("includeRentBuy") === "1";
+  const monetizationTypes = includeRentBuy ? "flatrate|free|ads|rent|buy" : "flatrate|free|ads";
+
   const endpoint = type.value === "movie" ? "/discover/movie" : "/discover/tv";
   const releaseFromKey = type.value === "movie" ? "primary_release_date.gte" : "first_air_date.gte";
   const releaseToKey = type.value === "movie" ? "primary_release_date.lte" : "first_air_date.lte";
@@ -147,6 +179,10 @@ export async function GET(request: NextRequest) {
         without_genres: excludedGenreIds.value,
         [releaseFromKey]: releaseFrom.value,
         [releaseToKey]: releaseTo.value,
+        // "|" is OR in TMDB filters, so a title on any listed service matches.
+        with_watch_providers: providers.value?.join("|"),
+        watch_region: providers.value ? region.value : undefined,
+        with_watch_monetization_types: providers.value ? monetizationTypes : undefined,
       },
     });
   } catch (error) {
@@ -7,7 +7,9 @@ import {
   parseEnum,
   parsePositiveInt,
   tmdbFetch,
+  validateRegion,
 } from "@/app/api/tmdb/_shared";
+import { DEFAULT_WATCH_REGION } from "@/lib/certifications";
 
 type TmdbProvider = {
   provider_id: number;
@@ -16,14 +18,15 @@ type TmdbProvider = {
 };
 
 type TmdbProvidersResponse = {
-  results?: {
-    US?: {
+  results?: Record<
+    string,
+    {
       link?: string;
       flatrate?: TmdbProvider[];
       rent?: TmdbProvider[];
       buy?: TmdbProvider[];
-    };
-  };
+    }
+  >;
 };
 
 function mapProvider(provider: TmdbProvider) {
@@ -46,6 +49,10 @@ export async function GET(request: NextRequest) {
   const id = parsePositiveInt(searchParams.get("id"), "id", { min: 1, max: 999999999 });
   if (!id.ok) return id.response;
 
+  const region = validateRegion(searchParams.get("region"));
+  if (!region.ok) return region.response;
+  const regionCode = region.value ?? DEFAULT_WATCH_REGION;
+
   let upstream: Awaited<ReturnType<typeof tmdbFetch<TmdbProvidersResponse>>>;
   try {
     upstream = await tmdbFetch<TmdbProvidersResponse>(`/${type.value}/${id.value}/watch/providers`, {
@@ -59,10 +66,10 @@ export async function GET(request: NextRequest) {
   }
   if (!upstream.ok) return upstream.response;
 
-  const us = upstream.data.results?.US;
-  const flatrate = (us?.flatrate ?? []).map(mapProvider);
-  const rent = (us?.rent ?? []).map(mapProvider);
-  const buy = (us?.buy ?? []).map(mapProvider);
+  const available = upstream.data.results?.[regionCode];
+  const flatrate = (available?.flatrate ?? []).map(mapProvider);
+  const rent = (available?.rent ?? []).map(mapProvider);
+  const buy = (available?.buy ?? []).map(mapProvider);
 
   const seen = new Set<number>();
   const prioritized: Array<
@@ -85,8 +92,10 @@ export async function GET(request: NextRequest) {
   }
 
   return okJson({
-    tmdb_link: us?.link ?? `https://www.themoviedb.org/${type.value}/${id.value}/watch?locale=US`,
-    us: {
+    tmdb_link:
+      available?.link ?? `https://www.themoviedb.org/${type.value}/${id.value}/watch?locale=${regionCode}`,
+    region: regionCode,
+    providers: {
       flatrate,
       rent,
       buy,
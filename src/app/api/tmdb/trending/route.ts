@@ -6,6 +6,7 @@ import {
   okJson,
   parseEnum,
   tmdbFetch,
+  validateLanguage,
 } from "@/app/api/tmdb/_shared";
 import { buildTmdbTitleKey } from "@/lib/tmdbTitleKey";
 
@@ -45,10 +46,14 @@ export async function GET(request: NextRequest) {
   const window = parseEnum(searchParams.get("window"), ["day", "week"] as const, "window", "week");
   if (!window.ok) return window.response;
 
+  const language = validateLanguage(searchParams.get("language"));
+  if (!language.ok) return language.response;
+
   let upstream: Awaited<ReturnType<typeof tmdbFetch<TmdbTrendingResponse>>>;
   try {
     upstream = await tmdbFetch<TmdbTrendingResponse>(`/trending/${type.value}/${window.value}`, {
       callSite: "trending.GET",
+      query: { language: language.value },
     });
   } catch (error) {
     if (error instanceof MissingTmdbTokenError) {
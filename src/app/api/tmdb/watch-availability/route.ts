@@ -0,0 +1,95 @@
+import { NextRequest } from "next/server";
+import {
+  errorJson,
+  guardTmdbProxyRequest,
+  MissingTmdbTokenError,
+  okJson,
+  parseTitleKeys,
+  tmdbFetch,
+  validateRegion,
+} from "@/app/api/tmdb/_shared";
+import { DEFAULT_WATCH_REGION } from "@/lib/certifications";
+import { buildTmdbTitleKey } from "@/lib/tmdbTitleKey";
+
+// Keep in sync with WATCH_AVAILABILITY_BATCH_SIZE in src/lib/endlessQueueStore.ts.
+const MAX_WATCH_AVAILABILITY_TITLE_KEYS = 40;
+const TMDB_CONCURRENCY = 10;
+
+type TmdbProvidersResponse = {
+  results?: Record<
+    string,
+    {
+      flatrate?: Array<{ provider_id: number }>;
+      rent?: Array<{ provider_id: number }>;
+      buy?: Array<{ provider_id: number }>;
+    }
+  >;
+};
+
+type WatchAvailabilityResult = {
+  stream: number[];
+  rent_or_buy: number[];
+};
+
+function providerIds(list: Array<{ provider_id: number }> | undefined) {
+  return (list ?? []).map((provider) => provider.provider_id).filter((id) => Number.isInteger(id));
+}
+
+/**
+ * Watch provider ids in `region` for many titles at once, keyed by title_key. Keys
+ * TMDB could not answer for are listed in `failed`.
+ */
+export async function GET(request: NextRequest) {
+  const guard = await guardTmdbProxyRequest(request, "watch-availability.GET");
+  if (guard) return guard;
+
+  const titleKeys = parseTitleKeys(
+    request.nextUrl.searchParams.get("titleKeys"),
+    MAX_WATCH_AVAILABILITY_TITLE_KEYS
+  );
+  if (!titleKeys.ok) return titleKeys.response;
+
+  const region = validateRegion(request.nextUrl.searchParams.get("region"));
+  if (!region.ok) return region.response;
+  const regionCode = region.value ?? DEFAULT_WATCH_REGION;
+
+  const results: Record<string, WatchAvailabilityResult> = {};
+  const failed: string[] = [];
+
+  try {
+    for (let start = 0; start < titleKeys.value.length; start += TMDB_CONCURRENCY) {
+      const batch = titleKeys.value.slice(start, start + TMDB_CONCURRENCY);
+      const resolved = await Promise.all(
+        batch.map(
+          async (key) =>
+            [
+              key,
+              await tmdbFetch<TmdbProvidersResponse>(`/${key.type}/${key.id}/watch/providers`, {
+                callSite: "watch-availability.GET",
+              }),
+            ] as const
+        )
+      );
+
+      for (const [key, upstream] of resolved) {
+        const titleKey = buildTmdbTitleKey(key.type, key.id);
+        if (!upstream.ok) {
+          failed.push(titleKey);
+          continue;
+        }
+        const available = upstream.data.results?.[regionCode];
+        results[titleKey] = {
+          stream: providerIds(available?.flatrate),
+          rent_or_buy: Array.from(new Set([...providerIds(available?.rent), ...providerIds(available?.buy)])),
+        };
+      }
+    }
+  } catch (error) {
+    if (error instanceof MissingTmdbTokenError) {
+      return errorJson(500, "config_error", error.message);
+    }
+    throw error;
+  }
+
+  return okJson({ region: regionCode, results, failed }, "public, s-maxage=3600, stale-while-revalidate=86400");
+}
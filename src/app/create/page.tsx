@@ -4,12 +4,25 @@ import { type KeyboardEvent, useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { AppShell } from "@/components/AppShell";
+import { GroupArchiveImportCard } from "@/components/GroupArchiveImportCard";
 import { Button, Card, CardTitle, Input, Muted } from "@/components/ui";
 import { getAuthSnapshot, subscribeAuthSnapshot, type AuthSnapshot } from "@/lib/authClient";
+import {
+  certificationsForTier,
+  certificationSystemLabel,
+  DEFAULT_WATCH_REGION,
+  normalizeWatchRegion,
+  WATCH_REGION_OPTIONS,
+  type MovieRatingTier,
+  type TvRatingTier,
+} from "@/lib/certifications";
 import { createGroup } from "@/lib/groupStore";
 import { markHostForGroup } from "@/lib/hostStore";
+import { DEFAULT_RANKING_STRATEGY, RANKING_STRATEGY_OPTIONS } from "@/lib/rankingStrategies";
 import { getHostDisplayName, setHostDisplayName } from "@/lib/hostProfileStore";
 import { createGroupId, getEndlessSettings, type GroupSettings } from "@/lib/storage";
+import { STREAMING_PROVIDER_OPTIONS } from "@/lib/streamingProviders";
+import { DEFAULT_TITLE_LANGUAGE, normalizeTitleLanguage, TITLE_LANGUAGE_OPTIONS } from "@/lib/titleLanguages";
 import { isSupabaseConfigured } from "@/lib/supabase";
 
 type Step = 0 | 1 | 2;
@@ -26,6 +39,8 @@ type GenreListResponse = {
 
 const YEAR_PATTERN = /^\d{4}$/;
 const DATE_RANGE_DEFAULT_FROM_YEAR = 2000;
+const VETO_BUDGET_OPTIONS = [0, 1, 2, 3, 5] as const;
+const MATCH_THRESHOLD_OPTIONS = [0, 3, 4, 5] as const;
 
 function getKnownAccountName(auth: AuthSnapshot) {
   const displayName = auth.displayName?.trim() ?? "";
@@ -86,8 +101,15 @@ export default function CreateGroupPage() {
     allowTVPG: true,
     allowTV14: true,
     allowTVMA: true,
+    region: DEFAULT_WATCH_REGION,
+    language: DEFAULT_TITLE_LANGUAGE,
     allow_members_invite_link: false,
+    openLink: true,
+    requireApproval: false,
     top_titles_limit: 100,
+    rankingStrategy: DEFAULT_RANKING_STRATEGY,
+    vetoBudget: 3,
+    matchThreshold: 4,
     ratingMode: "unlimited",
     shortlistItems: [],
     endless: getEndlessSettings(undefined),
@@ -100,7 +122,7 @@ export default function CreateGroupPage() {
 
   const movieRatingOptions: Array<{
     key: "allowG" | "allowPG" | "allowPG13" | "allowR";
-    label: string;
+    label: MovieRatingTier;
     desc: string;
   }> = [
     { key: "allowG", label: "G", desc: "General audiences" },
@@ -111,7 +133,7 @@ export default function CreateGroupPage() {
 
   const tvRatingOptions: Array<{
     key: "allowTVY" | "allowTVY7" | "allowTVG" | "allowTVPG" | "allowTV14" | "allowTVMA";
-    label: string;
+    label: TvRatingTier;
     desc: string;
   }> = [
     { key: "allowTVY", label: "TV-Y", desc: "All children" },
@@ -122,6 +144,14 @@ export default function CreateGroupPage() {
     { key: "allowTVMA", label: "TV-MA", desc: "Mature audience only" },
   ];
 
+  // Outside the US the toggles keep the US tiers; show which local ratings each one covers.
+  function localRatingsHint(tier: MovieRatingTier | TvRatingTier) {
+    if (settings.region === "US") return null;
+    const codes = certificationsForTier(settings.region, tier);
+    const system = certificationSystemLabel(settings.region, tier.startsWith("TV-") ? "tv" : "movie");
+    return codes.length > 0 ? `${system} ${codes.join(", ")}` : `No ${system} equivalent`;
+  }
+
   useEffect(() => {
     setHostName(getHostDisplayName());
   }, []);
@@ -169,8 +199,8 @@ export default function CreateGroupPage() {
     (async () => {
       try {
         const [movieResponse, tvResponse] = await Promise.all([
-          fetch("/api/tmdb/genres?type=movie"),
-          fetch("/api/tmdb/genres?type=tv"),
+          fetch(`/api/tmdb/genres?type=movie&language=${settings.language}`),
+          fetch(`/api/tmdb/genres?type=tv&language=${settings.language}`),
         ]);
         const [movieBody, tvBody] = (await Promise.all([
           movieResponse.json(),
@@ -217,7 +247,7 @@ export default function CreateGroupPage() {
     return () => {
       alive = false;
     };
-  }, []);
+  }, [settings.language]);
 
   const isCustomListMode = settings.ratingMode === "shortlist";
   const atLeastOneMovieRating =
@@ -297,6 +327,21 @@ export default function CreateGroupPage() {
     });
   }
 
+  function setProviderSelected(providerId: number, selected: boolean) {
+    setSettings((s) => {
+      const next = new Set(s.endless.providerIds);
+      if (selected) {
+        next.add(providerId);
+      } else {
+        next.delete(providerId);
+      }
+      return {
+        ...s,
+        endless: { ...s.endless, providerIds: Array.from(next) },
+      };
+    });
+  }
+
   function toggleAllMovieRatings() {
     const nextValue = !allMovieRatingsSelected;
     setSettings((s) => ({
@@ -655,6 +700,73 @@ export default function CreateGroupPage() {
                         </div>
                       </Card>
 
+                      <Card interactive={false}>
+                        <CardTitle>Shared deck</CardTitle>
+                        <div className="mt-3 space-y-3">
+                          <label className="flex items-center justify-between gap-3 rounded-xl border border-white/10 bg-white/5 px-3 py-2.5 hover:bg-white/10">
+                            <div>
+                              <div className="text-sm font-semibold">Everyone rates the same titles</div>
+                              <div className="text-xs text-white/60">
+                                Titles others liked come up first, so the group agrees faster.
+                              </div>
+                            </div>
+                            <input
+                              type="checkbox"
+                              checked={settings.endless.sharedDeck}
+                              onChange={(e) =>
+                                setSettings((s) => ({
+                                  ...s,
+                                  endless: { ...s.endless, sharedDeck: e.target.checked },
+                                }))
+                              }
+                              className="h-4 w-4 accent-[rgb(var(--yellow))]"
+                            />
+                          </label>
+                        </div>
+                      </Card>
+
+                      <Card interactive={false}>
+                        <CardTitle>Region</CardTitle>
+                        <div className="mt-2 text-sm text-white/70">
+                          Streaming availability and age ratings are checked for this country.
+                        </div>
+                        <select
+                          aria-label="Region"
+                          value={settings.region}
+                          onChange={(e) =>
+                            setSettings((s) => ({ ...s, region: normalizeWatchRegion(e.target.value) }))
+                          }
+                          className="mt-3 w-full rounded-xl border border-white/14 bg-black/25 px-3.5 py-2.5 text-sm text-white outline-none transition focus:border-[rgb(var(--yellow))]/60 focus:ring-2 focus:ring-[rgb(var(--yellow))]/25"
+                        >
+                          {WATCH_REGION_OPTIONS.map((opt) => (
+                            <option key={opt.value} value={opt.value} className="bg-[rgb(var(--card-2))] text-white">
+                              {opt.label}
+                            </option>
+                          ))}
+                        </select>
+                      </Card>
+
+                      <Card interactive={false}>
+                        <CardTitle>Language</CardTitle>
+                        <div className="mt-2 text-sm text-white/70">
+                          Titles, overviews and genres load in this language. Members can pick their own on the group page.
+                        </div>
+                        <select
+                          aria-label="Language"
+                          value={settings.language}
+                          onChange={(e) =>
+                            setSettings((s) => ({ ...s, language: normalizeTitleLanguage(e.target.value) }))
+                          }
+                          className="mt-3 w-full rounded-xl border border-white/14 bg-black/25 px-3.5 py-2.5 text-sm text-white outline-none transition focus:border-[rgb(var(--yellow))]/60 focus:ring-2 focus:ring-[rgb(var(--yellow))]/25"
+                        >
+                          {TITLE_LANGUAGE_OPTIONS.map((opt) => (
+                            <option key={opt.value} value={opt.value} className="bg-[rgb(var(--card-2))] text-white">
+                              {opt.label}
+                            </option>
+                          ))}
+                        </select>
+                      </Card>
+
                       <Card interactive={false}>
                         <div className="flex items-center justify-between gap-2">
                           <CardTitle>Allowed movie ratings</CardTitle>
@@ -683,6 +795,11 @@ export default function CreateGroupPage() {
                                 />
                                 <div className="text-sm font-semibold">{opt.label}</div>
                                 <div className="mt-1 text-[11px] leading-tight text-white/60">{opt.desc}</div>
+                                {localRatingsHint(opt.label) ? (
+                                  <div className="mt-1 text-[11px] leading-tight text-[rgb(var(--yellow))]/80">
+                                    {localRatingsHint(opt.label)}
+                                  </div>
+                                ) : null}
                               </label>
                             );
                           })}
@@ -721,6 +838,11 @@ export default function CreateGroupPage() {
                                   />
                                   <div className="text-sm font-semibold">{opt.label}</div>
                                   <div className="mt-1 text-[11px] leading-tight text-white/60">{opt.desc}</div>
+                                  {localRatingsHint(opt.label) ? (
+                                    <div className="mt-1 text-[11px] leading-tight text-[rgb(var(--yellow))]/80">
+                                      {localRatingsHint(opt.label)}
+                                    </div>
+                                  ) : null}
                                 </label>
                               );
                             })}
@@ -803,9 +925,68 @@ export default function CreateGroupPage() {
 
                       <Card interactive={false}>
                         <CardTitle>Streaming services</CardTitle>
-                        <div className="mt-2">
-                          <Muted>Streaming service filters are coming soon.</Muted>
+                        <div className="mt-2 text-sm text-white/70">
+                          Only suggest titles on the services your group has. Select none to allow anything.
+                        </div>
+                        <div className="mt-3 flex flex-wrap items-center gap-2">
+                          <Button
+                            variant="ghost"
+                            onClick={() =>
+                              setSettings((s) => ({
+                                ...s,
+                                endless: { ...s.endless, providerIds: [] },
+                              }))
+                            }
+                            disabled={settings.endless.providerIds.length === 0}
+                          >
+                            Any service
+                          </Button>
+                          <span className="text-xs text-white/55">
+                            {settings.endless.providerIds.length} selected
+                          </span>
                         </div>
+                        <div className="mt-3 grid gap-2 sm:grid-cols-2 lg:grid-cols-4">
+                          {STREAMING_PROVIDER_OPTIONS.map((provider) => {
+                            const isSelected = settings.endless.providerIds.includes(provider.id);
+                            return (
+                              <button
+                                key={provider.id}
+                                type="button"
+                                aria-pressed={isSelected}
+                                onClick={() => setProviderSelected(provider.id, !isSelected)}
+                                className={[
+                                  "rounded-xl border px-3 py-2 text-left text-sm transition",
+                                  isSelected
+                                    ? "border-[rgb(var(--yellow))]/55 bg-white/12 text-white"
+                                    : "border-white/10 bg-white/5 text-white/80 hover:bg-white/10",
+                                ].join(" ")}
+                              >
+                                {provider.label}
+                              </button>
+                            );
+                          })}
+                        </div>
+                        {settings.endless.providerIds.length > 0 ? (
+                          <label className="mt-3 flex items-center justify-between gap-3 rounded-xl border border-white/10 bg-white/5 px-3 py-2.5 hover:bg-white/10">
+                            <div>
+                              <div className="text-sm font-semibold">Include rent or buy</div>
+                              <div className="text-xs text-white/60">
+                                Also suggest titles these services only rent or sell.
+                              </div>
+                            </div>
+                            <input
+                              type="checkbox"
+                              checked={settings.endless.includeRentBuy}
+                              onChange={(e) =>
+                                setSettings((s) => ({
+                                  ...s,
+                                  endless: { ...s.endless, includeRentBuy: e.target.checked },
+                                }))
+                              }
+                              className="h-4 w-4 accent-[rgb(var(--yellow))]"
+                            />
+                          </label>
+                        ) : null}
                       </Card>
                     </div>
                   ) : (
@@ -813,6 +994,72 @@ export default function CreateGroupPage() {
                       Filters are hidden in Custom list mode because you choose the exact titles next.
                     </div>
                   )}
+
+                  <Card interactive={false}>
+                    <CardTitle>How the winner is picked</CardTitle>
+                    <div className="mt-3 grid gap-2 sm:grid-cols-2">
+                      {RANKING_STRATEGY_OPTIONS.map((opt) => {
+                        const selected = settings.rankingStrategy === opt.value;
+                        return (
+                          <div
+                            key={opt.value}
+                            role="button"
+                            tabIndex={0}
+                            aria-pressed={selected}
+                            onClick={() => setSettings((s) => ({ ...s, rankingStrategy: opt.value }))}
+                            onKeyDown={(event) =>
+                              onCardKeyDown(event, () => setSettings((s) => ({ ...s, rankingStrategy: opt.value })))
+                            }
+                            className={[
+                              "rounded-xl border px-3 py-2.5 text-left transition focus:outline-none focus-visible:border-[rgb(var(--yellow))]/60 focus-visible:ring-2 focus-visible:ring-[rgb(var(--yellow))]/20",
+                              selected
+                                ? "border-[rgb(var(--yellow))]/55 bg-white/12"
+                                : "border-white/10 bg-white/5 hover:bg-white/10",
+                            ].join(" ")}
+                          >
+                            <div className="text-sm font-semibold">{opt.label}</div>
+                            <div className="mt-1 text-xs text-white/60">{opt.description}</div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </Card>
+
+                  <Card interactive={false}>
+                    <CardTitle>Vetoes per member</CardTitle>
+                    <div className="mt-1 text-sm text-white/60">
+                      A veto blocks a title from results no matter how others rate it.
+                    </div>
+                    <div className="mt-3 flex flex-wrap gap-2">
+                      {VETO_BUDGET_OPTIONS.map((budget) => (
+                        <Button
+                          key={budget}
+                          variant={settings.vetoBudget === budget ? "primary" : "secondary"}
+                          onClick={() => setSettings((s) => ({ ...s, vetoBudget: budget }))}
+                        >
+                          {budget === 0 ? "Off" : budget}
+                        </Button>
+                      ))}
+                    </div>
+                  </Card>
+
+                  <Card interactive={false}>
+                    <CardTitle>Match alert</CardTitle>
+                    <div className="mt-1 text-sm text-white/60">
+                      Celebrate as soon as every member rates the same title at least this many stars.
+                    </div>
+                    <div className="mt-3 flex flex-wrap gap-2">
+                      {MATCH_THRESHOLD_OPTIONS.map((threshold) => (
+                        <Button
+                          key={threshold}
+                          variant={settings.matchThreshold === threshold ? "primary" : "secondary"}
+                          onClick={() => setSettings((s) => ({ ...s, matchThreshold: threshold }))}
+                        >
+                          {threshold === 0 ? "Off" : `${threshold}\u2605+`}
+                        </Button>
+                      ))}
+                    </div>
+                  </Card>
                 </div>
               </Card>
             </div>
@@ -852,6 +1099,12 @@ export default function CreateGroupPage() {
             </div>
           </Card>
         </div>
+
+        {step < 2 ? (
+          <div className={stepInsetClass}>
+            <GroupArchiveImportCard />
+          </div>
+        ) : null}
       </div>
     </AppShell>
   );
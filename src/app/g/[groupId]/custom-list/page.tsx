@@ -9,6 +9,8 @@ import { Button, Card, CardTitle, Input, Muted, Pill } from "@/components/ui";
 import { customListLabel, isCustomListMode } from "@/lib/groupLabels";
 import { getGroup, updateGroupSettings } from "@/lib/groupStore";
 import { isHostForGroup } from "@/lib/hostStore";
+import { resolveTitleLanguage } from "@/lib/languageStore";
+import { getCurrentGroupMember } from "@/lib/memberStore";
 import { ensureAuth, getAuthUserId } from "@/lib/api";
 import {
   addToShortlist,
@@ -90,7 +92,7 @@ export default function CustomListPage() {
   const [isLoadingGroup, setIsLoadingGroup] = useState(true);
   const [authBlocked, setAuthBlocked] = useState(false);
   const [authRetryKey, setAuthRetryKey] = useState(0);
-  const [isHost, setIsHost] = useState(false);
+  const [canManage, setCanManage] = useState(false);
 
   const [query, setQuery] = useState("");
   const [debouncedQuery, setDebouncedQuery] = useState("");
@@ -131,7 +133,13 @@ export default function CustomListPage() {
 
       const hostFromOwner = Boolean(resolved?.ownerUserId && uid && resolved.ownerUserId === uid);
       const hostFromLocalFlag = !resolved?.ownerUserId && isHostForGroup(groupId);
-      setIsHost(hostFromOwner || hostFromLocalFlag);
+      let coHost = false;
+      if (!hostFromOwner && !hostFromLocalFlag && resolved?.ownerUserId) {
+        const mine = await getCurrentGroupMember(groupId);
+        if (!alive) return;
+        coHost = mine.member?.role === "co_host";
+      }
+      setCanManage(hostFromOwner || hostFromLocalFlag || coHost);
       setIsLoadingGroup(false);
     })();
 
@@ -184,7 +192,7 @@ export default function CustomListPage() {
       try {
         const fallbackQuery = group.settings.contentType === "movies" ? "popular movies" : "popular";
         const response = await fetch(
-          `/api/tmdb/search?q=${encodeURIComponent(fallbackQuery)}&type=multi&page=1`
+          `/api/tmdb/search?q=${encodeURIComponent(fallbackQuery)}&type=multi&page=1&language=${resolveTitleLanguage(groupId)}`
         );
         const body = (await response.json()) as SearchResponse;
         if (!response.ok || !alive) return;
@@ -223,7 +231,7 @@ export default function CustomListPage() {
       setSearchError("");
 
       try {
-        const response = await fetch(`/api/tmdb/search?q=${encodeURIComponent(debouncedQuery)}&type=multi`);
+        const response = await fetch(`/api/tmdb/search?q=${encodeURIComponent(debouncedQuery)}&type=multi&language=${resolveTitleLanguage(groupId)}`);
         const body = (await response.json()) as SearchResponse;
 
         if (!response.ok) {
@@ -253,7 +261,7 @@ export default function CustomListPage() {
     return () => {
       alive = false;
     };
-  }, [debouncedQuery, group]);
+  }, [debouncedQuery, group, groupId]);
 
   const shortlistKeys = useMemo(() => {
     return new Set(shortlist.map((item) => item.title_id));
@@ -302,6 +310,7 @@ export default function CustomListPage() {
         callSite: "CustomListPage.onAdd",
         upstreamPayloadKeys: Object.keys(item),
         tmdbSucceeded: true,
+        language: resolveTitleLanguage(groupId),
       });
       await refreshShortlist();
       setQuery("");
@@ -399,12 +408,12 @@ export default function CustomListPage() {
     );
   }
 
-  if (!isHost) {
+  if (!canManage) {
     return (
       <AppShell>
         <StateCard
           title="Hosts only"
-          description="Only the host can edit this custom list."
+          description="Only the host or a co-host can edit this custom list."
           actionHref={`/g/${groupId}`}
           actionLabel="Back to hub"
           actionVariant="secondary"
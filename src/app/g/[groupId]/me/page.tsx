@@ -0,0 +1,375 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { AppShell } from "@/components/AppShell";
+import { MemberAvatar } from "@/components/MemberAvatar";
+import { MemberProfileCard } from "@/components/MemberProfileCard";
+import { PosterImage } from "@/components/PosterImage";
+import { StateCard } from "@/components/StateCard";
+import { Button, Card, CardTitle, Muted, Pill } from "@/components/ui";
+import { useGroupSession } from "@/components/useGroupSession";
+import { ensureAuth } from "@/lib/api";
+import { resolveTitleLanguage } from "@/lib/languageStore";
+import { getCurrentGroupMember } from "@/lib/memberStore";
+import { getMemberRatings, setRating } from "@/lib/ratingStore";
+import {
+  countVetoes,
+  getActiveMember,
+  VETO_RATING,
+  type Member,
+  type MemberRatings,
+  type RatingValue,
+} from "@/lib/ratings";
+import { getShortlist } from "@/lib/shortlistStore";
+import { loadGroup, type Group } from "@/lib/storage";
+import { getTitleSnapshots, type TitleSnapshot } from "@/lib/titleCacheStore";
+import { parseTmdbTitleKey } from "@/lib/tmdbTitleKey";
+import { getGroupTopTitles } from "@/lib/topTitlesStore";
+
+type RatingFilter = "all" | 5 | 4 | 3 | 2 | 1 | "skipped" | "vetoed";
+
+const RATING_FILTER_OPTIONS: Array<{ value: RatingFilter; label: string }> = [
+  { value: "all", label: "All" },
+  { value: 5, label: "5\u2605" },
+  { value: 4, label: "4\u2605" },
+  { value: 3, label: "3\u2605" },
+  { value: 2, label: "2\u2605" },
+  { value: 1, label: "1\u2605" },
+  { value: "skipped", label: "Skipped" },
+  { value: "vetoed", label: "Vetoed" },
+];
+
+const TOP_PICKS_COUNT = 5;
+
+type SnapshotFields = Pick<TitleSnapshot, "title" | "year" | "poster_path">;
+
+type TitleDisplay = {
+  title: string;
+  year: string | null;
+  posterPath: string | null;
+};
+
+function matchesFilter(rating: RatingValue, filter: RatingFilter) {
+  if (filter === "all") return true;
+  if (filter === "skipped") return rating === 0;
+  if (filter === "vetoed") return rating === VETO_RATING;
+  return rating === filter;
+}
+
+function ratingLabel(rating: RatingValue) {
+  if (rating === VETO_RATING) return "Vetoed";
+  if (rating === 0) return "Skipped";
+  return `${rating}\u2605`;
+}
+
+function resolveTitleDisplay(titleId: string, snapshot: SnapshotFields | undefined): TitleDisplay {
+  if (snapshot?.title?.trim()) {
+    return { title: snapshot.title, year: snapshot.year ?? null, posterPath: snapshot.poster_path ?? null };
+  }
+  const parsed = parseTmdbTitleKey(titleId);
+  return { title: parsed ? "Loading title details..." : titleId, year: null, posterPath: null };
+}
+
+export default function MyRatingsPage() {
+  const params = useParams<{ groupId: string }>();
+  const groupId = params.groupId;
+
+  const [group, setGroup] = useState<Group | null>(null);
+  const [member, setMember] = useState<Member | null>(null);
+  const [ratings, setRatings] = useState<MemberRatings>({});
+  const [groupRanks, setGroupRanks] = useState<Record<string, number>>({});
+  const [snapshots, setSnapshots] = useState<Record<string, SnapshotFields>>({});
+  const [filter, setFilter] = useState<RatingFilter>("all");
+  const [isLoading, setIsLoading] = useState(true);
+  const [readError, setReadError] = useState<"none" | "network">("none");
+  const [authBlocked, setAuthBlocked] = useState(false);
+  const [authRetryKey, setAuthRetryKey] = useState(0);
+  const { votingClosed } = useGroupSession(groupId);
+
+  useEffect(() => {
+    let alive = true;
+    void (async () => {
+      setIsLoading(true);
+      const userId = await ensureAuth();
+      if (!alive) return;
+      if (!userId) {
+        setAuthBlocked(true);
+        setIsLoading(false);
+        return;
+      }
+      setAuthBlocked(false);
+
+      const localGroup = loadGroup(groupId);
+      const active = getActiveMember(groupId);
+      setGroup(localGroup);
+      setMember(active);
+      if (!localGroup || !active) {
+        setIsLoading(false);
+        return;
+      }
+
+      const [mine, top, current] = await Promise.all([
+        getMemberRatings(groupId, active.id),
+        getGroupTopTitles(groupId),
+        getCurrentGroupMember(groupId),
+      ]);
+      if (!alive) return;
+      if (current.member?.id === active.id) setMember(current.member);
+      setRatings(mine.ratings);
+      setReadError(mine.error);
+      setGroupRanks(
+        Object.fromEntries(top.rows.map((row, index) => [row.titleId, row.rank ?? index + 1]))
+      );
+      setIsLoading(false);
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [groupId, authRetryKey]);
+
+  const titleIds = useMemo(() => Object.keys(ratings), [ratings]);
+
+  useEffect(() => {
+    if (titleIds.length === 0) return;
+    let alive = true;
+    void (async () => {
+      const [cached, shortlist] = await Promise.all([
+        getTitleSnapshots(titleIds, resolveTitleLanguage(groupId)),
+        getShortlist(groupId),
+      ]);
+      if (!alive) return;
+      const next: Record<string, SnapshotFields> = {};
+      for (const item of shortlist) next[item.title_id] = item.title_snapshot;
+      Object.assign(next, cached);
+      setSnapshots(next);
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [groupId, titleIds]);
+
+  const rows = useMemo(() => {
+    return Object.entries(ratings)
+      .map(([titleId, rating]) => ({ titleId, rating, display: resolveTitleDisplay(titleId, snapshots[titleId]) }))
+      .sort((a, b) => {
+        if (b.rating !== a.rating) return b.rating - a.rating;
+        return a.display.title.localeCompare(b.display.title);
+      });
+  }, [ratings, snapshots]);
+
+  const filteredRows = useMemo(() => rows.filter((row) => matchesFilter(row.rating, filter)), [rows, filter]);
+  const topPicks = useMemo(() => rows.filter((row) => row.rating > 0).slice(0, TOP_PICKS_COUNT), [rows]);
+  const vetoesLeft = group ? group.settings.vetoBudget - countVetoes(ratings) : 0;
+
+  function onRerate(titleId: string, value: RatingValue) {
+    if (!member || votingClosed || ratings[titleId] === value) return;
+    if (value === VETO_RATING && vetoesLeft <= 0) return;
+    setRatings((current) => ({ ...current, [titleId]: value }));
+    void setRating(groupId, member.id, titleId, value);
+  }
+
+  if (authBlocked) {
+    return (
+      <AppShell>
+        <Card>
+          <CardTitle>Session required</CardTitle>
+          <div className="mt-2">
+            <Muted>We could not start your session. Please try again.</Muted>
+          </div>
+          <div className="mt-4">
+            <Button onClick={() => setAuthRetryKey((v) => v + 1)}>Retry</Button>
+          </div>
+        </Card>
+      </AppShell>
+    );
+  }
+
+  if (!isLoading && !group) {
+    return (
+      <AppShell>
+        <StateCard
+          title="Group not found"
+          description="We couldn't find this group."
+          actionHref="/create"
+          actionLabel="Create a group"
+        />
+      </AppShell>
+    );
+  }
+
+  if (!isLoading && !member) {
+    return (
+      <AppShell>
+        <StateCard
+          title="Join to see your ratings"
+          description="Join this group from its home page first, then come back here."
+          actionHref={`/g/${groupId}`}
+          actionLabel="Go to group home"
+          actionVariant="secondary"
+        />
+      </AppShell>
+    );
+  }
+
+  return (
+    <AppShell>
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex min-w-0 items-center gap-3">
+            {member ? <MemberAvatar member={member} /> : null}
+            <div className="min-w-0">
+              <h1 className="truncate text-2xl font-semibold tracking-tight">My ratings</h1>
+              <div className="mt-1 text-sm text-white/60">
+                {member?.name ?? ""}
+                {group ? ` in ${group.name}` : ""}
+              </div>
+            </div>
+          </div>
+          <Link href={`/g/${groupId}/results`}>
+            <Button variant="secondary">Group results</Button>
+          </Link>
+        </div>
+
+        {readError === "network" ? (
+          <div className="rounded-xl border border-amber-400/30 bg-amber-500/10 p-3 text-sm text-amber-100">
+            Showing ratings saved on this device. Some may be missing until you reconnect.
+          </div>
+        ) : null}
+
+        {member && !isLoading ? (
+          <MemberProfileCard key={member.id} groupId={groupId} member={member} onSaved={setMember} />
+        ) : null}
+
+        <Card>
+          <CardTitle>Your top picks</CardTitle>
+          <div className="mt-2">
+            <Muted>Your highest-rated titles and where each one ranks for the group.</Muted>
+          </div>
+          {isLoading ? (
+            <div className="mt-3 h-16 animate-pulse rounded-xl bg-white/10" />
+          ) : topPicks.length === 0 ? (
+            <div className="mt-3 text-sm text-white/70">No star ratings yet.</div>
+          ) : (
+            <div className="mt-3 space-y-2">
+              {topPicks.map((row) => (
+                <div
+                  key={`top-${row.titleId}`}
+                  className="flex items-center justify-between gap-3 rounded-xl border border-white/12 bg-black/28 p-3"
+                >
+                  <div className="min-w-0 truncate text-sm font-semibold text-white">{row.display.title}</div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <Pill>{ratingLabel(row.rating)}</Pill>
+                    <Pill>{groupRanks[row.titleId] ? `#${groupRanks[row.titleId]} in group` : "Not ranked"}</Pill>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        <Card>
+          <CardTitle>Everything you rated</CardTitle>
+          <div className="mt-2">
+            <Muted>
+              {votingClosed
+                ? "Voting is closed, so ratings can't be changed right now."
+                : "Tap a different rating to change it."}
+            </Muted>
+          </div>
+          <div className="mt-3 flex flex-wrap gap-2">
+            {RATING_FILTER_OPTIONS.map((option) => (
+              <Button
+                key={String(option.value)}
+                variant={filter === option.value ? "primary" : "secondary"}
+                onClick={() => setFilter(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+
+          {isLoading ? (
+            <div className="mt-4 space-y-2">
+              <div className="h-20 animate-pulse rounded-xl bg-white/10" />
+              <div className="h-20 animate-pulse rounded-xl bg-white/10" />
+            </div>
+          ) : filteredRows.length === 0 ? (
+            <div className="mt-4 text-sm text-white/70">
+              {rows.length === 0 ? "You have not rated anything yet." : "Nothing matches this filter."}
+            </div>
+          ) : (
+            <div className="mt-4 space-y-2">
+              {filteredRows.map((row) => (
+                <div key={row.titleId} className="rounded-xl border border-white/12 bg-black/28 p-3">
+                  <div className="flex items-start gap-3">
+                    <PosterImage
+                      src={row.display.posterPath ? `https://image.tmdb.org/t/p/w92${row.display.posterPath}` : null}
+                      alt={row.display.title}
+                      className="w-12 shrink-0"
+                    />
+                    <div className="min-w-0 flex-1">
+                      <div className="break-words text-sm font-semibold text-white">{row.display.title}</div>
+                      <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-white/65">
+                        <span>{row.display.year ?? "Unknown year"}</span>
+                        {groupRanks[row.titleId] ? <span>#{groupRanks[row.titleId]} in group</span> : null}
+                      </div>
+                      <div className="mt-2 flex flex-wrap gap-1.5">
+                        {([1, 2, 3, 4, 5] as const).map((value) => (
+                          <button
+                            key={value}
+                            type="button"
+                            disabled={votingClosed}
+                            onClick={() => onRerate(row.titleId, value)}
+                            aria-label={`${value} stars`}
+                            className={[
+                              "h-8 w-8 rounded-lg border text-sm transition disabled:opacity-50",
+                              row.rating >= value
+                                ? "border-[rgb(var(--yellow))]/50 bg-[rgb(var(--yellow))]/15 text-[rgb(var(--yellow))]"
+                                : "border-white/12 bg-white/5 text-white/40 hover:text-white/80",
+                            ].join(" ")}
+                          >
+                            {"\u2605"}
+                          </button>
+                        ))}
+                        <button
+                          type="button"
+                          disabled={votingClosed}
+                          onClick={() => onRerate(row.titleId, 0)}
+                          className={[
+                            "h-8 rounded-lg border px-2.5 text-xs font-semibold transition disabled:opacity-50",
+                            row.rating === 0
+                              ? "border-white/40 bg-white/15 text-white"
+                              : "border-white/12 bg-white/5 text-white/60 hover:text-white",
+                          ].join(" ")}
+                        >
+                          Skip
+                        </button>
+                        {group && group.settings.vetoBudget > 0 ? (
+                          <button
+                            type="button"
+                            disabled={votingClosed || (row.rating !== VETO_RATING && vetoesLeft <= 0)}
+                            onClick={() => onRerate(row.titleId, VETO_RATING)}
+                            className={[
+                              "h-8 rounded-lg border px-2.5 text-xs font-semibold transition disabled:opacity-50",
+                              row.rating === VETO_RATING
+                                ? "border-red-400/50 bg-red-500/20 text-red-100"
+                                : "border-white/12 bg-white/5 text-white/60 hover:text-white",
+                            ].join(" ")}
+                          >
+                            Veto
+                          </button>
+                        ) : null}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+    </AppShell>
+  );
+}
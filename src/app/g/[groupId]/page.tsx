@@ -3,21 +3,55 @@
 import { useEffect, useMemo, useState } from "react";
 import { useParams, useRouter, useSearchParams } from "next/navigation";
 import { AppShell } from "@/components/AppShell";
+import { GroupArchiveExportCard } from "@/components/GroupArchiveExportCard";
+import { GroupInvitesCard } from "@/components/GroupInvitesCard";
+import { JoinRequestsCard } from "@/components/JoinRequestsCard";
+import { MatchCelebration } from "@/components/MatchCelebration";
+import { MemberAvatar } from "@/components/MemberAvatar";
 import { PosterImage } from "@/components/PosterImage";
+import { QrCode } from "@/components/QrCode";
 import { StateCard } from "@/components/StateCard";
+import { useGroupSession } from "@/components/useGroupSession";
+import { useMatchCelebration } from "@/components/useMatchCelebration";
+import { VotingSessionCard } from "@/components/VotingSessionCard";
 import { Button, Card, CardTitle, Input, LoadingSpinner, Muted, Pill } from "@/components/ui";
+import {
+  certificationSystemLabel,
+  normalizeWatchRegion,
+  WATCH_REGION_OPTIONS,
+  watchRegionLabel,
+} from "@/lib/certifications";
 import { customListLabel, isCustomListMode, ratingModeLabel } from "@/lib/groupLabels";
 import { ensureEndlessQueue } from "@/lib/endlessQueueStore";
-import { getGroup } from "@/lib/groupStore";
+import { getGroup, updateGroupSettings } from "@/lib/groupStore";
 import { isHostForGroup } from "@/lib/hostStore";
 import {
+  forgetInviteCode,
+  getGroupShortCode,
+  getRememberedInviteCode,
+  rememberInviteCode,
+} from "@/lib/inviteStore";
+import { getMemberLanguage, setMemberLanguage } from "@/lib/languageStore";
+import {
+  approveGroupMember,
   getCurrentGroupMember,
   joinGroupMember,
   listGroupMembers,
+  listPendingGroupMembers,
   removeGroupMember,
+  setGroupMemberRole,
+  type JoinGroupError,
 } from "@/lib/memberStore";
+import {
+  formatRankingScore,
+  RANKING_STRATEGY_OPTIONS,
+  rankingScoreUnit,
+  rankingStrategyLabel,
+  type RankingStrategy,
+} from "@/lib/rankingStrategies";
 import { getGroupRatings, type GroupRatingsResult } from "@/lib/ratingStore";
 import { clearActiveMember, getActiveMember, setActiveMember, type Member } from "@/lib/ratings";
+import { formatShortCode } from "@/lib/shortCodes";
 import { getShortlist, type ShortlistItem, type ShortlistSnapshot } from "@/lib/shortlistStore";
 import { ensureAuth, getAuthUserId } from "@/lib/api";
 import {
@@ -34,7 +68,23 @@ import { getTitleSnapshots, type TitleSnapshot } from "@/lib/titleCacheStore";
 import { parseTmdbTitleKey } from "@/lib/tmdbTitleKey";
 import { getGroupTopTitles, type GroupTopTitle } from "@/lib/topTitlesStore";
 import { TITLES } from "@/lib/titles";
-import { type Group } from "@/lib/storage";
+import { type Group, type GroupSettings } from "@/lib/storage";
+import { streamingProviderLabel } from "@/lib/streamingProviders";
+import {
+  DEFAULT_TITLE_LANGUAGE,
+  isTitleLanguage,
+  normalizeTitleLanguage,
+  TITLE_LANGUAGE_OPTIONS,
+  titleLanguageLabel,
+  type TitleLanguage,
+} from "@/lib/titleLanguages";
+
+const VETO_BUDGET_OPTIONS = [0, 1, 2, 3, 5, 10] as const;
+const MATCH_THRESHOLD_OPTIONS = [0, 3, 4, 5] as const;
+
+function matchThresholdLabel(threshold: number) {
+  return threshold === 0 ? "Matches off" : `Everyone rates ${threshold}\u2605 or higher`;
+}
 
 function getKnownAccountName(auth: AuthSnapshot) {
   const displayName = auth.displayName?.trim() ?? "";
@@ -77,6 +127,13 @@ function releaseYearRangeLabel(group: Group) {
   return "Any year";
 }
 
+function streamingServicesLabel(group: Group) {
+  const { providerIds, includeRentBuy } = group.settings.endless;
+  if (providerIds.length === 0) return "Any service";
+  const names = providerIds.map(streamingProviderLabel).join(", ");
+  return includeRentBuy ? `${names} (including rent or buy)` : names;
+}
+
 function resolveShortlistSnapshotByTitleId(titleId: string, shortlist: ShortlistItem[]) {
   const direct = shortlist.find((item) => item.title_id === titleId);
   if (direct) return direct.title_snapshot;
@@ -174,10 +231,19 @@ function percentText(value: number) {
   return `${value.toFixed(1)}%`;
 }
 
-function joinErrorMessage(error: "none" | "invalid_code" | "auth_failed" | "network" | "unknown") {
+function joinErrorMessage(error: JoinGroupError) {
   if (error === "invalid_code") {
     return "This invite link is invalid or expired. Ask the host to share a fresh group link.";
   }
+  if (error === "invite_expired") {
+    return "This invite has expired. Ask the host for a new one.";
+  }
+  if (error === "invite_used_up") {
+    return "This invite has already been used as many times as the host allowed. Ask the host for a new one.";
+  }
+  if (error === "link_closed") {
+    return "The host only lets people join with an invite code now. Ask the host for an invite link.";
+  }
   if (error === "auth_failed") {
     return "Authentication is required before joining. Retry and try again.";
   }
@@ -206,19 +272,28 @@ export default function GroupHubPage() {
   const [ratings, setRatings] = useState<GroupRatingsResult | null>(null);
   const [topRows, setTopRows] = useState<GroupTopTitle[]>([]);
   const [titleCache, setTitleCache] = useState<Record<string, TitleSnapshot>>({});
+  const [memberLanguage, setMemberLanguageState] = useState<TitleLanguage | null>(() => getMemberLanguage(groupId));
   const [shortlistFallback, setShortlistFallback] = useState<Record<string, ShortlistSnapshot>>({});
   const [loadError, setLoadError] = useState<
     "none" | "not_found" | "invalid_code" | "auth_failed" | "network"
   >("none");
   const [nameDraft, setNameDraft] = useState("");
   const [isJoining, setIsJoining] = useState(false);
-  const [joinError, setJoinError] = useState<"none" | "invalid_code" | "auth_failed" | "network" | "unknown">(
+  const [joinError, setJoinError] = useState<JoinGroupError>("none");
+  const [isRemovingMemberId, setIsRemovingMemberId] = useState<string | null>(null);
+  const [memberActionError, setMemberActionError] = useState<"none" | "forbidden" | "network" | "role_failed">(
     "none"
   );
-  const [isRemovingMemberId, setIsRemovingMemberId] = useState<string | null>(null);
-  const [memberActionError, setMemberActionError] = useState<"none" | "forbidden" | "network">("none");
+  const [isChangingRoleMemberId, setIsChangingRoleMemberId] = useState<string | null>(null);
   const [memberRemovedNotice, setMemberRemovedNotice] = useState(false);
+  const [joinDeclinedNotice, setJoinDeclinedNotice] = useState(false);
+  const [pendingMembers, setPendingMembers] = useState<Member[]>([]);
+  const [isReviewingMemberId, setIsReviewingMemberId] = useState<string | null>(null);
+  const [joinRequestError, setJoinRequestError] = useState<"none" | "forbidden" | "network">("none");
   const activeMemberId = activeMember?.id ?? null;
+  const isAwaitingApproval = activeMember?.status === "pending";
+  const isCoHost = !isHost && members.some((member) => member.id === activeMemberId && member.role === "co_host");
+  const canManage = isHost || isCoHost;
   const [authSnapshot, setAuthSnapshot] = useState<AuthSnapshot>({
     userId: null,
     email: null,
@@ -234,6 +309,10 @@ export default function GroupHubPage() {
   const [isSendingMagicLink, setIsSendingMagicLink] = useState(false);
   const [isStartingGoogleAuth, setIsStartingGoogleAuth] = useState(false);
   const [isPreparingQueue, setIsPreparingQueue] = useState(false);
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+  const [shortCode, setShortCode] = useState<string | null>(null);
+  const { match, matches, checkForMatches, dismiss: dismissMatch } = useMatchCelebration(groupId);
+  const { session, setSession, refreshSession } = useGroupSession(groupId);
   const joinNameDraftKey = `chooseamovie:join-name-draft:${groupId}`;
   const knownAccountName = getKnownAccountName(authSnapshot);
   const canUseKnownAccountName =
@@ -294,7 +373,9 @@ export default function GroupHubPage() {
     if (searchParams.get("removed") === "1") {
       setMemberRemovedNotice(true);
     }
-  }, [searchParams]);
+    const invite = searchParams.get("invite")?.trim();
+    if (invite) rememberInviteCode(groupId, invite);
+  }, [searchParams, groupId]);
 
   useEffect(() => {
     let alive = true;
@@ -344,7 +425,7 @@ export default function GroupHubPage() {
   }, [nameDraft, joinNameDraftKey]);
 
   useEffect(() => {
-    if (!group || !activeMember || group.settings.ratingMode === "shortlist") {
+    if (!group || !activeMember || isAwaitingApproval || group.settings.ratingMode === "shortlist") {
       setIsPreparingQueue(false);
       return;
     }
@@ -360,7 +441,7 @@ export default function GroupHubPage() {
     return () => {
       alive = false;
     };
-  }, [activeMember, group, groupId]);
+  }, [activeMember, isAwaitingApproval, group, groupId]);
 
   useEffect(() => {
     if (!group || authBlocked) return;
@@ -374,13 +455,26 @@ export default function GroupHubPage() {
       if (inFlight) return;
       inFlight = true;
       try {
-        const [memberRes, ratingRes, topRes] = await Promise.all([
+        const [memberRes, ratingRes, topRes, pendingRes, mine] = await Promise.all([
           listGroupMembers(groupId),
           getGroupRatings(groupId),
           getGroupTopTitles(groupId),
+          canManage ? listPendingGroupMembers(groupId) : null,
+          isAwaitingApproval ? getCurrentGroupMember(groupId) : null,
         ]);
 
         if (!alive) return;
+        if (pendingRes) setPendingMembers(pendingRes.members);
+        if (mine && mine.error === "none") {
+          if (!mine.member) {
+            clearActiveMember(groupId);
+            setActiveMemberState(null);
+            setJoinDeclinedNotice(true);
+          } else if (mine.member.status !== "pending") {
+            setActiveMember(groupId, mine.member);
+            setActiveMemberState(mine.member);
+          }
+        }
         const isRemovedByHost = Boolean(activeMemberId && ratingRes.accessDenied);
         if (isRemovedByHost) {
           clearActiveMember(groupId);
@@ -394,6 +488,7 @@ export default function GroupHubPage() {
           if (topRes.rows.length === 0 && current.length > 0) return current;
           return topRes.rows;
         });
+        void checkForMatches();
       } finally {
         inFlight = false;
       }
@@ -430,6 +525,16 @@ export default function GroupHubPage() {
           { event: "*", schema: "public", table: "group_top_titles", filter: `group_id=eq.${groupId}` },
           scheduleFetch
         )
+        .on(
+          "postgres_changes",
+          { event: "INSERT", schema: "public", table: "group_matches", filter: `group_id=eq.${groupId}` },
+          () => void checkForMatches()
+        )
+        .on(
+          "postgres_changes",
+          { event: "*", schema: "public", table: "group_sessions", filter: `group_id=eq.${groupId}` },
+          () => void refreshSession()
+        )
         .subscribe();
       unsubscribeRealtime = () => {
         void channel.unsubscribe();
@@ -442,13 +547,32 @@ export default function GroupHubPage() {
       if (fallbackIntervalId !== null) window.clearInterval(fallbackIntervalId);
       if (unsubscribeRealtime) unsubscribeRealtime();
     };
-  }, [group, groupId, authBlocked, activeMemberId]);
+  }, [group, groupId, authBlocked, activeMemberId, canManage, isAwaitingApproval, checkForMatches, refreshSession]);
 
   const inviteLink = useMemo(() => {
     if (typeof window === "undefined") return "";
     return `${window.location.origin}/g/${groupId}`;
   }, [groupId]);
 
+  const joinPageAddress = useMemo(() => {
+    if (typeof window === "undefined") return "";
+    return `${window.location.host}/join`;
+  }, []);
+
+  const isOpenLinkOn = group?.settings.openLink ?? false;
+
+  useEffect(() => {
+    if (!isHost || !isOpenLinkOn || !isSupabaseConfigured()) return;
+    let alive = true;
+    void (async () => {
+      const ensured = await getGroupShortCode(groupId);
+      if (alive) setShortCode(ensured.shortCode);
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [groupId, isHost, isOpenLinkOn]);
+
   const stats = useMemo(() => {
     if (!ratings) {
       return {
@@ -503,6 +627,16 @@ export default function GroupHubPage() {
     return topRows.filter((row) => row.votes > 0).slice(0, 3);
   }, [topRows]);
 
+  const recentMatches = useMemo(() => matches.slice(0, 5), [matches]);
+
+  const previewTitleIds = useMemo(() => {
+    const ids = [...topThree.map((row) => row.titleId), ...recentMatches.map((item) => item.titleId)];
+    if (session?.winnerTitleId) ids.push(session.winnerTitleId);
+    return Array.from(new Set(ids));
+  }, [topThree, recentMatches, session?.winnerTitleId]);
+
+  const titleLanguage = memberLanguage ?? group?.settings.language ?? DEFAULT_TITLE_LANGUAGE;
+
   useEffect(() => {
     let alive = true;
     (async () => {
@@ -512,7 +646,7 @@ export default function GroupHubPage() {
       for (const item of shortlist) {
         map[item.title_id] = item.title_snapshot;
       }
-      const slRows = topThree.map((row) => row.titleId).filter((id) => id.startsWith("sl:"));
+      const slRows = previewTitleIds.filter((id) => id.startsWith("sl:"));
       for (const titleId of slRows) {
         const snapshot = resolveShortlistSnapshotByTitleId(titleId, shortlist);
         if (snapshot) map[titleId] = snapshot;
@@ -522,21 +656,21 @@ export default function GroupHubPage() {
     return () => {
       alive = false;
     };
-  }, [groupId, topThree]);
+  }, [groupId, previewTitleIds]);
 
   useEffect(() => {
     let alive = true;
-    const ids = topThree.map((row) => row.titleId);
+    const ids = previewTitleIds;
     if (ids.length === 0) return;
     (async () => {
-      const snapshots = await getTitleSnapshots(ids);
+      const snapshots = await getTitleSnapshots(ids, titleLanguage);
       if (!alive) return;
       setTitleCache((current) => ({ ...current, ...snapshots }));
     })();
     return () => {
       alive = false;
     };
-  }, [topThree]);
+  }, [previewTitleIds, titleLanguage]);
 
   async function continueToRating() {
     const trimmed = nameDraft.trim() || knownAccountName || "";
@@ -545,7 +679,7 @@ export default function GroupHubPage() {
     setJoinError("none");
     setIsJoining(true);
     try {
-      const joined = await joinGroupMember(groupId, trimmed);
+      const joined = await joinGroupMember(groupId, trimmed, getRememberedInviteCode(groupId));
       if (!joined.member) {
         const nextError = joined.error === "none" ? "unknown" : joined.error;
         setJoinError(nextError);
@@ -558,9 +692,12 @@ export default function GroupHubPage() {
         return;
       }
 
+      forgetInviteCode(groupId);
       setActiveMember(groupId, joined.member);
       setActiveMemberState(joined.member);
       setMemberRemovedNotice(false);
+      setJoinDeclinedNotice(false);
+      if (joined.member.status === "pending") return;
       const refreshed = await getGroup(groupId);
       if (refreshed.group) {
         setGroup(refreshed.group);
@@ -577,7 +714,7 @@ export default function GroupHubPage() {
   }
 
   async function removeMember(member: Member) {
-    if (!isHost) return;
+    if (!canManage) return;
     if (activeMember?.id === member.id) return;
     if (!window.confirm(`Remove ${member.name} from this group?`)) return;
 
@@ -596,6 +733,65 @@ export default function GroupHubPage() {
     }
   }
 
+  async function reviewJoinRequest(member: Member, approve: boolean) {
+    if (!canManage || isReviewingMemberId) return;
+
+    setJoinRequestError("none");
+    setIsReviewingMemberId(member.id);
+    try {
+      const reviewed = approve
+        ? await approveGroupMember(groupId, member.id)
+        : await removeGroupMember(groupId, member.id);
+      if (reviewed.error !== "none" && reviewed.error !== "not_found") {
+        setJoinRequestError(reviewed.error);
+        return;
+      }
+      setPendingMembers((current) => current.filter((item) => item.id !== member.id));
+      if (approve) {
+        const refreshed = await listGroupMembers(groupId);
+        setMembers(refreshed.members);
+      }
+    } finally {
+      setIsReviewingMemberId(null);
+    }
+  }
+
+  async function toggleCoHost(member: Member) {
+    if (!isHost || member.role === "host") return;
+
+    setMemberActionError("none");
+    setIsChangingRoleMemberId(member.id);
+    try {
+      const updated = await setGroupMemberRole(groupId, member.id, member.role === "co_host" ? "member" : "co_host");
+      if (updated.error !== "none") {
+        setMemberActionError("role_failed");
+        return;
+      }
+      const refreshed = await listGroupMembers(groupId);
+      setMembers(refreshed.members);
+    } finally {
+      setIsChangingRoleMemberId(null);
+    }
+  }
+
+  async function saveSettingsPatch(patch: Partial<GroupSettings>) {
+    if (!group || !canManage || isSavingSettings) return;
+
+    setIsSavingSettings(true);
+    try {
+      const updated = await updateGroupSettings(groupId, { ...group.settings, ...patch });
+      if (updated.group) setGroup(updated.group);
+    } finally {
+      setIsSavingSettings(false);
+    }
+  }
+
+  function changeMemberLanguage(value: string) {
+    const next = isTitleLanguage(value) ? value : null;
+    setMemberLanguage(groupId, next);
+    setMemberLanguageState(next);
+  }
+
   async function continueAsGuestAndJoin() {
     if (isStartingGuest || isJoining) return;
     setAuthActionError("");
@@ -612,12 +808,19 @@ export default function GroupHubPage() {
     }
   }
 
+  // Sign-in can come back in a new tab, so the invite code rides along in the URL.
+  function joinRedirectUrl() {
+    const invite = getRememberedInviteCode(groupId);
+    const base = `${window.location.origin}/g/${groupId}`;
+    return invite ? `${base}?invite=${encodeURIComponent(invite)}` : base;
+  }
+
   async function sendJoinMagicLink() {
     if (isSendingMagicLink) return;
     setAuthActionError("");
     setIsSendingMagicLink(true);
     try {
-      const redirectTo = `${window.location.origin}/g/${groupId}`;
+      const redirectTo = joinRedirectUrl();
       const sent = await sendMagicLink(authEmail, redirectTo);
       if (!sent.ok) {
         setAuthActionError(sent.error ?? "Could not send sign-in email.");
@@ -632,7 +835,7 @@ export default function GroupHubPage() {
     setAuthActionError("");
     setIsStartingGoogleAuth(true);
     try {
-      const redirectTo = `${window.location.origin}/g/${groupId}`;
+      const redirectTo = joinRedirectUrl();
       const started = await signInWithGoogle(redirectTo);
       if (!started.ok) {
         setAuthActionError(started.error ?? "Could not start Google sign-in.");
@@ -827,30 +1030,100 @@ export default function GroupHubPage() {
           </div>
         ) : null}
 
+        {joinDeclinedNotice ? (
+          <div className="rounded-xl border border-amber-400/30 bg-amber-500/10 p-3 text-sm text-amber-100">
+            The host didn&apos;t approve your request to join. You can ask them for an invite code.
+          </div>
+        ) : null}
+
+        {isAwaitingApproval ? (
+          <Card>
+            <CardTitle>Waiting for the host</CardTitle>
+            <div className="mt-2">
+              <Muted>
+                You asked to join as {activeMember?.name}. You can start rating as soon as the host or a co-host lets
+                you in. This page updates on its own.
+              </Muted>
+            </div>
+          </Card>
+        ) : null}
+
         {isHost ? (
           <Card>
             <CardTitle>Invite people</CardTitle>
             <div className="mt-1 text-sm text-white/60">{inviteSummary}</div>
-            <div className="mt-3 text-sm text-white/70">
-              Share this link so people can join and start rating.
-            </div>
-            <div className="mt-3">
-              <div className="rounded-xl border border-white/12 bg-black/28 p-3 text-sm text-white/90 break-all">
-                {inviteLink}
+            {group.settings.openLink ? (
+              <>
+                <div className="mt-3 text-sm text-white/70">
+                  {group.settings.requireApproval
+                    ? "Share this link so people can ask to join. You approve each one below."
+                    : "Share this link so people can join and start rating."}
+                </div>
+                <div className="mt-3 flex flex-col gap-3 sm:flex-row sm:items-start">
+                  <QrCode value={inviteLink} label="QR code for the invite link" className="w-40 shrink-0 self-center sm:self-start" />
+                  <div className="min-w-0 flex-1 space-y-3">
+                    <div className="rounded-xl border border-white/12 bg-black/28 p-3 text-sm text-white/90 break-all">
+                      {inviteLink}
+                    </div>
+                    {shortCode ? (
+                      <div className="rounded-xl border border-white/12 bg-black/28 p-3">
+                        <div className="text-xs text-white/60">Or go to {joinPageAddress} and type</div>
+                        <div className="mt-1 font-mono text-2xl font-semibold tracking-wider text-white">
+                          {formatShortCode(shortCode)}
+                        </div>
+                      </div>
+                    ) : null}
+                  </div>
+                </div>
+              </>
+            ) : (
+              <div className="mt-3 text-sm text-white/70">
+                The open link is off. New people can only join with an invite code.
               </div>
-            </div>
-            <div className="mt-3">
-              <Button
-                onClick={async () => {
-                  await navigator.clipboard.writeText(inviteLink);
-                }}
-              >
-                Copy invite link
-              </Button>
+            )}
+            <div className="mt-3 flex flex-wrap gap-2">
+              {group.settings.openLink ? (
+                <Button
+                  onClick={async () => {
+                    await navigator.clipboard.writeText(inviteLink);
+                  }}
+                >
+                  Copy invite link
+                </Button>
+              ) : null}
+              {isSupabaseConfigured() ? (
+                <Button
+                  variant="ghost"
+                  onClick={() => void saveSettingsPatch({ openLink: !group.settings.openLink })}
+                  disabled={isSavingSettings}
+                >
+                  {group.settings.openLink ? "Turn off open link" : "Turn on open link"}
+                </Button>
+              ) : null}
+              {isSupabaseConfigured() && group.settings.openLink ? (
+                <Button
+                  variant="ghost"
+                  onClick={() => void saveSettingsPatch({ requireApproval: !group.settings.requireApproval })}
+                  disabled={isSavingSettings}
+                >
+                  {group.settings.requireApproval ? "Let people join without approval" : "Require approval to join"}
+                </Button>
+              ) : null}
             </div>
           </Card>
         ) : null}
 
+        {isHost && isSupabaseConfigured() ? <GroupInvitesCard groupId={groupId} /> : null}
+
+        {canManage && isSupabaseConfigured() && (group.settings.requireApproval || pendingMembers.length > 0) ? (
+          <JoinRequestsCard
+            requests={pendingMembers}
+            reviewingMemberId={isReviewingMemberId}
+            error={joinRequestError}
+            onReview={(member, approve) => void reviewJoinRequest(member, approve)}
+          />
+        ) : null}
+
         {!isHost && !activeMember ? (
           <Card>
             <div className="text-sm font-semibold text-white">Join this group</div>
@@ -962,7 +1235,7 @@ export default function GroupHubPage() {
           </Card>
         ) : null}
 
-        {isHost || activeMember ? (
+        {isHost || (activeMember && !isAwaitingApproval) ? (
           <div className="flex flex-col items-center gap-2">
             <Button
               className="w-auto bg-[rgb(var(--card-2))] px-8 py-3 text-base text-white transition-all duration-200 hover:bg-[rgb(var(--yellow))] hover:text-black active:scale-[0.98]"
@@ -976,9 +1249,29 @@ export default function GroupHubPage() {
                 <span>Getting titles ready for rating...</span>
               </div>
             ) : null}
+            {activeMember ? (
+              <Button variant="ghost" onClick={() => router.push(`/g/${groupId}/me`)}>
+                My ratings
+              </Button>
+            ) : null}
           </div>
         ) : null}
 
+        {session && (isHost || (activeMember && !isAwaitingApproval)) ? (
+          <VotingSessionCard
+            groupId={groupId}
+            session={session}
+            isHost={isHost}
+            isCoHost={isCoHost}
+            winnerTitle={
+              session.winnerTitleId
+                ? resolvePreviewTitle(group, session.winnerTitleId, titleCache, shortlistFallback).title
+                : null
+            }
+            onSessionChange={setSession}
+          />
+        ) : null}
+
         <div className="grid gap-4 xl:grid-cols-2">
           <Card className="order-4">
             <CardTitle>Group setup summary</CardTitle>
@@ -997,10 +1290,187 @@ export default function GroupHubPage() {
                   {group.settings.ratingMode === "unlimited" ? ratingLabel(group) : "Custom list mode"}
                 </div>
               </div>
+              {group.settings.ratingMode === "unlimited" ? (
+                <div className="rounded-xl border border-white/12 bg-black/28 p-3 sm:col-span-2">
+                  <div className="text-sm font-semibold">Region</div>
+                  {canManage ? (
+                    <select
+                      aria-label="Region"
+                      value={group.settings.region}
+                      onChange={(event) => void saveSettingsPatch({ region: normalizeWatchRegion(event.target.value) })}
+                      disabled={isSavingSettings}
+                      className="mt-2 w-full rounded-xl border border-white/14 bg-black/25 px-3.5 py-2.5 text-sm text-white outline-none transition focus:border-[rgb(var(--yellow))]/60 focus:ring-2 focus:ring-[rgb(var(--yellow))]/25"
+                    >
+                      {WATCH_REGION_OPTIONS.map((opt) => (
+                        <option key={opt.value} value={opt.value} className="bg-[rgb(var(--card-2))] text-white">
+                          {opt.label}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <div className="mt-1 text-sm text-white/70">{watchRegionLabel(group.settings.region)}</div>
+                  )}
+                  <div className="mt-1 text-xs text-white/55">
+                    Streaming services and {certificationSystemLabel(group.settings.region, "movie")} ratings are
+                    checked for this country.
+                  </div>
+                </div>
+              ) : null}
+              <div className="rounded-xl border border-white/12 bg-black/28 p-3 sm:col-span-2">
+                <div className="text-sm font-semibold">Language</div>
+                {canManage ? (
+                  <select
+                    aria-label="Group language"
+                    value={group.settings.language}
+                    onChange={(event) => void saveSettingsPatch({ language: normalizeTitleLanguage(event.target.value) })}
+                    disabled={isSavingSettings}
+                    className="mt-2 w-full rounded-xl border border-white/14 bg-black/25 px-3.5 py-2.5 text-sm text-white outline-none transition focus:border-[rgb(var(--yellow))]/60 focus:ring-2 focus:ring-[rgb(var(--yellow))]/25"
+                  >
+                    {TITLE_LANGUAGE_OPTIONS.map((opt) => (
+                      <option key={opt.value} value={opt.value} className="bg-[rgb(var(--card-2))] text-white">
+                        {opt.label}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <div className="mt-1 text-sm text-white/70">{titleLanguageLabel(group.settings.language)}</div>
+                )}
+                <div className="mt-3 text-xs text-white/60">Show titles to me in</div>
+                <select
+                  aria-label="My language"
+                  value={memberLanguage ?? ""}
+                  onChange={(event) => changeMemberLanguage(event.target.value)}
+                  className="mt-2 w-full rounded-xl border border-white/14 bg-black/25 px-3.5 py-2.5 text-sm text-white outline-none transition focus:border-[rgb(var(--yellow))]/60 focus:ring-2 focus:ring-[rgb(var(--yellow))]/25"
+                >
+                  <option value="" className="bg-[rgb(var(--card-2))] text-white">
+                    Group language ({titleLanguageLabel(group.settings.language)})
+                  </option>
+                  {TITLE_LANGUAGE_OPTIONS.map((opt) => (
+                    <option key={opt.value} value={opt.value} className="bg-[rgb(var(--card-2))] text-white">
+                      {opt.label}
+                    </option>
+                  ))}
+                </select>
+                <div className="mt-1 text-xs text-white/55">
+                  Titles, overviews and genres load in this language. Everyone still votes on the same titles.
+                </div>
+              </div>
               <div className="rounded-xl border border-white/12 bg-black/28 p-3 sm:col-span-2">
                 <div className="text-sm font-semibold">Release year range</div>
                 <div className="mt-1 text-sm text-white/70">{releaseYearRangeLabel(group)}</div>
               </div>
+              {group.settings.ratingMode === "unlimited" ? (
+                <div className="rounded-xl border border-white/12 bg-black/28 p-3 sm:col-span-2">
+                  <div className="text-sm font-semibold">Streaming services</div>
+                  <div className="mt-1 text-sm text-white/70">{streamingServicesLabel(group)}</div>
+                </div>
+              ) : null}
+              {group.settings.ratingMode === "unlimited" ? (
+                <div className="rounded-xl border border-white/12 bg-black/28 p-3 sm:col-span-2">
+                  <div className="text-sm font-semibold">Title queue</div>
+                  {canManage ? (
+                    <select
+                      aria-label="Title queue"
+                      value={group.settings.endless.sharedDeck ? "shared" : "per_member"}
+                      onChange={(event) =>
+                        void saveSettingsPatch({
+                          endless: { ...group.settings.endless, sharedDeck: event.target.value === "shared" },
+                        })
+                      }
+                      disabled={isSavingSettings}
+                      className="mt-2 w-full rounded-xl border border-white/14 bg-black/25 px-3.5 py-2.5 text-sm text-white outline-none transition focus:border-[rgb(var(--yellow))]/60 focus:ring-2 focus:ring-[rgb(var(--yellow))]/25"
+                    >
+                      <option value="per_member" className="bg-[rgb(var(--card-2))] text-white">
+                        Separate queue per member
+                      </option>
+                      <option value="shared" className="bg-[rgb(var(--card-2))] text-white">
+                        Shared deck
+                      </option>
+                    </select>
+                  ) : (
+                    <div className="mt-1 text-sm text-white/70">
+                      {group.settings.endless.sharedDeck ? "Shared deck" : "Separate queue per member"}
+                    </div>
+                  )}
+                  <div className="mt-1 text-xs text-white/55">
+                    {group.settings.endless.sharedDeck
+                      ? "Everyone draws from one deck, and titles others liked come up first."
+                      : "Each member gets their own mix of titles."}
+                  </div>
+                </div>
+              ) : null}
+              <div className="rounded-xl border border-white/12 bg-black/28 p-3 sm:col-span-2">
+                <div className="text-sm font-semibold">Ranking strategy</div>
+                {canManage ? (
+                  <select
+                    aria-label="Ranking strategy"
+                    value={group.settings.rankingStrategy}
+                    onChange={(event) =>
+                      void saveSettingsPatch({ rankingStrategy: event.target.value as RankingStrategy })
+                    }
+                    disabled={isSavingSettings}
+                    className="mt-2 w-full rounded-xl border border-white/14 bg-black/25 px-3.5 py-2.5 text-sm text-white outline-none transition focus:border-[rgb(var(--yellow))]/60 focus:ring-2 focus:ring-[rgb(var(--yellow))]/25"
+                  >
+                    {RANKING_STRATEGY_OPTIONS.map((opt) => (
+                      <option key={opt.value} value={opt.value} className="bg-[rgb(var(--card-2))] text-white">
+                        {opt.label}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <div className="mt-1 text-sm text-white/70">
+                    {rankingStrategyLabel(group.settings.rankingStrategy)}
+                  </div>
+                )}
+                <div className="mt-1 text-xs text-white/55">
+                  {RANKING_STRATEGY_OPTIONS.find((opt) => opt.value === group.settings.rankingStrategy)?.description}
+                </div>
+              </div>
+              <div className="rounded-xl border border-white/12 bg-black/28 p-3 sm:col-span-2">
+                <div className="text-sm font-semibold">Vetoes per member</div>
+                {canManage ? (
+                  <select
+                    aria-label="Vetoes per member"
+                    value={group.settings.vetoBudget}
+                    onChange={(event) => void saveSettingsPatch({ vetoBudget: Number(event.target.value) })}
+                    disabled={isSavingSettings}
+                    className="mt-2 w-full rounded-xl border border-white/14 bg-black/25 px-3.5 py-2.5 text-sm text-white outline-none transition focus:border-[rgb(var(--yellow))]/60 focus:ring-2 focus:ring-[rgb(var(--yellow))]/25"
+                  >
+                    {VETO_BUDGET_OPTIONS.map((budget) => (
+                      <option key={budget} value={budget} className="bg-[rgb(var(--card-2))] text-white">
+                        {budget === 0 ? "Vetoes off" : `${budget} per member`}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <div className="mt-1 text-sm text-white/70">
+                    {group.settings.vetoBudget === 0 ? "Vetoes off" : `${group.settings.vetoBudget} per member`}
+                  </div>
+                )}
+              </div>
+              <div className="rounded-xl border border-white/12 bg-black/28 p-3 sm:col-span-2">
+                <div className="text-sm font-semibold">Match alert</div>
+                {canManage ? (
+                  <select
+                    aria-label="Match alert"
+                    value={group.settings.matchThreshold}
+                    onChange={(event) => void saveSettingsPatch({ matchThreshold: Number(event.target.value) })}
+                    disabled={isSavingSettings}
+                    className="mt-2 w-full rounded-xl border border-white/14 bg-black/25 px-3.5 py-2.5 text-sm text-white outline-none transition focus:border-[rgb(var(--yellow))]/60 focus:ring-2 focus:ring-[rgb(var(--yellow))]/25"
+                  >
+                    {MATCH_THRESHOLD_OPTIONS.map((threshold) => (
+                      <option key={threshold} value={threshold} className="bg-[rgb(var(--card-2))] text-white">
+                        {matchThresholdLabel(threshold)}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <div className="mt-1 text-sm text-white/70">{matchThresholdLabel(group.settings.matchThreshold)}</div>
+                )}
+                <div className="mt-1 text-xs text-white/55">
+                  Celebrates as soon as every member rates the same title this high.
+                </div>
+              </div>
             </div>
           </Card>
 
@@ -1008,9 +1478,11 @@ export default function GroupHubPage() {
             <CardTitle>Members</CardTitle>
             {memberActionError !== "none" ? (
               <div className="mt-3 rounded-xl border border-red-400/30 bg-red-500/10 p-3 text-sm text-red-100">
-                {memberActionError === "forbidden"
-                  ? "You don’t have permission to remove this member."
-                  : "Network error while removing member. Please try again."}
+                {memberActionError === "role_failed"
+                  ? "Could not change this member’s role. Please try again."
+                  : memberActionError === "forbidden"
+                    ? "You don’t have permission to remove this member."
+                    : "Network error while removing member. Please try again."}
               </div>
             ) : null}
             <div className="mt-3 space-y-2">
@@ -1022,19 +1494,44 @@ export default function GroupHubPage() {
                     key={member.id}
                     className="flex items-center justify-between gap-2 rounded-xl border border-white/12 bg-black/28 p-3 transition duration-200 hover:border-white/20 hover:bg-black/34"
                   >
-                    <div className="text-sm text-white">
-                      {member.name}
-                      {activeMember?.id === member.id ? <span className="text-white/50"> (you)</span> : null}
+                    <div className="flex min-w-0 items-center gap-2 text-sm text-white">
+                      <MemberAvatar member={member} size="sm" />
+                      <span className="truncate">
+                        {member.name}
+                        {activeMember?.id === member.id ? <span className="text-white/50"> (you)</span> : null}
+                      </span>
+                      {member.role === "host" || member.role === "co_host" ? (
+                        <Pill>{member.role === "host" ? "Host" : "Co-host"}</Pill>
+                      ) : null}
+                    </div>
+                    <div className="flex shrink-0 items-center gap-1">
+                      {activeMember?.id === member.id && !isAwaitingApproval ? (
+                        <Button variant="ghost" onClick={() => router.push(`/g/${groupId}/me`)}>
+                          Edit profile
+                        </Button>
+                      ) : null}
+                      {isHost && isSupabaseConfigured() && member.role !== "host" && activeMember?.id !== member.id ? (
+                        <Button
+                          variant="ghost"
+                          onClick={() => void toggleCoHost(member)}
+                          disabled={isChangingRoleMemberId === member.id}
+                        >
+                          {member.role === "co_host" ? "Remove co-host" : "Make co-host"}
+                        </Button>
+                      ) : null}
+                      {canManage &&
+                      activeMember?.id !== member.id &&
+                      member.role !== "host" &&
+                      (isHost || member.role !== "co_host") ? (
+                        <Button
+                          variant="ghost"
+                          onClick={() => void removeMember(member)}
+                          disabled={isRemovingMemberId === member.id}
+                        >
+                          {isRemovingMemberId === member.id ? "Removing..." : "Remove"}
+                        </Button>
+                      ) : null}
                     </div>
-                    {isHost && activeMember?.id !== member.id ? (
-                      <Button
-                        variant="ghost"
-                        onClick={() => void removeMember(member)}
-                        disabled={isRemovingMemberId === member.id}
-                      >
-                        {isRemovingMemberId === member.id ? "Removing..." : "Remove"}
-                      </Button>
-                    ) : null}
                   </div>
                 ))
               )}
@@ -1052,7 +1549,7 @@ export default function GroupHubPage() {
                     <div key={item} className="text-sm text-white/80">{item}</div>
                   ))
                 )}
-                {isHost ? (
+                {canManage ? (
                   <div className="pt-2">
                     <Button variant="ghost" onClick={() => router.push(`/g/${groupId}/custom-list`)}>
                       Edit custom list
@@ -1132,10 +1629,19 @@ export default function GroupHubPage() {
                             </div>
                           </div>
                           <div className="text-right text-xs text-white/70">
-                            <div className="inline-flex items-center gap-1 rounded-lg border border-[rgb(var(--yellow))]/35 bg-[rgb(var(--yellow))]/12 px-2 py-0.5 text-base font-bold text-white">
-                              <span>{row.totalStars}</span>
-                              <span className="text-[rgb(var(--yellow))]">{"\u2605"}</span>
-                            </div>
+                            {group.settings.rankingStrategy === "total_stars" ? (
+                              <div className="inline-flex items-center gap-1 rounded-lg border border-[rgb(var(--yellow))]/35 bg-[rgb(var(--yellow))]/12 px-2 py-0.5 text-base font-bold text-white">
+                                <span>{row.totalStars}</span>
+                                <span className="text-[rgb(var(--yellow))]">{"\u2605"}</span>
+                              </div>
+                            ) : (
+                              <div className="inline-flex items-center gap-1.5 rounded-lg border border-[rgb(var(--yellow))]/35 bg-[rgb(var(--yellow))]/12 px-2 py-0.5 text-base font-bold text-white">
+                                <span>{formatRankingScore(group.settings.rankingStrategy, row.score)}</span>
+                                <span className="text-[10px] font-semibold uppercase tracking-wide text-white/75">
+                                  {rankingScoreUnit(group.settings.rankingStrategy)}
+                                </span>
+                              </div>
+                            )}
                             <div className="mt-1">
                               <div>{starsText(row.avg)} avg</div>
                               <div>{row.votes} rated</div>
@@ -1155,8 +1661,49 @@ export default function GroupHubPage() {
             </div>
           </Card>
 
+          {recentMatches.length > 0 ? (
+            <Card className="order-2">
+              <CardTitle>Matches</CardTitle>
+              <div className="mt-3 space-y-2">
+                {recentMatches.map((item) => {
+                  const resolved = resolvePreviewTitle(group, item.titleId, titleCache, shortlistFallback);
+                  const posterUrl = resolved.posterPath ? `https://image.tmdb.org/t/p/w92${resolved.posterPath}` : null;
+                  return (
+                    <div
+                      key={item.id}
+                      className="flex items-center justify-between gap-2 rounded-xl border border-white/12 bg-black/28 p-3"
+                    >
+                      <div className="flex min-w-0 items-start gap-2">
+                        <PosterImage src={posterUrl} alt={resolved.title} className="w-10 shrink-0" />
+                        <div className="min-w-0">
+                          <a
+                            href={resolved.infoUrl}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="block truncate text-sm font-semibold text-white hover:underline"
+                          >
+                            {resolved.title}
+                          </a>
+                          <div className="mt-1 text-xs text-white/65">
+                            {new Date(item.matchedAt).toLocaleString()}
+                          </div>
+                        </div>
+                      </div>
+                      <Pill>
+                        All {item.memberCount} at {item.threshold}
+                        {"\u2605"}+
+                      </Pill>
+                    </div>
+                  );
+                })}
+              </div>
+            </Card>
+          ) : null}
+
+          {isHost ? <GroupArchiveExportCard group={group} className="order-6" /> : null}
         </div>
       </div>
+      {match ? <MatchCelebration groupId={groupId} match={match} onClose={dismissMatch} /> : null}
     </AppShell>
   );
 }
@@ -1,23 +1,31 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import Image from "next/image";
 import { useParams, useRouter } from "next/navigation";
 import { AppShell } from "@/components/AppShell";
+import { MatchCelebration } from "@/components/MatchCelebration";
 import { PosterImage } from "@/components/PosterImage";
+import { RecentRatingsDrawer, type RecentRatingTitle } from "@/components/RecentRatingsDrawer";
 import { StateCard } from "@/components/StateCard";
 import { StarRating } from "@/components/StarRating";
+import { StorageModeBanner } from "@/components/StorageModeBanner";
 import { Button, Card, CardTitle, LoadingSpinner, Muted, Pill } from "@/components/ui";
+import { useGroupSession } from "@/components/useGroupSession";
+import { useMatchCelebration } from "@/components/useMatchCelebration";
 import {
   consumeUpcomingTitle,
   ensureEndlessQueue,
   getUpcomingQueue,
   type EndlessQueueItem,
 } from "@/lib/endlessQueueStore";
+import { certificationSystemLabel, DEFAULT_WATCH_REGION } from "@/lib/certifications";
 import { customListLabel } from "@/lib/groupLabels";
 import { getHostDisplayName } from "@/lib/hostProfileStore";
 import { isHostForGroup } from "@/lib/hostStore";
+import { getMemberLanguage } from "@/lib/languageStore";
 import { ensureMember, getCurrentGroupMember } from "@/lib/memberStore";
+import { subscribeRatingRejections, type RatingRejection } from "@/lib/ratingOutbox";
 import { setRating as setRatingValue } from "@/lib/ratingStore";
 import { ensureAuth } from "@/lib/api";
 import {
@@ -25,14 +33,17 @@ import {
   upsertTitleSnapshot,
   type TitleSnapshot,
 } from "@/lib/titleCacheStore";
+import { DEFAULT_TITLE_LANGUAGE } from "@/lib/titleLanguages";
 import { parseTmdbTitleKey } from "@/lib/tmdbTitleKey";
 import { getShortlist, type ShortlistItem } from "@/lib/shortlistStore";
 import { loadGroup, type Group } from "@/lib/storage";
 import {
   clearActiveMember,
+  countVetoes,
   getActiveMember,
   loadRatings,
   setActiveMember,
+  VETO_RATING,
   type Member,
   type RatingValue,
 } from "@/lib/ratings";
@@ -69,8 +80,11 @@ type ProvidersResponse = {
 };
 
 type DetailsResponse = {
+  title?: string | null;
+  name?: string | null;
+  overview?: string | null;
   release_date?: string | null;
-  mpaa_rating?: string | null;
+  certification?: string | null;
   genres?: Array<{
     id: number;
     name: string;
@@ -80,6 +94,13 @@ type DetailsResponse = {
 const ENDLESS_PREFETCH_THRESHOLD = 12;
 const STAR_ADVANCE_DELAY_MS = 250;
 
+const REJECTION_MESSAGES: Record<RatingRejection["reason"], string> = {
+  session_closed: "A rating was not saved because voting closed first.",
+  veto_budget_exceeded: "A veto was not saved because you have no vetoes left.",
+  forbidden: "A rating was not saved because you can no longer rate in this group.",
+  superseded: "A rating was not saved because a newer one, or a new round, came first.",
+};
+
 function buildLegacyShortlistTitleId(name: string, idx: number) {
   return `sl:${idx}:${name.toLowerCase().replace(/\s+/g, "-").slice(0, 40)}`;
 }
@@ -153,6 +174,9 @@ export default function RatePage() {
   const router = useRouter();
 
   const [group, setGroup] = useState<Group | null>(null);
+  const region = group?.settings.region ?? DEFAULT_WATCH_REGION;
+  const [memberLanguage] = useState(() => getMemberLanguage(groupId));
+  const language = memberLanguage ?? group?.settings.language ?? DEFAULT_TITLE_LANGUAGE;
   const [isBootstrapping, setIsBootstrapping] = useState(true);
   const [authBlocked, setAuthBlocked] = useState(false);
   const [authRetryKey, setAuthRetryKey] = useState(0);
@@ -168,6 +192,12 @@ export default function RatePage() {
   const [isCheckingMoreTitles, setIsCheckingMoreTitles] = useState(false);
   const [didExhaustionProbe, setDidExhaustionProbe] = useState(false);
   const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [customListTitles, setCustomListTitles] = useState<RateTitle[]>([]);
+  const [ratingsVersion, setRatingsVersion] = useState(0);
+  const [vetoesUsed, setVetoesUsed] = useState(0);
+  const [ratingRejection, setRatingRejection] = useState<RatingRejection["reason"] | null>(null);
+  const { match, checkForMatches, dismiss: dismissMatch } = useMatchCelebration(groupId);
+  const { votingClosed, refreshSession } = useGroupSession(groupId);
 
   const [isLoadingProviders, setIsLoadingProviders] = useState(false);
   const [providerItems, setProviderItems] = useState<
@@ -175,8 +205,15 @@ export default function RatePage() {
   >([]);
   const [providersLink, setProvidersLink] = useState("");
   const [isInTheaters, setIsInTheaters] = useState(false);
-  const [mpaaRating, setMpaaRating] = useState<string | null>(null);
+  const [movieCertification, setMovieCertification] = useState<string | null>(null);
   const [titleGenres, setTitleGenres] = useState<string[]>([]);
+  // Queue entries may have been fetched in another member's language, so the
+  // details call supplies the name and overview shown here.
+  const [localizedText, setLocalizedText] = useState<{
+    titleId: string;
+    name: string;
+    overview: string | null;
+  } | null>(null);
   const refillInFlightRef = useRef(false);
   const isMountedRef = useRef(true);
   const currentGroupIdRef = useRef(groupId);
@@ -222,6 +259,13 @@ export default function RatePage() {
       setIsHost(host);
 
       const active = getActiveMember(groupId);
+      if (active?.status === "pending") {
+        // Still waiting for the host; group home shows the request.
+        setRedirectingToHome(true);
+        setIsBootstrapping(false);
+        router.replace(`/g/${groupId}`);
+        return;
+      }
       if (active) {
         setMember(active);
         setIsBootstrapping(false);
@@ -259,6 +303,11 @@ export default function RatePage() {
     const handleMembershipCheck = async () => {
       const mine = await getCurrentGroupMember(groupId);
       if (!alive) return;
+      if (mine.member?.status === "pending") {
+        setRedirectingToHome(true);
+        router.replace(`/g/${groupId}`);
+        return;
+      }
       if (mine.member) {
         if (mine.member.id !== memberId) {
           setActiveMember(groupId, mine.member);
@@ -288,6 +337,20 @@ export default function RatePage() {
             void handleMembershipCheck();
           }
         )
+        .on(
+          "postgres_changes",
+          { event: "INSERT", schema: "public", table: "group_matches", filter: `group_id=eq.${groupId}` },
+          () => {
+            void checkForMatches();
+          }
+        )
+        .on(
+          "postgres_changes",
+          { event: "*", schema: "public", table: "group_sessions", filter: `group_id=eq.${groupId}` },
+          () => {
+            void refreshSession();
+          }
+        )
         .subscribe();
       unsubscribeRealtime = () => {
         void channel.unsubscribe();
@@ -299,7 +362,7 @@ export default function RatePage() {
       if (fallbackIntervalId !== null) window.clearInterval(fallbackIntervalId);
       if (unsubscribeRealtime) unsubscribeRealtime();
     };
-  }, [groupId, member?.id, router]);
+  }, [groupId, member?.id, router, checkForMatches, refreshSession]);
 
   useEffect(() => {
     let alive = true;
@@ -316,7 +379,8 @@ export default function RatePage() {
         if (shortlist.length > 0) {
           try {
             titleSnapshotsByShortlistId = await getTitleSnapshots(
-              shortlist.map((item) => item.title_id)
+              shortlist.map((item) => item.title_id),
+              language
             );
           } catch {
             titleSnapshotsByShortlistId = {};
@@ -332,6 +396,7 @@ export default function RatePage() {
         );
         const unrated = catalog.filter((t) => ratings[t.id] === undefined);
         if (!alive) return;
+        setCustomListTitles(catalog);
         setUnratedTitles(unrated);
         setCurrentIndex(0);
         setCurrentStars(0);
@@ -368,12 +433,39 @@ export default function RatePage() {
       refillInFlightRef.current = false;
       setIsRefreshingQueue(false);
     };
-  }, [group, member, groupId]);
+  }, [group, member, groupId, language]);
+
+  useEffect(() => {
+    if (!member) return;
+    setVetoesUsed(countVetoes(loadRatings(groupId, member.id)));
+  }, [groupId, member]);
+
+  useEffect(() => {
+    if (!member) return;
+    const memberId = member.id;
+    return subscribeRatingRejections((rejection) => {
+      if (rejection.groupId !== groupId || rejection.memberId !== memberId) return;
+      setRatingRejection(rejection.reason);
+      setVetoesUsed(countVetoes(loadRatings(groupId, memberId)));
+      setRatingsVersion((version) => version + 1);
+      if (rejection.reason === "session_closed") void refreshSession();
+    });
+  }, [groupId, member, refreshSession]);
 
   const currentTitle = unratedTitles[currentIndex] ?? null;
   const currentTitleId = currentTitle?.id ?? null;
+  const localized = localizedText?.titleId === currentTitleId ? localizedText : null;
+  const displayName = localized?.name ?? currentTitle?.name ?? "";
+  const displayOverview = localized ? localized.overview : currentTitle?.description ?? null;
   const isCustomListMode = group?.settings.ratingMode === "shortlist";
   const remainingCount = Math.max(0, unratedTitles.length - currentIndex);
+  const knownTitles = useMemo(() => {
+    const known: Record<string, RecentRatingTitle> = {};
+    for (const title of [...customListTitles, ...history.map((entry) => entry.title)]) {
+      known[title.id] = { name: title.name, year: title.year, posterPath: title.posterPath };
+    }
+    return known;
+  }, [customListTitles, history]);
 
   useEffect(() => {
     setIsCheckingMoreTitles(false);
@@ -434,15 +526,16 @@ export default function RatePage() {
       callSite: "RatePage.currentTitle",
       upstreamPayloadKeys: currentTitle.tmdbPayloadKeys ?? [],
       tmdbSucceeded: true,
+      language,
     });
-  }, [currentTitle, currentTitleId, group]);
+  }, [currentTitle, currentTitleId, group, language]);
 
   useEffect(() => {
     let alive = true;
     setProviderItems([]);
     setProvidersLink("");
     setIsInTheaters(false);
-    setMpaaRating(null);
+    setMovieCertification(null);
     setTitleGenres([]);
 
     if (!currentTitle) return;
@@ -455,7 +548,7 @@ export default function RatePage() {
       setIsLoadingProviders(true);
       try {
         const providersRes = await fetch(
-          `/api/tmdb/providers?type=${currentTitle.tmdbType}&id=${currentTitle.tmdbId}`
+          `/api/tmdb/providers?type=${currentTitle.tmdbType}&id=${currentTitle.tmdbId}&region=${region}`
         );
         const providersBody = (await providersRes.json()) as ProvidersResponse;
         if (!providersRes.ok || !alive) return;
@@ -471,7 +564,7 @@ export default function RatePage() {
         setProviderItems(providers);
 
         const detailsRes = await fetch(
-          `/api/tmdb/details?type=${currentTitle.tmdbType}&id=${currentTitle.tmdbId}`
+          `/api/tmdb/details?type=${currentTitle.tmdbType}&id=${currentTitle.tmdbId}&region=${region}&language=${language}`
         );
         const detailsBody = (await detailsRes.json()) as DetailsResponse;
         if (!alive || !detailsRes.ok) return;
@@ -483,8 +576,27 @@ export default function RatePage() {
           : [];
         setTitleGenres(genres);
 
+        const localizedName = (currentTitle.tmdbType === "movie" ? detailsBody.title : detailsBody.name)?.trim();
+        if (localizedName && currentTitleId) {
+          const overview = detailsBody.overview?.trim() || null;
+          setLocalizedText({ titleId: currentTitleId, name: localizedName, overview });
+          void upsertTitleSnapshot(currentTitleId, {
+            title_id: currentTitleId,
+            title: localizedName,
+            year: currentTitle.year ?? null,
+            poster_path: currentTitle.posterPath ?? null,
+            media_type: currentTitle.type,
+            overview,
+          }, {
+            callSite: "RatePage.localizedDetails",
+            upstreamPayloadKeys: Object.keys(detailsBody),
+            tmdbSucceeded: true,
+            language,
+          });
+        }
+
         if (currentTitle.tmdbType === "movie") {
-          setMpaaRating(detailsBody.mpaa_rating?.trim() || null);
+          setMovieCertification(detailsBody.certification?.trim() || null);
           if (isLikelyInTheaters(detailsBody.release_date ?? null)) {
             setIsInTheaters(true);
           }
@@ -501,7 +613,7 @@ export default function RatePage() {
       alive = false;
       setIsLoadingProviders(false);
     };
-  }, [currentTitle, currentTitleId]);
+  }, [currentTitle, currentTitleId, region, language]);
 
   async function advance(currentTitleId: string) {
     if (!member) return;
@@ -548,7 +660,7 @@ export default function RatePage() {
   }
 
   async function applyRating(value: RatingValue) {
-    if (!member || !currentTitle || !group) return;
+    if (!member || !currentTitle || !group || votingClosed) return;
     const existing = loadRatings(groupId, member.id)[currentTitle.id] as RatingValue | undefined;
     setHistory((prev) => [
       ...prev,
@@ -561,9 +673,23 @@ export default function RatePage() {
     ]);
 
     void setRatingValue(groupId, member.id, currentTitle.id, value);
+    setVetoesUsed(countVetoes(loadRatings(groupId, member.id)));
+    setRatingsVersion((version) => version + 1);
+    // Supabase detects matches in a ratings trigger and pushes them over realtime.
+    if (!isSupabaseConfigured()) void checkForMatches();
     await advance(currentTitle.id);
   }
 
+  function onVeto() {
+    if (!group || !currentTitle || isSubmittingStarRating) return;
+    if (group.settings.vetoBudget - vetoesUsed <= 0) return;
+    const confirmed = window.confirm(
+      `Veto "${currentTitle.name}"? It will be blocked from group results for everyone.`
+    );
+    if (!confirmed) return;
+    void applyRating(VETO_RATING);
+  }
+
   function onStarRate(value: 1 | 2 | 3 | 4 | 5) {
     if (isSubmittingStarRating) return;
     setCurrentStars(value);
@@ -591,6 +717,8 @@ export default function RatePage() {
 
     if (entry.previousValue !== undefined) {
       await setRatingValue(groupId, member.id, entry.title.id, entry.previousValue);
+      setVetoesUsed(countVetoes(loadRatings(groupId, member.id)));
+      setRatingsVersion((version) => version + 1);
     }
 
     if (entry.mode === "endless") {
@@ -603,6 +731,20 @@ export default function RatePage() {
     setCurrentStars(entry.previousValue && entry.previousValue > 0 ? entry.previousValue : 0);
   }
 
+  function onRecentRatingChanged(titleId: string, value: RatingValue | null) {
+    if (!member) return;
+    setVetoesUsed(countVetoes(loadRatings(groupId, member.id)));
+    if (!isSupabaseConfigured()) void checkForMatches();
+    if (value !== null || !isCustomListMode) return;
+
+    // A cleared custom list title goes back to the end of the queue.
+    const cleared = customListTitles.find((title) => title.id === titleId);
+    if (!cleared) return;
+    setUnratedTitles((prev) =>
+      prev.slice(currentIndex).some((title) => title.id === titleId) ? prev : [...prev, cleared]
+    );
+  }
+
   if (isBootstrapping) {
     return (
       <AppShell>
@@ -671,6 +813,43 @@ export default function RatePage() {
     );
   }
 
+  if (votingClosed) {
+    return (
+      <AppShell>
+        <div className="space-y-6">
+          <Card>
+            <CardTitle>Voting is closed</CardTitle>
+            <div className="mt-2">
+              <Muted>This round is over. Ratings are frozen and the final pick is on the results page.</Muted>
+            </div>
+            <div className="mt-4 flex flex-wrap gap-2">
+              <Button onClick={() => router.push(`/g/${groupId}/results`)}>See the pick</Button>
+              <Button variant="secondary" onClick={() => router.push(`/g/${groupId}`)}>
+                Home
+              </Button>
+            </div>
+          </Card>
+        </div>
+        {match ? <MatchCelebration groupId={groupId} match={match} onClose={dismissMatch} /> : null}
+      </AppShell>
+    );
+  }
+
+  const rejectionNotice = ratingRejection ? (
+    <div className="flex items-start justify-between gap-3 rounded-xl border border-amber-400/30 bg-amber-500/10 p-3 text-sm text-amber-100">
+      <span>
+        {REJECTION_MESSAGES[ratingRejection]}{" "}
+        Your ratings now match what the group has.
+      </span>
+      <button
+        type="button"
+        className="shrink-0 text-amber-100/80 hover:text-amber-100"
+        onClick={() => setRatingRejection(null)}
+      >
+        Dismiss
+      </button>
+    </div>
+  ) : null;
   if (!currentTitle) {
     if (!isCustomListMode && isRefreshingQueue) {
       return (
@@ -707,6 +886,8 @@ export default function RatePage() {
     return (
       <AppShell>
         <div className="space-y-6">
+          <StorageModeBanner groupId={groupId} />
+          {rejectionNotice}
           <Card>
             <CardTitle>You are caught up</CardTitle>
             <div className="mt-2">
@@ -719,17 +900,31 @@ export default function RatePage() {
               </Button>
             </div>
           </Card>
+          <RecentRatingsDrawer
+            groupId={groupId}
+            memberId={member.id}
+            language={language}
+            vetoBudget={group.settings.vetoBudget}
+            vetoesUsed={vetoesUsed}
+            disabled={votingClosed}
+            refreshKey={ratingsVersion}
+            knownTitles={knownTitles}
+            onChanged={onRecentRatingChanged}
+          />
         </div>
       </AppShell>
     );
   }
 
+  const vetoesLeft = Math.max(0, group.settings.vetoBudget - vetoesUsed);
   const googleQuery = `${currentTitle.name} ${currentTitle.type === "movie" ? "movie" : "show"}`;
   const posterUrl = currentTitle.posterPath ? `https://image.tmdb.org/t/p/w342${currentTitle.posterPath}` : null;
 
   return (
     <AppShell>
       <div className="space-y-4">
+        <StorageModeBanner groupId={groupId} />
+        {rejectionNotice}
         {isCustomListMode ? (
           <div className="flex justify-center">
             <Pill>{remainingCount} left</Pill>
@@ -740,7 +935,7 @@ export default function RatePage() {
           <Card>
             <PosterImage
               src={posterUrl}
-              alt={currentTitle.name}
+              alt={displayName}
               className="mx-auto w-full max-w-[176px] rounded-xl sm:max-w-[220px] md:max-w-[260px]"
               roundedClassName="rounded-xl"
             />
@@ -764,7 +959,7 @@ export default function RatePage() {
                   showNumericHint={false}
                 />
 
-                <div className="grid gap-2 sm:grid-cols-2">
+                <div className={["grid gap-2", group.settings.vetoBudget > 0 ? "sm:grid-cols-3" : "sm:grid-cols-2"].join(" ")}>
                   <Button
                     variant="ghost"
                     onClick={() => void onUndo()}
@@ -775,17 +970,39 @@ export default function RatePage() {
                   <Button variant="secondary" onClick={() => void applyRating(0)} disabled={isSubmittingStarRating}>
                     Skip
                   </Button>
+                  {group.settings.vetoBudget > 0 ? (
+                    <Button
+                      variant="ghost"
+                      onClick={onVeto}
+                      disabled={vetoesLeft === 0 || isSubmittingStarRating}
+                      title="Block this title from the group's results"
+                    >
+                      {vetoesLeft === 0 ? "No vetoes left" : `Veto (${vetoesLeft} left)`}
+                    </Button>
+                  ) : null}
                 </div>
               </div>
             </Card>
 
+            <RecentRatingsDrawer
+              groupId={groupId}
+              memberId={member.id}
+              language={language}
+              vetoBudget={group.settings.vetoBudget}
+              vetoesUsed={vetoesUsed}
+              disabled={votingClosed}
+              refreshKey={ratingsVersion}
+              knownTitles={knownTitles}
+              onChanged={onRecentRatingChanged}
+            />
+
             <Card>
-              <CardTitle>{currentTitle.name}</CardTitle>
+              <CardTitle>{displayName}</CardTitle>
               <div
                 className="mt-2 min-h-[72px] text-sm text-white/70"
                 style={{ display: "-webkit-box", WebkitLineClamp: 3, WebkitBoxOrient: "vertical", overflow: "hidden" }}
               >
-                {currentTitle.description ?? "No overview available yet."}
+                {displayOverview || "No overview available yet."}
               </div>
               <div className="mt-3">
                 <a
@@ -807,7 +1024,7 @@ export default function RatePage() {
                   </div>
                 ) : null}
 
-                {isLoadingProviders ? <Muted>Checking US providers...</Muted> : null}
+                {isLoadingProviders ? <Muted>Checking {region} providers...</Muted> : null}
 
                 {!isLoadingProviders && providerItems.length > 0 ? (
                   <div className="flex flex-wrap gap-2">
@@ -854,7 +1071,9 @@ export default function RatePage() {
                 <div>{currentTitle.year ?? "Unknown year"} | {currentTitle.type === "movie" ? "Movie" : "Show"}</div>
                 <div className="mt-1">{titleGenres.length > 0 ? titleGenres.join(", ") : currentTitle.genre ?? "General"}</div>
                 {currentTitle.type === "movie" ? (
-                  <div className="mt-1">MPAA: {mpaaRating ?? "Not rated"}</div>
+                  <div className="mt-1">
+                    {certificationSystemLabel(region, "movie")}: {movieCertification ?? "Not rated"}
+                  </div>
                 ) : null}
                 {currentTitle.tmdbId ? <div className="mt-1">TMDB ID: {currentTitle.tmdbId}</div> : null}
                 {isInTheaters ? <div className="mt-1 text-[rgb(var(--yellow))]">Currently in theaters</div> : null}
@@ -863,6 +1082,7 @@ export default function RatePage() {
           </div>
         </div>
       </div>
+      {match ? <MatchCelebration groupId={groupId} match={match} onClose={dismissMatch} /> : null}
     </AppShell>
   );
 }
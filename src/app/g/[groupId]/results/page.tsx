@@ -1,12 +1,30 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { useParams } from "next/navigation";
+import { useParams, useRouter } from "next/navigation";
 import { AppShell } from "@/components/AppShell";
+import { MatchCelebration } from "@/components/MatchCelebration";
+import { MemberAvatar } from "@/components/MemberAvatar";
 import { PosterImage } from "@/components/PosterImage";
+import { RunoffCard } from "@/components/RunoffCard";
 import { StateCard } from "@/components/StateCard";
+import { TasteCompatibilityCard } from "@/components/TasteCompatibilityCard";
 import { Button, Card, CardTitle, Muted, Pill } from "@/components/ui";
+import { useGroupSession } from "@/components/useGroupSession";
+import { useMatchCelebration } from "@/components/useMatchCelebration";
+import { isHostForGroup } from "@/lib/hostStore";
+import { resolveTitleLanguage } from "@/lib/languageStore";
 import { clearActiveMember, getActiveMember } from "@/lib/ratings";
+import { downloadTextFile } from "@/lib/download";
+import {
+  buildRatingMatrix,
+  formatRatingMatrix,
+  listEveryRatedTitle,
+  RATING_MATRIX_FORMAT_OPTIONS,
+  ratingMatrixFileName,
+  ratingMatrixMimeType,
+  type RatingMatrixFormat,
+} from "@/lib/ratingMatrix";
 import { getShortlist, type ShortlistItem, type ShortlistSnapshot } from "@/lib/shortlistStore";
 import { loadGroup, type Group } from "@/lib/storage";
 import { ensureAuth } from "@/lib/api";
@@ -14,15 +32,26 @@ import { getTitleSnapshots, type TitleSnapshot } from "@/lib/titleCacheStore";
 import { parseTmdbTitleKey } from "@/lib/tmdbTitleKey";
 import { getGroupTopTitles, type GroupTopTitle } from "@/lib/topTitlesStore";
 import { getGroupRatings } from "@/lib/ratingStore";
+import {
+  compareRankedTitles,
+  formatRankingScore,
+  RANKING_STRATEGY_OPTIONS,
+  rankingScoreUnit,
+  rankingStrategyLabel,
+  type RankingStrategy,
+} from "@/lib/rankingStrategies";
+import { compareByDivisiveness, computeRatingSpreads, type RatingSpread } from "@/lib/ratingSpread";
 import { isSupabaseConfigured, supabase } from "@/lib/supabase";
-import { type Member } from "@/lib/ratings";
+import { VETO_RATING, type Member } from "@/lib/ratings";
 
 const TOP_LIMIT_OPTIONS = [10, 20, 50, 100] as const;
-type TopSortBy = "total_stars" | "average" | "most_rated";
+type TopSortBy = "group_ranking" | "total_stars" | "average" | "most_rated" | "divisive";
 const TOP_SORT_OPTIONS: Array<{ value: TopSortBy; label: string }> = [
+  { value: "group_ranking", label: "Group ranking" },
   { value: "total_stars", label: "Total stars" },
   { value: "average", label: "Average rating" },
   { value: "most_rated", label: "Most ratings" },
+  { value: "divisive", label: "Most divisive" },
 ];
 
 function starsText(avg: number) {
@@ -152,19 +181,70 @@ function resolveTitleData({
   };
 }
 
+function spreadValueText(value: number | null) {
+  return value === null ? "-" : `${value}\u2605`;
+}
+
+const DISTRIBUTION_BUCKETS = [
+  { value: 0, label: "V" },
+  { value: 1, label: "1" },
+  { value: 2, label: "2" },
+  { value: 3, label: "3" },
+  { value: 4, label: "4" },
+  { value: 5, label: "5" },
+] as const;
+
+function RatingDistribution({ spread }: { spread: RatingSpread }) {
+  const maxCount = Math.max(1, ...DISTRIBUTION_BUCKETS.map((bucket) => spread.distribution[bucket.value]));
+  return (
+    <div className="mt-2">
+      <div className="flex h-12 items-end gap-1">
+        {DISTRIBUTION_BUCKETS.map((bucket) => {
+          const count = spread.distribution[bucket.value];
+          return (
+            <div
+              key={bucket.value}
+              className={[
+                "w-5 rounded-t",
+                bucket.value === 0 ? "bg-red-400/70" : "bg-[rgb(var(--yellow))]/75",
+                count === 0 ? "opacity-20" : "",
+              ].join(" ")}
+              style={{ height: `${Math.max(8, (count / maxCount) * 100)}%` }}
+              title={`${bucket.value === 0 ? "Vetoes" : `${bucket.value} stars`}: ${count}`}
+            />
+          );
+        })}
+      </div>
+      <div className="mt-0.5 flex gap-1 text-[10px] text-white/55">
+        {DISTRIBUTION_BUCKETS.map((bucket) => (
+          <span key={bucket.value} className="w-5 text-center">
+            {bucket.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function ResultCard({
   row,
   resolved,
   rank,
   topSortBy,
+  rankingStrategy,
   showMediaTypePill,
+  spread,
 }: {
   row: GroupTopTitle;
   resolved: ResolvedTitle;
   rank: number;
   topSortBy: TopSortBy;
+  rankingStrategy: RankingStrategy;
   showMediaTypePill: boolean;
+  spread: RatingSpread | undefined;
 }) {
+  const showStrategyScore = topSortBy === "group_ranking" && rankingStrategy !== "total_stars";
+
   const posterUrl = resolved.posterPath
     ? `https://image.tmdb.org/t/p/w185${resolved.posterPath}`
     : null;
@@ -196,7 +276,15 @@ function ResultCard({
             <span>{resolved.year ?? (resolved.isResolved ? "Unknown year" : "Loading year...")}</span>
             {showMediaTypePill ? <Pill>{resolved.mediaType === "movie" ? "Movie" : "Show"}</Pill> : null}
           </div>
-          {topSortBy === "average" ? (
+          {topSortBy === "divisive" ? (
+            <div className="mt-2 inline-flex items-center gap-2 rounded-lg border border-red-300/35 bg-red-500/12 px-2.5 py-1">
+              <span className="text-2xl font-bold leading-none text-white">
+                {"\u00b1"}
+                {(spread?.stdDev ?? 0).toFixed(2)}
+              </span>
+              <span className="text-xs font-semibold uppercase tracking-wide text-white/80">std dev</span>
+            </div>
+          ) : topSortBy === "average" ? (
             <div className="mt-2 flex items-center gap-2 text-white/95">
               <StarDisplay value={row.avg} size="lg" />
               <span className="text-lg font-bold">{starsText(row.avg)}</span>
@@ -206,6 +294,15 @@ function ResultCard({
               <span className="text-2xl font-bold leading-none text-white">{row.votes}</span>
               <span className="text-xs font-semibold uppercase tracking-wide text-white/80">rated</span>
             </div>
+          ) : showStrategyScore ? (
+            <div className="mt-2 inline-flex items-center gap-2 rounded-lg border border-[rgb(var(--yellow))]/35 bg-[rgb(var(--yellow))]/12 px-2.5 py-1">
+              <span className="text-2xl font-bold leading-none text-white">
+                {formatRankingScore(rankingStrategy, row.score)}
+              </span>
+              <span className="text-xs font-semibold uppercase tracking-wide text-white/80">
+                {rankingScoreUnit(rankingStrategy)}
+              </span>
+            </div>
           ) : (
             <div className="mt-2 inline-flex items-center gap-1.5 rounded-lg border border-[rgb(var(--yellow))]/35 bg-[rgb(var(--yellow))]/12 px-2.5 py-1">
               <span className="text-2xl font-bold leading-none text-white">{row.totalStars}</span>
@@ -214,7 +311,19 @@ function ResultCard({
           )}
 
           <div className="mt-2 text-xs text-white/72">
-            {topSortBy === "average" ? (
+            {topSortBy === "divisive" ? (
+              <>
+                <div>
+                  From {spreadValueText(spread?.min ?? null)} to {spreadValueText(spread?.max ?? null)}, average{" "}
+                  {starsText(row.avg)} stars
+                </div>
+                <div>
+                  {spread?.count ?? row.votes} ratings
+                  {spread && spread.skips > 0 ? `, ${spread.skips} ${spread.skips === 1 ? "skip" : "skips"}` : ""}
+                  {spread && spread.vetoes > 0 ? `, ${spread.vetoes} ${spread.vetoes === 1 ? "veto" : "vetoes"}` : ""}
+                </div>
+              </>
+            ) : topSortBy === "average" ? (
               <>
                 <div>{row.totalStars} total stars</div>
                 <div>{row.votes} ratings</div>
@@ -224,6 +333,11 @@ function ResultCard({
                 <div>{row.totalStars} total stars</div>
                 <div>Average {starsText(row.avg)} stars</div>
               </>
+            ) : showStrategyScore ? (
+              <>
+                <div>{row.totalStars} total stars</div>
+                <div>Average {starsText(row.avg)} stars from {row.votes} ratings</div>
+              </>
             ) : (
               <>
                 <div>Average {starsText(row.avg)} stars</div>
@@ -231,6 +345,7 @@ function ResultCard({
               </>
             )}
           </div>
+          {topSortBy === "divisive" && spread ? <RatingDistribution spread={spread} /> : null}
         </div>
       </div>
     </div>
@@ -240,8 +355,10 @@ function ResultCard({
 export default function ResultsPage() {
   const params = useParams<{ groupId: string }>();
   const groupId = params.groupId;
+  const router = useRouter();
 
   const [group, setGroup] = useState<Group | null>(null);
+  const [isHost, setIsHost] = useState(false);
   const [authBlocked, setAuthBlocked] = useState(false);
   const [authRetryKey, setAuthRetryKey] = useState(0);
   const [topRows, setTopRows] = useState<GroupTopTitle[]>([]);
@@ -256,9 +373,13 @@ export default function ResultsPage() {
   const [titleCache, setTitleCache] = useState<Record<string, TitleSnapshot>>({});
   const [perMemberRatings, setPerMemberRatings] = useState<Record<string, Record<string, number>>>({});
   const [topLimit, setTopLimit] = useState<(typeof TOP_LIMIT_OPTIONS)[number]>(10);
-  const [topSortBy, setTopSortBy] = useState<TopSortBy>("total_stars");
+  const [topSortBy, setTopSortBy] = useState<TopSortBy>("group_ranking");
   const [onlyShowRatedByAll, setOnlyShowRatedByAll] = useState(false);
   const [showMemberRankings, setShowMemberRankings] = useState(false);
+  const [exportFormat, setExportFormat] = useState<RatingMatrixFormat>("csv");
+  const [exportAllTitles, setExportAllTitles] = useState(false);
+  const { match, checkForMatches, dismiss: dismissMatch } = useMatchCelebration(groupId);
+  const { session, votingClosed, refreshSession } = useGroupSession(groupId);
   const activeMemberId = activeMember?.id ?? null;
   const updatingTimerRef = useRef<number | null>(null);
   const hideTimerRef = useRef<number | null>(null);
@@ -324,6 +445,10 @@ export default function ResultsPage() {
           setIsLoadingRows(false);
           return;
         }
+        const localGroup = loadGroup(groupId);
+        setIsHost(
+          localGroup?.ownerUserId ? localGroup.ownerUserId === anonUserId : isHostForGroup(groupId)
+        );
 
         const [topLoaded, membersLoaded] = await Promise.all([
           getGroupTopTitles(groupId),
@@ -347,6 +472,7 @@ export default function ResultsPage() {
           if (topLoaded.rows.length === 0 && current.length > 0) return current;
           return topLoaded.rows;
         });
+        void checkForMatches();
       } finally {
         if (!alive) return;
         setIsLoadingRows(false);
@@ -386,6 +512,16 @@ export default function ResultsPage() {
           { event: "*", schema: "public", table: "group_top_titles", filter: `group_id=eq.${groupId}` },
           scheduleBackgroundRefresh
         )
+        .on(
+          "postgres_changes",
+          { event: "INSERT", schema: "public", table: "group_matches", filter: `group_id=eq.${groupId}` },
+          () => void checkForMatches()
+        )
+        .on(
+          "postgres_changes",
+          { event: "*", schema: "public", table: "group_sessions", filter: `group_id=eq.${groupId}` },
+          () => void refreshSession()
+        )
         .subscribe();
       unsubscribeRealtime = () => {
         void channel.unsubscribe();
@@ -408,11 +544,19 @@ export default function ResultsPage() {
       }
       if (unsubscribeRealtime) unsubscribeRealtime();
     };
-  }, [activeMemberId, authRetryKey, beginUpdatingIndicator, endUpdatingIndicator, groupId]);
+  }, [
+    activeMemberId,
+    authRetryKey,
+    beginUpdatingIndicator,
+    checkForMatches,
+    endUpdatingIndicator,
+    groupId,
+    refreshSession,
+  ]);
 
   useEffect(() => {
     setTopLimit(10);
-    setTopSortBy("total_stars");
+    setTopSortBy("group_ranking");
     setOnlyShowRatedByAll(false);
     setShowMemberRankings(false);
     setMemberRemovedByHost(false);
@@ -425,7 +569,7 @@ export default function ResultsPage() {
     const set = new Set<string>();
     for (const memberEntries of Object.values(perMemberRatings)) {
       for (const [titleId, rawRating] of Object.entries(memberEntries)) {
-        if (asNumericRating(rawRating) !== null) {
+        if (asNumericRating(rawRating) !== null || Number(rawRating) === VETO_RATING) {
           set.add(titleId);
         }
       }
@@ -433,6 +577,18 @@ export default function ResultsPage() {
     return Array.from(set);
   }, [perMemberRatings]);
 
+  // A closed round keeps the ranking it had at close time.
+  const frozenRows = votingClosed && session && session.snapshot.length > 0 ? session.snapshot : null;
+  const rankedRows = frozenRows ?? topRows;
+  const winnerTitleId = votingClosed ? session?.winnerTitleId ?? null : null;
+  const ratedTitleCount = rankedRows.filter((row) => row.votes > 0).length;
+
+  const lookupTitleIds = useMemo(() => {
+    const ids = [...rankedRows.map((row) => row.titleId), ...memberRatedTitleIds];
+    if (winnerTitleId) ids.push(winnerTitleId);
+    return Array.from(new Set(ids));
+  }, [rankedRows, memberRatedTitleIds, winnerTitleId]);
+
   useEffect(() => {
     let alive = true;
     (async () => {
@@ -442,9 +598,7 @@ export default function ResultsPage() {
       for (const item of shortlist) {
         map[item.title_id] = item.title_snapshot;
       }
-      const slRows = Array.from(new Set([...topRows.map((r) => r.titleId), ...memberRatedTitleIds])).filter(
-        (id) => id.startsWith("sl:")
-      );
+      const slRows = lookupTitleIds.filter((id) => id.startsWith("sl:"));
       for (const titleId of slRows) {
         const snapshot = resolveShortlistSnapshotByTitleId(titleId, shortlist);
         if (snapshot) map[titleId] = snapshot;
@@ -457,25 +611,27 @@ export default function ResultsPage() {
     return () => {
       alive = false;
     };
-  }, [groupId, topRows, memberRatedTitleIds]);
+  }, [groupId, lookupTitleIds]);
 
   useEffect(() => {
     let alive = true;
-    const titleIds = Array.from(new Set([...topRows.map((row) => row.titleId), ...memberRatedTitleIds]));
+    const titleIds = lookupTitleIds;
     if (titleIds.length === 0) return;
     (async () => {
-      const snapshots = await getTitleSnapshots(titleIds);
+      const snapshots = await getTitleSnapshots(titleIds, resolveTitleLanguage(groupId));
       if (!alive) return;
       setTitleCache((current) => ({ ...current, ...snapshots }));
     })();
     return () => {
       alive = false;
     };
-  }, [topRows, memberRatedTitleIds]);
+  }, [groupId, lookupTitleIds]);
+
+  const ratingSpreads = useMemo(() => computeRatingSpreads(perMemberRatings), [perMemberRatings]);
 
   const allRanked = useMemo(() => {
     const requiredRaterCount = members.length;
-    const rows = topRows.filter((row) => row.votes > 0);
+    const rows = rankedRows.filter((row) => row.votes > 0);
     const filteredRows =
       onlyShowRatedByAll
         ? requiredRaterCount > 0
@@ -483,6 +639,13 @@ export default function ResultsPage() {
           : []
         : rows;
     filteredRows.sort((a, b) => {
+      if (topSortBy === "group_ranking") return compareRankedTitles(a, b);
+      if (topSortBy === "divisive") {
+        return compareByDivisiveness(
+          { titleId: a.titleId, spread: ratingSpreads[a.titleId] },
+          { titleId: b.titleId, spread: ratingSpreads[b.titleId] }
+        );
+      }
       if (topSortBy === "average") {
         if (b.avg !== a.avg) return b.avg - a.avg;
         if (b.totalStars !== a.totalStars) return b.totalStars - a.totalStars;
@@ -501,17 +664,28 @@ export default function ResultsPage() {
       return a.titleId.localeCompare(b.titleId);
     });
     return filteredRows;
-  }, [members.length, onlyShowRatedByAll, topRows, topSortBy]);
+  }, [members.length, onlyShowRatedByAll, rankedRows, ratingSpreads, topSortBy]);
 
   const top = useMemo(() => {
     return allRanked.slice(0, topLimit);
   }, [allRanked, topLimit]);
 
+  const rankingStrategy: RankingStrategy = group?.settings.rankingStrategy ?? "total_stars";
+  const rankingStrategyDescription =
+    RANKING_STRATEGY_OPTIONS.find((opt) => opt.value === rankingStrategy)?.description ?? "";
+
+  const skipsCountAgainst =
+    topSortBy === "group_ranking" && (rankingStrategy === "least_misery" || rankingStrategy === "borda");
+
   const topSortSummary =
-    topSortBy === "average"
+    topSortBy === "group_ranking"
+      ? `Ranked by ${rankingStrategyLabel(rankingStrategy).toLowerCase()}, the group's chosen strategy. ${rankingStrategyDescription}`
+      : topSortBy === "average"
       ? "Sorted by average rating. Ties are broken by total stars."
       : topSortBy === "most_rated"
         ? "Sorted by number of ratings. Ties are broken by total stars."
+        : topSortBy === "divisive"
+          ? "Sorted by how much the group disagrees: the standard deviation of each title's ratings, then the gap between the lowest and highest. Vetoes count as 0 stars."
         : "Sorted by total stars. Ties are broken by average rating.";
 
   useEffect(() => {
@@ -537,6 +711,52 @@ export default function ResultsPage() {
     }));
   }, [top, titleCache, shortlistFallback, group]);
 
+  function onExportMatrix() {
+    if (!group) return;
+    const rows = exportAllTitles
+      ? listEveryRatedTitle(allRanked, perMemberRatings)
+      : top.map((row) => ({ row, ranked: true }));
+    const titles = rows.map(({ row, ranked }) => {
+      const resolved = resolveTitleData({ group, titleId: row.titleId, titleCache, shortlistFallback });
+      return { row, ranked, title: resolved.title, year: resolved.year, mediaType: resolved.mediaType };
+    });
+    const matrix = buildRatingMatrix(titles, members, perMemberRatings);
+    downloadTextFile(
+      ratingMatrixFileName(group.name, exportFormat),
+      formatRatingMatrix(matrix, exportFormat),
+      ratingMatrixMimeType(exportFormat)
+    );
+  }
+
+  const finalPick = useMemo(() => {
+    if (!group || !winnerTitleId) return null;
+    return {
+      row: rankedRows.find((row) => row.titleId === winnerTitleId) ?? null,
+      resolved: resolveTitleData({ group, titleId: winnerTitleId, titleCache, shortlistFallback }),
+    };
+  }, [group, winnerTitleId, rankedRows, titleCache, shortlistFallback]);
+
+  const vetoedTitles = useMemo(() => {
+    if (!group) return [];
+    const vetoCounts: Record<string, number> = {};
+    for (const memberEntries of Object.values(perMemberRatings)) {
+      for (const [titleId, rawRating] of Object.entries(memberEntries)) {
+        if (Number(rawRating) !== VETO_RATING) continue;
+        vetoCounts[titleId] = (vetoCounts[titleId] ?? 0) + 1;
+      }
+    }
+    return Object.entries(vetoCounts)
+      .map(([titleId, vetoes]) => ({
+        titleId,
+        vetoes,
+        resolved: resolveTitleData({ group, titleId, titleCache, shortlistFallback }),
+      }))
+      .sort((a, b) => {
+        if (b.vetoes !== a.vetoes) return b.vetoes - a.vetoes;
+        return a.resolved.title.localeCompare(b.resolved.title);
+      });
+  }, [group, perMemberRatings, titleCache, shortlistFallback]);
+
   const memberRankings = useMemo(() => {
     if (!group) return [];
     return members.map((member) => {
@@ -644,10 +864,77 @@ export default function ResultsPage() {
           </div>
         </div>
 
+        {votingClosed && session ? (
+          <Card className="border-[rgb(var(--yellow))]/35">
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle>Final pick</CardTitle>
+              <Pill>Round {session.round}</Pill>
+            </div>
+            {finalPick ? (
+              <div className="mt-3 flex items-start gap-3">
+                <PosterImage
+                  src={
+                    finalPick.resolved.posterPath
+                      ? `https://image.tmdb.org/t/p/w185${finalPick.resolved.posterPath}`
+                      : null
+                  }
+                  alt={finalPick.resolved.title}
+                  className="w-20 shrink-0"
+                />
+                <div className="min-w-0 flex-1">
+                  {finalPick.resolved.isResolved ? (
+                    <a
+                      href={finalPick.resolved.infoUrl}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="block break-words text-lg font-semibold leading-snug text-white hover:underline"
+                    >
+                      {finalPick.resolved.title}
+                    </a>
+                  ) : (
+                    <div className="block break-words text-lg font-semibold leading-snug text-white/70">
+                      {finalPick.resolved.title}
+                    </div>
+                  )}
+                  <div className="mt-1 text-xs text-white/65">
+                    {finalPick.resolved.year ?? (finalPick.resolved.isResolved ? "Unknown year" : "Loading year...")}
+                  </div>
+                  {finalPick.row ? (
+                    <div className="mt-2 flex items-center gap-2 text-white/90">
+                      <StarDisplay value={finalPick.row.avg} />
+                      <span className="text-sm">
+                        {starsText(finalPick.row.avg)} from {finalPick.row.votes}{" "}
+                        {finalPick.row.votes === 1 ? "rating" : "ratings"}
+                      </span>
+                    </div>
+                  ) : null}
+                </div>
+              </div>
+            ) : (
+              <div className="mt-3">
+                <Muted>
+                  {session.status === "closed"
+                    ? "No titles were rated before voting closed."
+                    : "Locking in the final pick..."}
+                </Muted>
+              </div>
+            )}
+            <div className="mt-3 text-xs text-white/60">
+              {session.closedAt
+                ? `Voting closed ${new Date(session.closedAt).toLocaleString()}.`
+                : "Voting is closed."}{" "}
+              Ratings are frozen until the host reopens voting or starts a new round.
+            </div>
+          </Card>
+        ) : null}
+
         <Card>
           <CardTitle>Top picks</CardTitle>
           <div className="mt-2">
-            <Muted>{topSortSummary} Skips are excluded.</Muted>
+            <Muted>
+              {topSortSummary}{" "}
+              {skipsCountAgainst ? "Skips count against a title." : "Skips are excluded."}
+            </Muted>
             {onlyShowRatedByAll ? (
               <div className="mt-1 text-sm text-white/65">
                 Showing titles rated by all {members.length} {members.length === 1 ? "member" : "members"}.
@@ -686,7 +973,9 @@ export default function ResultsPage() {
                   >
                     {TOP_SORT_OPTIONS.map((opt) => (
                       <option key={opt.value} value={opt.value} className="bg-[rgb(var(--card-2))] text-white">
-                        {opt.label}
+                        {opt.value === "group_ranking"
+                          ? `${opt.label} (${rankingStrategyLabel(rankingStrategy)})`
+                          : opt.label}
                       </option>
                     ))}
                   </select>
@@ -735,13 +1024,50 @@ export default function ResultsPage() {
                     resolved={item.resolved}
                     rank={index + 1}
                     topSortBy={topSortBy}
+                    rankingStrategy={rankingStrategy}
                     showMediaTypePill={showMediaTypePill}
+                    spread={ratingSpreads[item.row.titleId]}
                   />
                 ))}
               </div>
             )}
           </div>
 
+          {allRanked.length > 0 ? (
+            <div className="mt-4 rounded-xl border border-white/10 bg-white/5 p-3">
+              <div className="text-sm font-semibold text-white">Export ratings</div>
+              <div className="mt-1 text-xs text-white/60">
+                One row per title and one column per member, in the order shown above.
+              </div>
+              <div className="mt-3 flex flex-wrap items-center gap-3">
+                <select
+                  aria-label="Export format"
+                  value={exportFormat}
+                  onChange={(event) => setExportFormat(event.target.value as RatingMatrixFormat)}
+                  className="rounded-xl border border-white/14 bg-black/25 px-3.5 py-2.5 text-sm text-white outline-none transition focus:border-[rgb(var(--yellow))]/60 focus:ring-2 focus:ring-[rgb(var(--yellow))]/25"
+                >
+                  {RATING_MATRIX_FORMAT_OPTIONS.map((opt) => (
+                    <option key={opt.value} value={opt.value} className="bg-[rgb(var(--card-2))] text-white">
+                      {opt.label}
+                    </option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-2 text-sm text-white/85">
+                  <input
+                    type="checkbox"
+                    checked={exportAllTitles}
+                    onChange={(event) => setExportAllTitles(event.target.checked)}
+                    className="h-4 w-4 shrink-0 accent-[rgb(var(--yellow))]"
+                  />
+                  <span>Include every rated title, not just the top {topLimit}</span>
+                </label>
+                <Button variant="secondary" onClick={onExportMatrix}>
+                  Download
+                </Button>
+              </div>
+            </div>
+          ) : null}
+
           <div className="mt-4">
             <Button variant="secondary" onClick={() => setShowMemberRankings((v) => !v)}>
               {showMemberRankings ? "Hide rankings by member" : "View rankings by member"}
@@ -758,7 +1084,10 @@ export default function ResultsPage() {
                 <div className="mt-3 space-y-3">
                   {memberRankings.map(({ member, rows }) => (
                     <div key={member.id} className="rounded-xl border border-white/12 bg-black/28 p-3">
-                      <div className="text-sm font-semibold text-white">{member.name}</div>
+                      <div className="flex items-center gap-2 text-sm font-semibold text-white">
+                        <MemberAvatar member={member} size="sm" />
+                        <span className="min-w-0 truncate">{member.name}</span>
+                      </div>
                       {rows.length === 0 ? (
                         <div className="mt-2 text-xs text-white/60">No ratings yet.</div>
                       ) : (
@@ -783,7 +1112,52 @@ export default function ResultsPage() {
             </div>
           ) : null}
         </Card>
+
+        {!isLoadingRows ? <TasteCompatibilityCard members={members} perMemberRatings={perMemberRatings} /> : null}
+
+        {isHost && !isLoadingRows && ratedTitleCount >= 2 ? (
+          <RunoffCard
+            group={group}
+            rankedCount={ratedTitleCount}
+            onStarted={(updated) => {
+              setGroup(updated);
+              router.push(`/g/${groupId}`);
+            }}
+          />
+        ) : null}
+
+        {vetoedTitles.length > 0 ? (
+          <Card>
+            <CardTitle>Blocked by veto</CardTitle>
+            <div className="mt-2">
+              <Muted>These titles were vetoed and can&apos;t make the top picks.</Muted>
+            </div>
+            <div className="mt-3 space-y-2">
+              {vetoedTitles.map(({ titleId, vetoes, resolved }) => (
+                <div
+                  key={`veto-${titleId}`}
+                  className="flex items-center justify-between gap-3 rounded-xl border border-red-400/25 bg-red-500/[0.06] p-3"
+                >
+                  <div className="flex min-w-0 items-center gap-3">
+                    <PosterImage
+                      src={resolved.posterPath ? `https://image.tmdb.org/t/p/w92${resolved.posterPath}` : null}
+                      alt={resolved.title}
+                      className="w-10 shrink-0 opacity-60"
+                    />
+                    <div className="min-w-0 truncate text-sm font-semibold text-white/80 line-through decoration-red-300/60">
+                      {resolved.title}
+                    </div>
+                  </div>
+                  <Pill>{vetoes === 1 ? "1 veto" : `${vetoes} vetoes`}</Pill>
+                </div>
+              ))}
+            </div>
+          </Card>
+        ) : null}
       </div>
+      {match ? (
+        <MatchCelebration groupId={groupId} match={match} onClose={dismissMatch} showResultsLink={false} />
+      ) : null}
     </AppShell>
   );
 }
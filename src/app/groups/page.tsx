@@ -3,6 +3,7 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { AppShell } from "@/components/AppShell";
+import { LocalGroupMigrationCard } from "@/components/LocalGroupMigrationCard";
 import { StateCard } from "@/components/StateCard";
 import { Button, Card, CardTitle, Muted, Pill } from "@/components/ui";
 import { getAuthSnapshot, subscribeAuthSnapshot, type AuthSnapshot } from "@/lib/authClient";
@@ -236,6 +237,14 @@ export default function GroupsPage() {
           </div>
         ) : null}
 
+        <LocalGroupMigrationCard
+          onMigrated={(group) => {
+            setMessageTone("success");
+            setMessage(`Uploaded "${group.name}". It now has a shareable link.`);
+            void loadGroups();
+          }}
+        />
+
         {error === "network" ? (
           <Card>
             <CardTitle>Connection issue</CardTitle>
@@ -0,0 +1,110 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { AppShell } from "@/components/AppShell";
+import { Button, Card, CardTitle, Input, Muted } from "@/components/ui";
+import { resolveShortCode } from "@/lib/inviteStore";
+import { formatShortCode } from "@/lib/shortCodes";
+
+type ResolveError = Awaited<ReturnType<typeof resolveShortCode>>["error"];
+
+function resolveErrorMessage(error: ResolveError) {
+  if (error === "not_found") {
+    return "That code does not open a group. Check it with the host, or ask for an invite link.";
+  }
+  if (error === "rate_limited") return "Too many tries. Wait a minute and try again.";
+  if (error === "unavailable") return "Join codes need an online group. Ask the host for the invite link instead.";
+  if (error === "network") return "Could not reach the server. Try again.";
+  return "";
+}
+
+function JoinPageContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const codeFromLink = searchParams.get("code")?.trim() ?? "";
+  const [code, setCode] = useState(codeFromLink);
+  const [isResolving, setIsResolving] = useState(false);
+  const [error, setError] = useState<ResolveError>("none");
+
+  useEffect(() => {
+    if (!codeFromLink) return;
+    let alive = true;
+    void (async () => {
+      setIsResolving(true);
+      const resolved = await resolveShortCode(codeFromLink);
+      if (!alive) return;
+      if (resolved.groupId) {
+        router.replace(`/g/${resolved.groupId}`);
+        return;
+      }
+      setError(resolved.error);
+      setIsResolving(false);
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [codeFromLink, router]);
+
+  async function onSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (isResolving || !code.trim()) return;
+    setIsResolving(true);
+    setError("none");
+    const resolved = await resolveShortCode(code);
+    if (resolved.groupId) {
+      router.push(`/g/${resolved.groupId}`);
+      return;
+    }
+    setError(resolved.error);
+    setIsResolving(false);
+  }
+
+  return (
+    <AppShell>
+      <Card>
+        <CardTitle>Join with a code</CardTitle>
+        <div className="mt-2">
+          <Muted>Type the code shown on the host&apos;s screen, like 7K2M-Q9X1.</Muted>
+        </div>
+        <form className="mt-4 flex flex-col gap-3 sm:flex-row" onSubmit={(event) => void onSubmit(event)}>
+          <Input
+            value={code}
+            onChange={(event) => setCode(event.target.value)}
+            onBlur={() => setCode((current) => formatShortCode(current))}
+            placeholder="XXXX-XXXX"
+            aria-label="Join code"
+            autoCapitalize="characters"
+            autoComplete="off"
+            spellCheck={false}
+            className="font-mono uppercase tracking-wider"
+          />
+          <Button type="submit" disabled={isResolving || !code.trim()}>
+            {isResolving ? "Finding group..." : "Join"}
+          </Button>
+        </form>
+        {error !== "none" ? (
+          <div className="mt-3 rounded-xl border border-red-400/30 bg-red-500/10 p-3 text-sm text-red-100">
+            {resolveErrorMessage(error)}
+          </div>
+        ) : null}
+      </Card>
+    </AppShell>
+  );
+}
+
+export default function JoinPage() {
+  return (
+    <Suspense
+      fallback={
+        <AppShell>
+          <Card>
+            <Muted>Loading...</Muted>
+          </Card>
+        </AppShell>
+      }
+    >
+      <JoinPageContent />
+    </Suspense>
+  );
+}
@@ -2,6 +2,7 @@ import "./globals.css";
 import type { Metadata } from "next";
 import { Manrope } from "next/font/google";
 import { AuthBootstrap } from "@/components/AuthBootstrap";
+import { RatingOutboxSync } from "@/components/RatingOutboxSync";
 
 const manrope = Manrope({
   subsets: ["latin"],
@@ -25,6 +26,7 @@ export default function RootLayout({ children }: { children: React.ReactNode })
     <html lang="en">
       <body className={manrope.className}>
         <AuthBootstrap />
+        <RatingOutboxSync />
         {children}
       </body>
     </html>
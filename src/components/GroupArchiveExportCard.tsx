@@ -0,0 +1,39 @@
+"use client";
+
+import { useState } from "react";
+import { Button, Card, CardTitle, Muted } from "@/components/ui";
+import { downloadTextFile } from "@/lib/download";
+import { buildGroupArchive, groupArchiveFileName } from "@/lib/groupArchive";
+import type { Group } from "@/lib/storage";
+
+export function GroupArchiveExportCard({ group, className }: { group: Group; className?: string }) {
+  const [isExporting, setIsExporting] = useState(false);
+
+  async function onExport() {
+    if (isExporting) return;
+    setIsExporting(true);
+    try {
+      const archive = await buildGroupArchive(group);
+      downloadTextFile(groupArchiveFileName(archive), JSON.stringify(archive, null, 2), "application/json");
+    } finally {
+      setIsExporting(false);
+    }
+  }
+
+  return (
+    <Card className={className}>
+      <CardTitle>Backup</CardTitle>
+      <div className="mt-2">
+        <Muted>
+          Download the settings, members, ratings and custom list as a file. Import it from Create group to restore
+          it, on any account.
+        </Muted>
+      </div>
+      <div className="mt-3">
+        <Button variant="secondary" onClick={() => void onExport()} disabled={isExporting}>
+          {isExporting ? "Exporting..." : "Export group"}
+        </Button>
+      </div>
+    </Card>
+  );
+}
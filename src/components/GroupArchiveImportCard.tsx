@@ -0,0 +1,94 @@
+"use client";
+
+import { type ChangeEvent, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Button, Card, CardTitle, Muted } from "@/components/ui";
+import {
+  importGroupArchive,
+  parseGroupArchive,
+  type ImportGroupArchiveResult,
+  type ParseGroupArchiveResult,
+} from "@/lib/groupArchive";
+
+const PARSE_ERROR_TEXT: Record<Exclude<ParseGroupArchiveResult["error"], "none">, string> = {
+  invalid_json: "That file is not valid JSON.",
+  not_an_archive: "That file is not a group backup.",
+  unsupported_version: "This backup was made by a newer version of the app.",
+};
+
+const UPLOAD_ERROR_TEXT: Record<Exclude<ImportGroupArchiveResult["error"], "none">, string> = {
+  auth_failed: "Imported on this device only. Sign in with a host account, then upload it from My groups.",
+  forbidden: "Imported on this device only. Upload it from My groups to share it.",
+  network: "Could not reach the server, so it was imported on this device only. Upload it from My groups later.",
+};
+
+export function GroupArchiveImportCard({ className }: { className?: string }) {
+  const router = useRouter();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [localGroupId, setLocalGroupId] = useState<string | null>(null);
+
+  async function onFileChange(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || isImporting) return;
+
+    setIsImporting(true);
+    setImportError(null);
+    setLocalGroupId(null);
+    try {
+      const parsed = parseGroupArchive(await file.text());
+      if (parsed.error !== "none") {
+        setImportError(PARSE_ERROR_TEXT[parsed.error]);
+        return;
+      }
+
+      const result = await importGroupArchive(parsed.archive);
+      if (!result.group) return;
+      if (result.error !== "none") {
+        setImportError(UPLOAD_ERROR_TEXT[result.error]);
+        setLocalGroupId(result.group.id);
+        return;
+      }
+      router.push(`/g/${result.group.id}`);
+    } finally {
+      setIsImporting(false);
+    }
+  }
+
+  return (
+    <Card interactive={false} className={className}>
+      <CardTitle>Import a backup</CardTitle>
+      <div className="mt-2">
+        <Muted>Restore a group from an exported file. It starts as a new group with a fresh invite link.</Muted>
+      </div>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="application/json,.json"
+        className="sr-only"
+        onChange={(event) => void onFileChange(event)}
+      />
+      <div className="mt-3">
+        <Button variant="secondary" onClick={() => inputRef.current?.click()} disabled={isImporting}>
+          {isImporting ? "Importing..." : "Choose file"}
+        </Button>
+      </div>
+      {importError ? (
+        <div className="mt-3 rounded-xl border border-red-400/30 bg-red-500/10 p-3 text-sm text-red-100">
+          {importError}
+          {localGroupId ? (
+            <>
+              {" "}
+              <Link href={`/g/${localGroupId}`} className="underline">
+                Open the group
+              </Link>
+            </>
+          ) : null}
+        </div>
+      ) : null}
+    </Card>
+  );
+}
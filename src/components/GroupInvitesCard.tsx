@@ -0,0 +1,224 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { QrCode } from "@/components/QrCode";
+import { Button, Card, CardTitle, Muted, Pill } from "@/components/ui";
+import {
+  buildInviteLink,
+  createInvite,
+  INVITE_EXPIRY_OPTIONS,
+  INVITE_MAX_USES_OPTIONS,
+  inviteStatus,
+  listInvites,
+  revokeInvite,
+  type GroupInvite,
+  type InviteRole,
+  type InviteStatus,
+} from "@/lib/inviteStore";
+
+const STATUS_LABELS: Record<InviteStatus, string> = {
+  active: "Active",
+  expired: "Expired",
+  used_up: "Used up",
+  revoked: "Revoked",
+};
+
+const SELECT_CLASS =
+  "w-full rounded-xl border border-white/14 bg-black/25 px-3.5 py-2.5 text-sm text-white outline-none transition focus:border-[rgb(var(--yellow))]/60 focus:ring-2 focus:ring-[rgb(var(--yellow))]/25";
+
+function formatWhen(iso: string) {
+  return new Date(iso).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function usageText(invite: GroupInvite) {
+  return invite.maxUses > 0 ? `${invite.usedCount}/${invite.maxUses} uses` : `${invite.usedCount} uses`;
+}
+
+/** Host-only list of invite codes: create with expiry, use limit and role, copy and revoke. */
+export function GroupInvitesCard({ groupId }: { groupId: string }) {
+  const [invites, setInvites] = useState<GroupInvite[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [role, setRole] = useState<InviteRole>("member");
+  const [expiresInHours, setExpiresInHours] = useState(24 * 7);
+  const [maxUses, setMaxUses] = useState(0);
+  const [isWorking, setIsWorking] = useState(false);
+  const [actionError, setActionError] = useState<"none" | "forbidden" | "network">("none");
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [qrInviteId, setQrInviteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    void (async () => {
+      const listed = await listInvites(groupId);
+      if (!alive) return;
+      setInvites(listed.invites);
+      setActionError(listed.error);
+      setIsLoading(false);
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [groupId]);
+
+  async function onCreate() {
+    if (isWorking) return;
+    setIsWorking(true);
+    setActionError("none");
+    try {
+      const created = await createInvite(groupId, { role, expiresInHours, maxUses });
+      if (!created.invite) {
+        setActionError(created.error === "none" ? "network" : created.error);
+        return;
+      }
+      const invite = created.invite;
+      setInvites((current) => [invite, ...current]);
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  async function onRevoke(invite: GroupInvite) {
+    if (isWorking) return;
+    if (!window.confirm(`Revoke invite ${invite.code}? People who already joined stay in the group.`)) return;
+    setIsWorking(true);
+    setActionError("none");
+    try {
+      const revoked = await revokeInvite(groupId, invite.id);
+      if (revoked.error !== "none") {
+        setActionError(revoked.error);
+        return;
+      }
+      const revokedAt = new Date().toISOString();
+      setInvites((current) => current.map((item) => (item.id === invite.id ? { ...item, revokedAt } : item)));
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  async function onCopy(invite: GroupInvite) {
+    await navigator.clipboard.writeText(buildInviteLink(window.location.origin, groupId, invite.code));
+    setCopiedId(invite.id);
+  }
+
+  return (
+    <Card>
+      <CardTitle>Invite codes</CardTitle>
+      <div className="mt-2">
+        <Muted>Each code can expire, stop after a number of uses and make new members co-hosts.</Muted>
+      </div>
+
+      <div className="mt-3 grid gap-2 sm:grid-cols-3">
+        <select
+          aria-label="Invite expiry"
+          value={expiresInHours}
+          onChange={(event) => setExpiresInHours(Number(event.target.value))}
+          disabled={isWorking}
+          className={SELECT_CLASS}
+        >
+          {INVITE_EXPIRY_OPTIONS.map((opt) => (
+            <option key={opt.value} value={opt.value} className="bg-[rgb(var(--card-2))] text-white">
+              {opt.label}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Invite uses"
+          value={maxUses}
+          onChange={(event) => setMaxUses(Number(event.target.value))}
+          disabled={isWorking}
+          className={SELECT_CLASS}
+        >
+          {INVITE_MAX_USES_OPTIONS.map((opt) => (
+            <option key={opt.value} value={opt.value} className="bg-[rgb(var(--card-2))] text-white">
+              {opt.label}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Invite role"
+          value={role}
+          onChange={(event) => setRole(event.target.value === "co_host" ? "co_host" : "member")}
+          disabled={isWorking}
+          className={SELECT_CLASS}
+        >
+          <option value="member" className="bg-[rgb(var(--card-2))] text-white">
+            Joins as member
+          </option>
+          <option value="co_host" className="bg-[rgb(var(--card-2))] text-white">
+            Joins as co-host
+          </option>
+        </select>
+      </div>
+      <div className="mt-3">
+        <Button onClick={() => void onCreate()} disabled={isWorking}>
+          Create invite code
+        </Button>
+      </div>
+
+      {actionError !== "none" ? (
+        <div className="mt-3 rounded-xl border border-red-400/30 bg-red-500/10 p-3 text-sm text-red-100">
+          {actionError === "forbidden"
+            ? "Only the host can manage invite codes."
+            : "Could not reach the server. Try again."}
+        </div>
+      ) : null}
+
+      <div className="mt-4 space-y-2">
+        {isLoading ? (
+          <div className="h-16 animate-pulse rounded-xl bg-white/10" />
+        ) : invites.length === 0 ? (
+          <Muted>No invite codes yet.</Muted>
+        ) : (
+          invites.map((invite) => {
+            const status = inviteStatus(invite);
+            return (
+              <div key={invite.id} className="rounded-xl border border-white/12 bg-black/28 p-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="font-mono text-sm text-white">{invite.code}</div>
+                  <div className="flex flex-wrap gap-1.5">
+                    <Pill>{STATUS_LABELS[status]}</Pill>
+                    {invite.role === "co_host" ? <Pill>Co-host</Pill> : null}
+                  </div>
+                </div>
+                <div className="mt-1 text-xs text-white/60">
+                  {usageText(invite)}
+                  {invite.expiresAt ? ` • expires ${formatWhen(invite.expiresAt)}` : " • no expiry"}
+                </div>
+                {status === "active" ? (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    <Button variant="secondary" onClick={() => void onCopy(invite)}>
+                      {copiedId === invite.id ? "Copied" : "Copy link"}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      onClick={() => setQrInviteId(qrInviteId === invite.id ? null : invite.id)}
+                      aria-expanded={qrInviteId === invite.id}
+                    >
+                      {qrInviteId === invite.id ? "Hide QR" : "Show QR"}
+                    </Button>
+                    <Button variant="ghost" onClick={() => void onRevoke(invite)} disabled={isWorking}>
+                      Revoke
+                    </Button>
+                  </div>
+                ) : null}
+                {status === "active" && qrInviteId === invite.id ? (
+                  <div className="mt-3">
+                    <QrCode
+                      value={buildInviteLink(window.location.origin, groupId, invite.code)}
+                      label={`QR code for invite ${invite.code}`}
+                    />
+                  </div>
+                ) : null}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { MemberAvatar } from "@/components/MemberAvatar";
+import { Button, Card, CardTitle, Muted } from "@/components/ui";
+import type { Member } from "@/lib/ratings";
+
+function formatRequestedAt(iso: string) {
+  return new Date(iso).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/** People who joined through the open link while approval is required, for the host and co-hosts. */
+export function JoinRequestsCard({
+  requests,
+  reviewingMemberId,
+  error,
+  onReview,
+}: {
+  requests: Member[];
+  reviewingMemberId: string | null;
+  error: "none" | "forbidden" | "network";
+  onReview: (member: Member, approve: boolean) => void;
+}) {
+  return (
+    <Card>
+      <CardTitle>Join requests</CardTitle>
+      <div className="mt-2">
+        <Muted>New people can rate once you let them in.</Muted>
+      </div>
+
+      {error !== "none" ? (
+        <div className="mt-3 rounded-xl border border-red-400/30 bg-red-500/10 p-3 text-sm text-red-100">
+          {error === "forbidden"
+            ? "Only the host or a co-host can answer join requests."
+            : "Could not reach the server. Try again."}
+        </div>
+      ) : null}
+
+      <div className="mt-3 space-y-2">
+        {requests.length === 0 ? (
+          <Muted>No one is waiting.</Muted>
+        ) : (
+          requests.map((member) => (
+            <div
+              key={member.id}
+              className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-white/12 bg-black/28 p-3"
+            >
+              <div className="flex min-w-0 items-center gap-2">
+                <MemberAvatar member={member} />
+                <div className="min-w-0">
+                  <div className="truncate text-sm font-semibold text-white">{member.name}</div>
+                  <div className="mt-0.5 text-xs text-white/60">Asked {formatRequestedAt(member.createdAt)}</div>
+                </div>
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <Button onClick={() => onReview(member, true)} disabled={reviewingMemberId !== null}>
+                  Approve
+                </Button>
+                <Button variant="ghost" onClick={() => onReview(member, false)} disabled={reviewingMemberId !== null}>
+                  Deny
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button, Card, CardTitle, Muted } from "@/components/ui";
+import { listLocalOnlyGroups, migrateLocalGroup, type MigrateLocalGroupResult } from "@/lib/groupStore";
+import type { Group } from "@/lib/storage";
+
+const MIGRATE_ERROR_TEXT: Record<Exclude<MigrateLocalGroupResult["error"], "none">, string> = {
+  not_found: "This group is no longer saved on this device.",
+  auth_failed: "Sign in with a host account to upload groups.",
+  forbidden: "You do not have permission to upload this group.",
+  network: "Could not reach the server. Try again.",
+};
+
+export function LocalGroupMigrationCard({ onMigrated }: { onMigrated: (group: Group) => void }) {
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [movingId, setMovingId] = useState<string | null>(null);
+  const [migrateError, setMigrateError] = useState<MigrateLocalGroupResult["error"]>("none");
+
+  useEffect(() => {
+    let alive = true;
+    void (async () => {
+      const localOnly = await listLocalOnlyGroups();
+      if (alive) setGroups(localOnly);
+    })();
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  async function onMove(group: Group) {
+    if (movingId) return;
+    setMovingId(group.id);
+    setMigrateError("none");
+    try {
+      const result = await migrateLocalGroup(group.id);
+      setMigrateError(result.error);
+      if (result.error === "none" && result.group) {
+        setGroups((current) => current.filter((item) => item.id !== group.id));
+        onMigrated(result.group);
+      }
+    } finally {
+      setMovingId(null);
+    }
+  }
+
+  if (groups.length === 0) return null;
+
+  return (
+    <Card>
+      <CardTitle>Saved only on this device</CardTitle>
+      <div className="mt-2">
+        <Muted>
+          These groups were made offline. Upload them to share the link, with every member, rating and custom list
+          kept.
+        </Muted>
+      </div>
+      <div className="mt-3 space-y-2">
+        {groups.map((group) => (
+          <div key={group.id} className="rounded-xl border border-white/12 bg-black/28 p-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="min-w-0">
+                <div className="truncate text-sm font-semibold text-white">{group.name}</div>
+                <div className="mt-1 text-xs text-white/60">{new Date(group.createdAt).toLocaleDateString()}</div>
+              </div>
+              <Button onClick={() => void onMove(group)} disabled={movingId !== null}>
+                {movingId === group.id ? "Uploading..." : "Upload"}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+      {migrateError !== "none" ? (
+        <div className="mt-3 rounded-xl border border-red-400/30 bg-red-500/10 p-3 text-sm text-red-100">
+          {MIGRATE_ERROR_TEXT[migrateError]}
+        </div>
+      ) : null}
+    </Card>
+  );
+}
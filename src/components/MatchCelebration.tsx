@@ -0,0 +1,179 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { MemberAvatar } from "@/components/MemberAvatar";
+import { PosterImage } from "@/components/PosterImage";
+import { Button } from "@/components/ui";
+import { resolveTitleLanguage } from "@/lib/languageStore";
+import type { GroupMatch } from "@/lib/matchStore";
+import { listGroupMembers } from "@/lib/memberStore";
+import type { Member } from "@/lib/ratings";
+import { getShortlist, type ShortlistItem } from "@/lib/shortlistStore";
+import { getTitleSnapshots } from "@/lib/titleCacheStore";
+
+type MatchTitle = {
+  titleId: string;
+  title: string;
+  year: string | null;
+  posterPath: string | null;
+};
+
+const MAX_MATCH_AVATARS = 8;
+
+const CONFETTI = ["\u{1F389}", "\u{1F37F}", "⭐", "\u{1F3AC}", "✨", "\u{1F38A}"];
+
+function resolveShortlistSnapshotByTitleId(titleId: string, shortlist: ShortlistItem[]) {
+  const direct = shortlist.find((item) => item.title_id === titleId);
+  if (direct) return direct.title_snapshot;
+  if (!titleId.startsWith("sl:")) return null;
+  const idx = Number(titleId.split(":")[1]);
+  if (!Number.isInteger(idx) || idx < 0) return null;
+  return shortlist[idx]?.title_snapshot ?? null;
+}
+
+export function MatchCelebration({
+  groupId,
+  match,
+  onClose,
+  showResultsLink = true,
+}: {
+  groupId: string;
+  match: GroupMatch;
+  onClose: () => void;
+  showResultsLink?: boolean;
+}) {
+  const [loadedTitle, setLoadedTitle] = useState<MatchTitle | null>(null);
+  const title = loadedTitle?.titleId === match.titleId ? loadedTitle : null;
+  const [members, setMembers] = useState<Member[]>([]);
+
+  useEffect(() => {
+    let alive = true;
+
+    (async () => {
+      const snapshots = await getTitleSnapshots([match.titleId], resolveTitleLanguage(groupId));
+      if (!alive) return;
+      const snapshot = snapshots[match.titleId];
+      if (snapshot?.title) {
+        setLoadedTitle({
+          titleId: match.titleId,
+          title: snapshot.title,
+          year: snapshot.year,
+          posterPath: snapshot.poster_path,
+        });
+        return;
+      }
+
+      const shortlist = await getShortlist(groupId);
+      if (!alive) return;
+      const fromShortlist = resolveShortlistSnapshotByTitleId(match.titleId, shortlist);
+      if (fromShortlist) {
+        setLoadedTitle({
+          titleId: match.titleId,
+          title: fromShortlist.title,
+          year: fromShortlist.year,
+          posterPath: fromShortlist.poster_path,
+        });
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [groupId, match.titleId]);
+
+  useEffect(() => {
+    let alive = true;
+
+    (async () => {
+      const listed = await listGroupMembers(groupId);
+      if (!alive) return;
+      setMembers(listed.members);
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [groupId]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  const posterUrl = title?.posterPath ? `https://image.tmdb.org/t/p/w342${title.posterPath}` : null;
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="match-celebration-title"
+      className="fixed inset-0 z-[60] flex items-center justify-center overflow-hidden bg-black/75 px-4 backdrop-blur-md"
+    >
+      <div aria-hidden="true" className="pointer-events-none absolute inset-0">
+        {Array.from({ length: 18 }, (_, index) => (
+          <span
+            key={index}
+            className="cam-confetti absolute top-0 text-2xl"
+            style={{
+              left: `${(index * 37) % 100}%`,
+              animationDuration: `${3.2 + (index % 5) * 0.6}s`,
+              animationDelay: `${(index % 6) * -0.7}s`,
+            }}
+          >
+            {CONFETTI[index % CONFETTI.length]}
+          </span>
+        ))}
+      </div>
+
+      <div className="cam-match-pop cam-soft-surface relative w-full max-w-sm rounded-3xl border border-[rgb(var(--yellow))]/40 p-6 text-center shadow-[0_24px_60px_rgba(0,0,0,0.55)]">
+        <div className="text-xs font-semibold uppercase tracking-[0.2em] text-[rgb(var(--yellow))]">
+          Match found
+        </div>
+        <h2 id="match-celebration-title" className="mt-2 text-3xl font-bold tracking-tight text-white">
+          It&apos;s a match!
+        </h2>
+
+        <PosterImage
+          src={posterUrl}
+          alt={title?.title ?? "Matched title"}
+          className="mx-auto mt-5 w-40"
+          roundedClassName="rounded-xl"
+        />
+
+        <div className="mt-4 text-lg font-semibold text-white">{title?.title ?? "Loading title..."}</div>
+        {title?.year ? <div className="text-sm text-white/60">{title.year}</div> : null}
+        <div className="mt-3 text-sm text-white/72">
+          All {match.memberCount} members rated this {match.threshold}
+          <span className="text-[rgb(var(--yellow))]">{"★"}</span> or higher.
+        </div>
+        {members.length > 0 ? (
+          <div className="mt-3 flex justify-center -space-x-2">
+            {members.slice(0, MAX_MATCH_AVATARS).map((member) => (
+              <MemberAvatar key={member.id} member={member} className="ring-2 ring-black/60" />
+            ))}
+            {members.length > MAX_MATCH_AVATARS ? (
+              <span className="inline-flex h-9 w-9 items-center justify-center rounded-full border border-white/20 bg-black/60 text-xs font-semibold text-white/80 ring-2 ring-black/60">
+                +{members.length - MAX_MATCH_AVATARS}
+              </span>
+            ) : null}
+          </div>
+        ) : null}
+
+        <div className="mt-6 grid gap-2">
+          {showResultsLink ? (
+            <Link href={`/g/${groupId}/results`} onClick={onClose}>
+              <Button className="w-full">See results</Button>
+            </Link>
+          ) : null}
+          <Button variant={showResultsLink ? "ghost" : "primary"} onClick={onClose}>
+            {showResultsLink ? "Keep going" : "Nice!"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import Image from "next/image";
+import { resolveAvatar } from "@/lib/memberAvatars";
+import type { Member } from "@/lib/ratings";
+
+const SIZE_CLASSES = {
+  sm: "h-6 w-6 text-xs",
+  md: "h-9 w-9 text-base",
+  lg: "h-16 w-16 text-3xl",
+} as const;
+
+const SIZE_PIXELS = { sm: 24, md: 36, lg: 64 } as const;
+
+export function MemberAvatar({
+  member,
+  size = "md",
+  className = "",
+}: {
+  member: Pick<Member, "id" | "name" | "avatar">;
+  size?: keyof typeof SIZE_CLASSES;
+  className?: string;
+}) {
+  const avatar = resolveAvatar(member);
+  const initial = member.name.trim().charAt(0).toUpperCase() || "?";
+
+  return (
+    <span
+      className={[
+        "relative inline-flex shrink-0 items-center justify-center overflow-hidden rounded-full border border-white/20 font-semibold text-white",
+        SIZE_CLASSES[size],
+        className,
+      ].join(" ")}
+      style={{ backgroundColor: avatar.color }}
+      title={member.name}
+      aria-hidden="true"
+    >
+      {avatar.imageUrl ? (
+        <Image
+          src={avatar.imageUrl}
+          alt=""
+          width={SIZE_PIXELS[size]}
+          height={SIZE_PIXELS[size]}
+          unoptimized
+          className="h-full w-full object-cover"
+        />
+      ) : (
+        <span className="leading-none">{avatar.emoji ?? initial}</span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,190 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { MemberAvatar } from "@/components/MemberAvatar";
+import { Button, Card, CardTitle, Input, Muted } from "@/components/ui";
+import {
+  AVATAR_COLORS,
+  AVATAR_EMOJI,
+  MAX_MEMBER_NAME_LENGTH,
+  resolveAvatar,
+} from "@/lib/memberAvatars";
+import { updateGroupMemberProfile, uploadMemberAvatarImage } from "@/lib/memberStore";
+import type { Member, MemberAvatar as MemberAvatarValue } from "@/lib/ratings";
+
+type ProfileError = "none" | "invalid_name" | "unreadable" | "forbidden" | "network";
+
+const ERROR_MESSAGES: Record<Exclude<ProfileError, "none">, string> = {
+  invalid_name: `Pick a name between 1 and ${MAX_MEMBER_NAME_LENGTH} characters.`,
+  unreadable: "That picture could not be read. Try a JPEG or PNG.",
+  forbidden: "Only active members can change their profile here.",
+  network: "Could not reach the server. Try again.",
+};
+
+/** Your name and avatar inside this group. Other groups keep their own. */
+export function MemberProfileCard({
+  groupId,
+  member,
+  onSaved,
+}: {
+  groupId: string;
+  member: Member;
+  onSaved: (member: Member) => void;
+}) {
+  const [name, setName] = useState(member.name);
+  const [avatar, setAvatar] = useState<MemberAvatarValue>(() => resolveAvatar(member));
+  const [savedImageUrl, setSavedImageUrl] = useState<string | null>(member.avatar?.imageUrl ?? null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<ProfileError>("none");
+  const [savedNotice, setSavedNotice] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const preview = { id: member.id, name: name.trim() || member.name, avatar };
+
+  function updateAvatar(next: Partial<MemberAvatarValue>) {
+    setAvatar((current) => ({ ...current, ...next }));
+    setSavedNotice(false);
+  }
+
+  async function onPickImage(file: File | undefined) {
+    if (!file) return;
+    setIsUploading(true);
+    setError("none");
+    const unsavedUpload = avatar.imageUrl !== savedImageUrl ? avatar.imageUrl : null;
+    const uploaded = await uploadMemberAvatarImage(groupId, member.id, file, unsavedUpload);
+    setIsUploading(false);
+    if (uploaded.error !== "none" || !uploaded.imageUrl) {
+      setError(uploaded.error === "none" ? "network" : uploaded.error);
+      return;
+    }
+    updateAvatar({ imageUrl: uploaded.imageUrl });
+  }
+
+  async function onSave() {
+    setIsSaving(true);
+    setError("none");
+    const saved = await updateGroupMemberProfile(groupId, member.id, { name, avatar }, savedImageUrl);
+    setIsSaving(false);
+    if (saved.error !== "none" || !saved.member) {
+      setError(saved.error === "none" ? "network" : saved.error);
+      return;
+    }
+    setName(saved.member.name);
+    setSavedImageUrl(saved.member.avatar?.imageUrl ?? null);
+    setSavedNotice(true);
+    onSaved(saved.member);
+  }
+
+  return (
+    <Card>
+      <CardTitle>Your profile</CardTitle>
+      <div className="mt-2">
+        <Muted>How you show up to everyone in this group.</Muted>
+      </div>
+
+      <div className="mt-4 flex items-center gap-4">
+        <MemberAvatar member={preview} size="lg" />
+        <div className="min-w-0 flex-1">
+          <label className="text-sm text-white/70" htmlFor="member-profile-name">
+            Name
+          </label>
+          <div className="mt-1">
+            <Input
+              id="member-profile-name"
+              value={name}
+              maxLength={MAX_MEMBER_NAME_LENGTH}
+              onChange={(event) => {
+                setName(event.target.value);
+                setSavedNotice(false);
+              }}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-4">
+        <div className="text-sm text-white/70">Emoji</div>
+        <div className="mt-2 flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => updateAvatar({ emoji: null })}
+            className={[
+              "h-9 rounded-full border px-3 text-xs font-semibold",
+              avatar.emoji === null ? "border-white bg-white/15 text-white" : "border-white/15 text-white/70",
+            ].join(" ")}
+          >
+            Initial
+          </button>
+          {AVATAR_EMOJI.map((emoji) => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() => updateAvatar({ emoji })}
+              aria-label={`Use ${emoji}`}
+              className={[
+                "h-9 w-9 rounded-full border text-lg",
+                avatar.emoji === emoji ? "border-white bg-white/15" : "border-white/15",
+              ].join(" ")}
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-4">
+        <div className="text-sm text-white/70">Colour</div>
+        <div className="mt-2 flex flex-wrap gap-2">
+          {AVATAR_COLORS.map((color) => (
+            <button
+              key={color}
+              type="button"
+              onClick={() => updateAvatar({ color })}
+              aria-label={`Use colour ${color}`}
+              className={[
+                "h-8 w-8 rounded-full border-2",
+                avatar.color === color ? "border-white" : "border-transparent",
+              ].join(" ")}
+              style={{ backgroundColor: color }}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/jpeg,image/png,image/webp"
+          className="hidden"
+          onChange={(event) => {
+            void onPickImage(event.target.files?.[0]);
+            event.target.value = "";
+          }}
+        />
+        <Button variant="secondary" onClick={() => fileInputRef.current?.click()} disabled={isUploading}>
+          {isUploading ? "Uploading..." : avatar.imageUrl ? "Change photo" : "Upload photo"}
+        </Button>
+        {avatar.imageUrl ? (
+          <Button variant="ghost" onClick={() => updateAvatar({ imageUrl: null })} disabled={isUploading}>
+            Remove photo
+          </Button>
+        ) : null}
+      </div>
+
+      {error !== "none" ? (
+        <div className="mt-3 rounded-xl border border-red-400/30 bg-red-500/10 p-3 text-sm text-red-100">
+          {ERROR_MESSAGES[error]}
+        </div>
+      ) : null}
+
+      <div className="mt-4 flex items-center gap-3">
+        <Button onClick={() => void onSave()} disabled={isSaving || isUploading}>
+          {isSaving ? "Saving..." : "Save profile"}
+        </Button>
+        {savedNotice ? <span className="text-sm text-white/70">Saved.</span> : null}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { useMemo } from "react";
+import { encodeQrCode } from "@/lib/qrCode";
+
+const QUIET_ZONE = 4;
+
+/** Scannable QR code for a link, drawn as an SVG on a white card so phones can read it off a TV. */
+export function QrCode({ value, label, className }: { value: string; label: string; className?: string }) {
+  const matrix = useMemo(() => (value ? encodeQrCode(value) : null), [value]);
+
+  const path = useMemo(() => {
+    if (!matrix) return "";
+    const parts: string[] = [];
+    matrix.modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) parts.push(`M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`);
+      });
+    });
+    return parts.join("");
+  }, [matrix]);
+
+  if (!matrix) return null;
+
+  const viewSize = matrix.size + QUIET_ZONE * 2;
+  return (
+    <svg
+      role="img"
+      aria-label={label}
+      viewBox={`0 0 ${viewSize} ${viewSize}`}
+      shapeRendering="crispEdges"
+      className={["rounded-xl bg-white", className ?? "w-48"].join(" ")}
+    >
+      <path d={path} fill="#000" />
+    </svg>
+  );
+}
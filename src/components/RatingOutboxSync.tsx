@@ -0,0 +1,12 @@
+"use client";
+
+import { useEffect } from "react";
+import { startRatingOutboxSync } from "@/lib/ratingOutbox";
+
+export function RatingOutboxSync() {
+  useEffect(() => {
+    startRatingOutboxSync();
+  }, []);
+
+  return null;
+}
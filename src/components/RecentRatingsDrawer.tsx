@@ -0,0 +1,217 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { PosterImage } from "@/components/PosterImage";
+import { StarRating } from "@/components/StarRating";
+import { Button, Card, CardTitle, Muted, Pill } from "@/components/ui";
+import { clearRating, getRecentRatings, setRating, type RecentRating } from "@/lib/ratingStore";
+import { VETO_RATING, type RatingValue } from "@/lib/ratings";
+import { getTitleSnapshots, type TitleSnapshot } from "@/lib/titleCacheStore";
+import type { TitleLanguage } from "@/lib/titleLanguages";
+import { parseTmdbTitleKey } from "@/lib/tmdbTitleKey";
+
+const RECENT_RATINGS_LIMIT = 50;
+
+export type RecentRatingTitle = {
+  name: string;
+  year?: string;
+  posterPath?: string | null;
+};
+
+type TitleDisplay = {
+  title: string;
+  year: string | null;
+  posterPath: string | null;
+};
+
+function ratingLabel(rating: RatingValue) {
+  if (rating === VETO_RATING) return "Vetoed";
+  if (rating === 0) return "Skipped";
+  return `${rating}\u2605`;
+}
+
+function resolveTitleDisplay(
+  titleId: string,
+  snapshot: Pick<TitleSnapshot, "title" | "year" | "poster_path"> | undefined,
+  known: RecentRatingTitle | undefined
+): TitleDisplay {
+  if (snapshot?.title?.trim()) {
+    return { title: snapshot.title, year: snapshot.year ?? null, posterPath: snapshot.poster_path ?? null };
+  }
+  if (known) return { title: known.name, year: known.year ?? null, posterPath: known.posterPath ?? null };
+  return { title: parseTmdbTitleKey(titleId) ? "Loading title details..." : titleId, year: null, posterPath: null };
+}
+
+/**
+ * The member's ratings, newest first, on the rate page. Tapping one opens it
+ * with its current stars so it can be changed or cleared without leaving the queue.
+ */
+export function RecentRatingsDrawer({
+  groupId,
+  memberId,
+  language,
+  vetoBudget,
+  vetoesUsed,
+  disabled,
+  refreshKey,
+  knownTitles,
+  onChanged,
+}: {
+  groupId: string;
+  memberId: string;
+  language: TitleLanguage;
+  vetoBudget: number;
+  vetoesUsed: number;
+  disabled: boolean;
+  refreshKey: number;
+  knownTitles: Record<string, RecentRatingTitle>;
+  onChanged: (titleId: string, value: RatingValue | null) => void;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [items, setItems] = useState<RecentRating[]>([]);
+  const [snapshots, setSnapshots] = useState<Record<string, TitleSnapshot>>({});
+  const [selectedTitleId, setSelectedTitleId] = useState<string | null>(null);
+  const [readError, setReadError] = useState<"none" | "network">("none");
+
+  useEffect(() => {
+    let alive = true;
+    void (async () => {
+      const recent = await getRecentRatings(groupId, memberId);
+      if (!alive) return;
+      setItems(recent.ratings.slice(0, RECENT_RATINGS_LIMIT));
+      setReadError(recent.error);
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [groupId, memberId, refreshKey]);
+
+  const tmdbTitleIds = useMemo(
+    () => items.map((item) => item.titleId).filter((titleId) => parseTmdbTitleKey(titleId)),
+    [items]
+  );
+
+  useEffect(() => {
+    if (!isOpen || tmdbTitleIds.length === 0) return;
+    let alive = true;
+    void (async () => {
+      try {
+        const cached = await getTitleSnapshots(tmdbTitleIds, language);
+        if (alive) setSnapshots(cached);
+      } catch {
+        // names fall back to what the page already knows
+      }
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [isOpen, tmdbTitleIds, language]);
+
+  const vetoesLeft = Math.max(0, vetoBudget - vetoesUsed);
+
+  function onRerate(titleId: string, value: RatingValue) {
+    const current = items.find((item) => item.titleId === titleId);
+    if (disabled || !current || current.rating === value) return;
+    if (value === VETO_RATING && vetoesLeft <= 0) return;
+    setItems((prev) => [
+      { titleId, rating: value, ratedAt: new Date().toISOString() },
+      ...prev.filter((item) => item.titleId !== titleId),
+    ]);
+    void setRating(groupId, memberId, titleId, value);
+    onChanged(titleId, value);
+  }
+
+  function onClear(titleId: string) {
+    if (disabled) return;
+    setItems((prev) => prev.filter((item) => item.titleId !== titleId));
+    setSelectedTitleId(null);
+    void clearRating(groupId, memberId, titleId);
+    onChanged(titleId, null);
+  }
+
+  return (
+    <Card>
+      <div className="flex items-center justify-between gap-3">
+        <CardTitle>Recently rated</CardTitle>
+        <Button variant="ghost" onClick={() => setIsOpen((open) => !open)} aria-expanded={isOpen}>
+          {isOpen ? "Hide" : `Show (${items.length})`}
+        </Button>
+      </div>
+
+      {isOpen ? (
+        <div className="mt-3">
+          {readError === "network" ? (
+            <div className="mb-3 rounded-xl border border-amber-400/30 bg-amber-500/10 p-3 text-sm text-amber-100">
+              Showing ratings saved on this device. Some may be missing until you reconnect.
+            </div>
+          ) : null}
+
+          {items.length === 0 ? (
+            <Muted>Titles you rate will show up here.</Muted>
+          ) : (
+            <div className="max-h-96 space-y-2 overflow-y-auto pr-1">
+              {items.map((item) => {
+                const display = resolveTitleDisplay(item.titleId, snapshots[item.titleId], knownTitles[item.titleId]);
+                const isSelected = selectedTitleId === item.titleId;
+                return (
+                  <div key={item.titleId} className="rounded-xl border border-white/12 bg-black/28 p-3">
+                    <button
+                      type="button"
+                      className="flex w-full items-center gap-3 text-left"
+                      onClick={() => setSelectedTitleId(isSelected ? null : item.titleId)}
+                      aria-expanded={isSelected}
+                    >
+                      <PosterImage
+                        src={display.posterPath ? `https://image.tmdb.org/t/p/w92${display.posterPath}` : null}
+                        alt={display.title}
+                        className="w-10 shrink-0"
+                      />
+                      <div className="min-w-0 flex-1">
+                        <div className="truncate text-sm font-semibold text-white">{display.title}</div>
+                        <div className="mt-0.5 text-xs text-white/60">{display.year ?? "Unknown year"}</div>
+                      </div>
+                      <Pill>{ratingLabel(item.rating)}</Pill>
+                    </button>
+
+                    {isSelected ? (
+                      <div className="mt-3 space-y-3">
+                        <StarRating
+                          value={item.rating > 0 ? item.rating : 0}
+                          onChange={(value) => onRerate(item.titleId, value)}
+                          disabled={disabled}
+                          showLabels={false}
+                          showNumericHint={false}
+                        />
+                        <div className="flex flex-wrap gap-2">
+                          <Button
+                            variant="secondary"
+                            onClick={() => onRerate(item.titleId, 0)}
+                            disabled={disabled || item.rating === 0}
+                          >
+                            Skip
+                          </Button>
+                          {vetoBudget > 0 ? (
+                            <Button
+                              variant="ghost"
+                              onClick={() => onRerate(item.titleId, VETO_RATING)}
+                              disabled={disabled || item.rating === VETO_RATING || vetoesLeft === 0}
+                            >
+                              {item.rating === VETO_RATING ? "Vetoed" : `Veto (${vetoesLeft} left)`}
+                            </Button>
+                          ) : null}
+                          <Button variant="ghost" onClick={() => onClear(item.titleId)} disabled={disabled}>
+                            Clear rating
+                          </Button>
+                        </div>
+                      </div>
+                    ) : null}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      ) : null}
+    </Card>
+  );
+}
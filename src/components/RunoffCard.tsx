@@ -0,0 +1,86 @@
+"use client";
+
+import { useState } from "react";
+import { Button, Card, CardTitle, Muted } from "@/components/ui";
+import {
+  DEFAULT_RUNOFF_SIZE,
+  RUNOFF_SIZE_OPTIONS,
+  startRunoff,
+  type RunoffError,
+} from "@/lib/runoffStore";
+import type { Group } from "@/lib/storage";
+
+const RUNOFF_ERROR_TEXT: Record<Exclude<RunoffError, "none">, string> = {
+  not_enough_titles: "At least two rated titles are needed for a runoff.",
+  forbidden: "Only the host can start a runoff.",
+  session_closed: "Voting is closed. Reopen it first.",
+  invalid_deadline: "Could not start the runoff. Try again.",
+  network: "Could not reach the server. Try again.",
+};
+
+export function RunoffCard({
+  group,
+  rankedCount,
+  onStarted,
+}: {
+  group: Group;
+  rankedCount: number;
+  onStarted: (group: Group) => void;
+}) {
+  const [size, setSize] = useState<number>(DEFAULT_RUNOFF_SIZE);
+  const [isStarting, setIsStarting] = useState(false);
+  const [runoffError, setRunoffError] = useState<RunoffError>("none");
+  const finalistCount = Math.min(size, rankedCount);
+
+  async function onStart() {
+    if (isStarting || finalistCount < 2) return;
+    const confirmed = window.confirm(
+      `Start a runoff with the top ${finalistCount}? This round is archived, everyone's ratings are cleared and the group votes again on only these finalists.`
+    );
+    if (!confirmed) return;
+
+    setIsStarting(true);
+    setRunoffError("none");
+    try {
+      const result = await startRunoff(group, size);
+      setRunoffError(result.error);
+      if (result.error === "none" && result.group) onStarted(result.group);
+    } finally {
+      setIsStarting(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardTitle>Runoff</CardTitle>
+      <div className="mt-2">
+        <Muted>Send the top titles to a second round. The group rates only the finalists.</Muted>
+      </div>
+      <div className="mt-4 flex flex-wrap items-end gap-3">
+        <div className="space-y-2">
+          <div className="text-xs text-white/60">Finalists</div>
+          <div className="flex flex-wrap gap-2">
+            {RUNOFF_SIZE_OPTIONS.map((option) => (
+              <Button
+                key={option}
+                variant={size === option ? "primary" : "secondary"}
+                onClick={() => setSize(option)}
+                disabled={isStarting}
+              >
+                Top {option}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <Button onClick={() => void onStart()} disabled={isStarting || finalistCount < 2}>
+          {isStarting ? "Starting..." : "Start runoff"}
+        </Button>
+      </div>
+      {runoffError !== "none" ? (
+        <div className="mt-3 rounded-xl border border-red-400/30 bg-red-500/10 p-3 text-sm text-red-100">
+          {RUNOFF_ERROR_TEXT[runoffError]}
+        </div>
+      ) : null}
+    </Card>
+  );
+}
@@ -1,18 +1,27 @@
 "use client";
 
+import { usePendingRatings } from "@/components/usePendingRatings";
 import { useStorageStatus } from "@/components/useStorageStatus";
 import { hasGroupsSchemaMismatch } from "@/lib/groupStore";
 
-export function StorageModeBanner() {
-  const { isOffline } = useStorageStatus();
+export function StorageModeBanner({ groupId }: { groupId?: string }) {
+  const { isOffline, configured } = useStorageStatus();
+  const pendingRatings = usePendingRatings(groupId);
   const hasSchemaMismatch = hasGroupsSchemaMismatch();
-  if (!isOffline && !hasSchemaMismatch) return null;
+  const hasPending = configured && pendingRatings > 0;
+  if (!isOffline && !hasSchemaMismatch && !hasPending) return null;
+
+  const pendingText = `${pendingRatings} ${pendingRatings === 1 ? "rating" : "ratings"} waiting to sync.`;
 
   return (
     <div className="rounded-xl border border-white/12 bg-black/28 p-3 text-sm text-white/70 shadow-[0_8px_20px_rgba(0,0,0,0.24)]">
       {hasSchemaMismatch
         ? "Database schema mismatch: check groups columns."
-        : "Offline mode: saving on this device only."}
+        : hasPending
+          ? isOffline
+            ? `Offline: ${pendingText} They will be sent when you reconnect.`
+            : pendingText
+          : "Offline mode: saving on this device only."}
     </div>
   );
 }
@@ -0,0 +1,115 @@
+"use client";
+
+import { useMemo } from "react";
+import { MemberAvatar } from "@/components/MemberAvatar";
+import { Card, CardTitle, Muted } from "@/components/ui";
+import type { Member } from "@/lib/ratings";
+import { computeTasteMatrix, listTastePartners, MIN_TASTE_OVERLAP } from "@/lib/tasteCompatibility";
+
+function similarityText(similarity: number) {
+  return `${Math.round(similarity * 100)}%`;
+}
+
+// Green for agreement, red for disagreement, stronger the further from 0.
+function similarityCellStyle(similarity: number) {
+  const strength = Math.min(1, Math.abs(similarity));
+  const color = similarity >= 0 ? "52, 211, 153" : "248, 113, 113";
+  return { backgroundColor: `rgba(${color}, ${0.12 + strength * 0.5})` };
+}
+
+export function TasteCompatibilityCard({
+  members,
+  perMemberRatings,
+}: {
+  members: Member[];
+  perMemberRatings: Record<string, Record<string, number>>;
+}) {
+  const matrix = useMemo(() => computeTasteMatrix(members, perMemberRatings), [members, perMemberRatings]);
+  const partners = useMemo(() => listTastePartners(matrix), [matrix]);
+
+  if (members.length < 2) return null;
+
+  return (
+    <Card>
+      <CardTitle>Who agrees with whom</CardTitle>
+      <div className="mt-2">
+        <Muted>
+          How closely each pair rates the titles they both rated, from -100% (opposite tastes) to 100% (same tastes).
+          Pairs need at least {MIN_TASTE_OVERLAP} titles in common; n/a means not enough data yet.
+        </Muted>
+      </div>
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="border-separate border-spacing-1 text-xs">
+          <thead>
+            <tr>
+              <th />
+              {members.map((member) => (
+                <th key={member.id} className="max-w-[6rem] truncate px-1 pb-1 text-left font-medium text-white/70">
+                  {member.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {members.map((row) => (
+              <tr key={row.id}>
+                <th className="max-w-[8rem] truncate pr-2 text-left font-medium text-white/70">{row.name}</th>
+                {members.map((column) => {
+                  if (row.id === column.id) {
+                    return <td key={column.id} className="h-10 w-16 rounded-lg bg-white/5" />;
+                  }
+                  const pair = matrix.pairs[row.id]?.[column.id];
+                  const similarity = pair?.similarity ?? null;
+                  return (
+                    <td
+                      key={column.id}
+                      className="h-10 w-16 rounded-lg text-center font-semibold text-white"
+                      style={similarity === null ? undefined : similarityCellStyle(similarity)}
+                      title={
+                        similarity === null
+                          ? `Not enough data: ${pair?.overlap ?? 0} titles in common`
+                          : `${pair?.overlap ?? 0} titles in common`
+                      }
+                    >
+                      {similarity === null ? (
+                        <span className="font-normal text-white/45">n/a</span>
+                      ) : (
+                        similarityText(similarity)
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-4 space-y-2">
+        {partners.map(({ member, mostAligned, leastAligned }) => (
+          <div key={member.id} className="rounded-xl border border-white/12 bg-black/28 p-3">
+            <div className="flex items-center gap-2 text-sm font-semibold text-white">
+              <MemberAvatar member={member} size="sm" />
+              <span className="min-w-0 truncate">{member.name}</span>
+            </div>
+            {mostAligned ? (
+              <div className="mt-1 space-y-0.5 text-xs text-white/70">
+                <div>
+                  Most aligned: {mostAligned.member.name} ({similarityText(mostAligned.similarity)})
+                </div>
+                {leastAligned ? (
+                  <div>
+                    Least aligned: {leastAligned.member.name} ({similarityText(leastAligned.similarity)})
+                  </div>
+                ) : null}
+              </div>
+            ) : (
+              <div className="mt-1 text-xs text-white/60">Not enough data yet.</div>
+            )}
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import { Button, Card, CardTitle, Input, Muted, Pill } from "@/components/ui";
+import {
+  closeGroupSession,
+  isVotingClosed,
+  reopenGroupSession,
+  setSessionDeadline,
+  startNewRound,
+  type GroupSession,
+  type SessionActionError,
+} from "@/lib/sessionStore";
+
+const ACTION_ERROR_TEXT: Record<Exclude<SessionActionError, "none">, string> = {
+  forbidden: "Only the host can change voting.",
+  session_closed: "Voting is already closed. Reopen it first.",
+  invalid_deadline: "Pick a deadline in the future.",
+  network: "Could not reach the server. Try again.",
+};
+
+function formatWhen(iso: string) {
+  return new Date(iso).toLocaleString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export function VotingSessionCard({
+  groupId,
+  session,
+  isHost,
+  isCoHost = false,
+  winnerTitle,
+  onSessionChange,
+  className = "",
+}: {
+  groupId: string;
+  session: GroupSession;
+  isHost: boolean;
+  isCoHost?: boolean;   // co-hosts can end voting; everything else stays with the host
+  winnerTitle: string | null;
+  onSessionChange: (session: GroupSession) => void;
+  className?: string;
+}) {
+  const [deadlineDraft, setDeadlineDraft] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+  const [actionError, setActionError] = useState<SessionActionError>("none");
+  const closed = isVotingClosed(session);
+
+  async function run(action: () => Promise<{ session: GroupSession | null; error: SessionActionError }>) {
+    if (isWorking) return;
+    setIsWorking(true);
+    setActionError("none");
+    try {
+      const result = await action();
+      setActionError(result.error);
+      if (result.error === "none" && result.session) onSessionChange(result.session);
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  function saveDeadline() {
+    const parsed = Date.parse(deadlineDraft);
+    if (!Number.isFinite(parsed)) return;
+    void run(async () => {
+      const result = await setSessionDeadline(groupId, new Date(parsed).toISOString());
+      if (result.error === "none") setDeadlineDraft("");
+      return result;
+    });
+  }
+
+  function endVoting() {
+    if (!window.confirm("End voting now? Ratings will be frozen and the current leader becomes the pick.")) return;
+    void run(() => closeGroupSession(groupId));
+  }
+
+  function startRound() {
+    const confirmed = window.confirm(
+      `Start round ${session.round + 1}? Everyone's ratings are cleared so the group can vote again.`
+    );
+    if (!confirmed) return;
+    void run(() => startNewRound(groupId));
+  }
+
+  return (
+    <Card className={className}>
+      <div className="flex items-center justify-between gap-2">
+        <CardTitle>Voting</CardTitle>
+        <div className="flex items-center gap-2">
+          <Pill>Round {session.round}</Pill>
+          <Pill>{closed ? "Closed" : "Open"}</Pill>
+        </div>
+      </div>
+
+      <div className="mt-3 space-y-3">
+        {closed ? (
+          <div className="rounded-xl border border-[rgb(var(--yellow))]/35 bg-[rgb(var(--yellow))]/10 p-3">
+            <div className="text-xs font-semibold uppercase tracking-wide text-[rgb(var(--yellow))]">Final pick</div>
+            <div className="mt-1 text-base font-semibold text-white">{winnerTitle ?? "No rated titles yet"}</div>
+            <div className="mt-1 text-xs text-white/60">
+              {session.closedAt ? `Voting closed ${formatWhen(session.closedAt)}` : "Voting closed"}
+              {session.closedReason === "deadline" ? " when the deadline passed." : "."}
+            </div>
+          </div>
+        ) : (
+          <Muted>
+            {session.deadlineAt
+              ? `Voting closes ${formatWhen(session.deadlineAt)}.`
+              : "Voting stays open until the host ends it."}
+          </Muted>
+        )}
+
+        {(isHost || isCoHost) && !closed ? (
+          <div className="space-y-2">
+            {isHost ? (
+              <div className="flex flex-col gap-2 sm:flex-row">
+                <Input
+                  type="datetime-local"
+                  aria-label="Voting deadline"
+                  value={deadlineDraft}
+                  onChange={(event) => setDeadlineDraft(event.target.value)}
+                  disabled={isWorking}
+                />
+                <Button variant="secondary" onClick={saveDeadline} disabled={isWorking || !deadlineDraft}>
+                  Set deadline
+                </Button>
+              </div>
+            ) : null}
+            <div className="flex flex-wrap gap-2">
+              {isHost && session.deadlineAt ? (
+                <Button
+                  variant="ghost"
+                  onClick={() => void run(() => setSessionDeadline(groupId, null))}
+                  disabled={isWorking}
+                >
+                  Clear deadline
+                </Button>
+              ) : null}
+              <Button onClick={endVoting} disabled={isWorking}>
+                End voting now
+              </Button>
+            </div>
+          </div>
+        ) : null}
+
+        {isHost && closed ? (
+          <div className="flex flex-wrap gap-2">
+            <Button variant="secondary" onClick={() => void run(() => reopenGroupSession(groupId))} disabled={isWorking}>
+              Reopen voting
+            </Button>
+            <Button onClick={startRound} disabled={isWorking}>
+              Start new round
+            </Button>
+          </div>
+        ) : null}
+
+        {actionError !== "none" ? (
+          <div className="rounded-xl border border-red-400/30 bg-red-500/10 p-3 text-sm text-red-100">
+            {ACTION_ERROR_TEXT[actionError]}
+          </div>
+        ) : null}
+      </div>
+    </Card>
+  );
+}
@@ -96,6 +96,11 @@ export function LandingHeader() {
                   About
                 </Link>
               </li>
+              <li>
+                <Link href="/join" className={navLinkClass}>
+                  Join
+                </Link>
+              </li>
               {isSignedIn ? (
                 <li>
                   <Link href="/groups" className={navLinkClass}>
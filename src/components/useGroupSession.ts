@@ -0,0 +1,50 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { getGroupSession, isVotingClosed, type GroupSession } from "@/lib/sessionStore";
+
+// setTimeout delays above this overflow and fire immediately.
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+
+export function useGroupSession(groupId: string) {
+  const [session, setSession] = useState<GroupSession | null>(null);
+  const [isLoadingSession, setIsLoadingSession] = useState(true);
+
+  const refreshSession = useCallback(async () => {
+    const loaded = await getGroupSession(groupId);
+    if (loaded.session || loaded.error === "none") setSession(loaded.session);
+    setIsLoadingSession(false);
+  }, [groupId]);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      const loaded = await getGroupSession(groupId);
+      if (!alive) return;
+      setSession(loaded.session);
+      setIsLoadingSession(false);
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [groupId]);
+
+  // Re-fetch right after the deadline so the closed session (and its winner)
+  // shows up without a reload.
+  const deadlineAt = session?.status === "open" ? session.deadlineAt : null;
+  useEffect(() => {
+    if (!deadlineAt) return;
+    const delay = Date.parse(deadlineAt) - Date.now();
+    if (!Number.isFinite(delay) || delay > MAX_TIMER_DELAY_MS) return;
+    const timer = window.setTimeout(() => void refreshSession(), Math.max(0, delay) + 500);
+    return () => window.clearTimeout(timer);
+  }, [deadlineAt, refreshSession]);
+
+  return {
+    session,
+    setSession,
+    isLoadingSession,
+    votingClosed: isVotingClosed(session),
+    refreshSession,
+  };
+}
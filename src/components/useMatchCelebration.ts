@@ -0,0 +1,45 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { getGroupMatches, getUnseenMatch, markMatchesSeen, type GroupMatch } from "@/lib/matchStore";
+
+async function loadMatches(groupId: string) {
+  const loaded = await getGroupMatches(groupId);
+  return { matches: loaded.matches, unseen: getUnseenMatch(groupId, loaded.matches) };
+}
+
+export function useMatchCelebration(groupId: string) {
+  const [match, setMatch] = useState<GroupMatch | null>(null);
+  const [matches, setMatches] = useState<GroupMatch[]>([]);
+  const knownMatchIdsRef = useRef<string[]>([]);
+
+  const checkForMatches = useCallback(async () => {
+    const loaded = await loadMatches(groupId);
+    knownMatchIdsRef.current = loaded.matches.map((item) => item.id);
+    setMatches(loaded.matches);
+    setMatch(loaded.unseen);
+  }, [groupId]);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      const loaded = await loadMatches(groupId);
+      if (!alive) return;
+      knownMatchIdsRef.current = loaded.matches.map((item) => item.id);
+      setMatches(loaded.matches);
+      setMatch(loaded.unseen);
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [groupId]);
+
+  // Dismissing celebrates everything we know about, so a backlog of old
+  // matches doesn't pop up one after another.
+  const dismiss = useCallback(() => {
+    markMatchesSeen(groupId, knownMatchIdsRef.current);
+    setMatch(null);
+  }, [groupId]);
+
+  return { match, matches, checkForMatches, dismiss };
+}
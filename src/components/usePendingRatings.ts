@@ -0,0 +1,13 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { countPendingRatings, subscribeRatingOutbox } from "@/lib/ratingOutbox";
+
+/** Ratings on this device still waiting to reach Supabase. */
+export function usePendingRatings(groupId?: string) {
+  return useSyncExternalStore(
+    subscribeRatingOutbox,
+    () => countPendingRatings(groupId),
+    () => 0
+  );
+}
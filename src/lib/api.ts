@@ -12,6 +12,8 @@ import {
   toUnknownDbError,
   type DbError,
 } from "@/lib/dbDebug";
+import { MEMBER_AVATAR_BUCKET } from "@/lib/memberAvatars";
+import type { MemberAvatar } from "@/lib/ratings";
 import { getEndlessSettings, type EndlessSettings } from "@/lib/storage";
 
 export type { DbError } from "@/lib/dbDebug";
@@ -47,6 +49,8 @@ export type MemberRow = {
   created_at: string;
   user_id: string | null;
   role: string;
+  status: string;
+  avatar?: Record<string, unknown> | null;
 };
 
 export type RatingRow = {
@@ -63,6 +67,46 @@ export type GroupTopTitleRow = {
   total_stars?: number | string | null;
   avg_rating: number | string;
   rating_count: number;
+  score?: number | string | null;
+  updated_at: string;
+};
+
+export type GroupMatchRow = {
+  id: string;
+  group_id: string;
+  title_id: string;
+  threshold: number;
+  member_count: number;
+  matched_at: string;
+};
+
+export type GroupSessionRow = {
+  id: string;
+  group_id: string;
+  round: number;
+  status: "open" | "closed";
+  deadline_at: string | null;
+  opened_at: string;
+  closed_at: string | null;
+  closed_reason: "host" | "deadline" | null;
+  winner_title_id: string | null;
+  snapshot: GroupTopTitleRow[] | null;
+};
+
+export type GroupQueueRow = {
+  title_id: string;
+  item: Record<string, unknown>;
+  position: number;
+  others_total_stars?: number | string | null;
+  others_votes?: number | null;
+};
+
+export type MemberQueueStateRow = {
+  group_id: string;
+  member_id: string;
+  upcoming: unknown[];
+  seen_title_ids: string[];
+  discover_state: Record<string, unknown> | null;
   updated_at: string;
 };
 
@@ -74,8 +118,21 @@ export type GroupCustomListRow = {
   created_at: string;
 };
 
+export type GroupInviteRow = {
+  id: string;
+  group_id: string;
+  code: string;
+  role: string;
+  created_at: string;
+  expires_at: string | null;
+  max_uses: number;
+  used_count: number;
+  revoked_at: string | null;
+};
+
 export type TitleCacheRow = {
   title_id: string;
+  language: string;
   snapshot: Record<string, unknown>;
   updated_at: string;
 };
@@ -132,6 +189,12 @@ function isMissingTotalStarsColumnError(error: DbError | null | undefined) {
   return text.includes("total_stars") && text.includes("column");
 }
 
+function isMissingScoreColumnError(error: DbError | null | undefined) {
+  if (!error) return false;
+  const text = `${error.code ?? ""} ${error.message ?? ""} ${error.details ?? ""}`.toLowerCase();
+  return text.includes("score") && text.includes("column");
+}
+
 async function runDbCall<T>(
   context: DbCallContext,
   fn: () => unknown
@@ -428,8 +491,26 @@ export async function listMembers(groupId: string): Promise<DbResult<MemberRow[]
     () =>
       supabase!
         .from("members")
-        .select("id, group_id, name, created_at, user_id, role")
+        .select("id, group_id, name, created_at, user_id, role, status, avatar")
+        .eq("group_id", groupId)
+        .eq("status", "active")
+        .order("created_at", { ascending: true })
+  );
+}
+
+export async function listPendingMembers(groupId: string): Promise<DbResult<MemberRow[]>> {
+  return runDbCall<MemberRow[]>(
+    {
+      operation: "listPendingMembers",
+      table: "members",
+      payload: { groupId },
+    },
+    () =>
+      supabase!
+        .from("members")
+        .select("id, group_id, name, created_at, user_id, role, status, avatar")
         .eq("group_id", groupId)
+        .eq("status", "pending")
         .order("created_at", { ascending: true })
   );
 }
@@ -450,7 +531,7 @@ export async function getMemberForCurrentUserInGroup(groupId: string): Promise<D
     () =>
       supabase!
         .from("members")
-        .select("id, group_id, name, created_at, user_id, role")
+        .select("id, group_id, name, created_at, user_id, role, status, avatar")
         .eq("group_id", groupId)
         .eq("user_id", userId)
         .maybeSingle()
@@ -499,6 +580,120 @@ export async function removeMember(groupId: string, memberId: string): Promise<D
   );
 }
 
+export async function setMemberRole(
+  groupId: string,
+  memberId: string,
+  role: "co_host" | "member"
+): Promise<DbResult<MemberRow>> {
+  const updated = await runDbCall<MemberRow | MemberRow[]>(
+    {
+      operation: "setMemberRole",
+      rpc: "set_member_role",
+      payload: { groupId, memberId, role },
+    },
+    () =>
+      supabase!.rpc("set_member_role", {
+        p_group_id: groupId,
+        p_member_id: memberId,
+        p_role: role,
+      })
+  );
+
+  if (updated.error || !updated.data) {
+    return { data: null, error: updated.error, status: updated.status };
+  }
+
+  const member = Array.isArray(updated.data) ? updated.data[0] : updated.data;
+  return { data: member ?? null, error: null, status: updated.status };
+}
+
+export async function approveMember(groupId: string, memberId: string): Promise<DbResult<MemberRow>> {
+  const approved = await runDbCall<MemberRow | MemberRow[]>(
+    {
+      operation: "approveMember",
+      rpc: "approve_group_member",
+      payload: { groupId, memberId },
+    },
+    () =>
+      supabase!.rpc("approve_group_member", {
+        p_group_id: groupId,
+        p_member_id: memberId,
+      })
+  );
+
+  if (approved.error || !approved.data) {
+    return { data: null, error: approved.error, status: approved.status };
+  }
+
+  const member = Array.isArray(approved.data) ? approved.data[0] : approved.data;
+  return { data: member ?? null, error: null, status: approved.status };
+}
+
+export async function updateMemberProfile(
+  groupId: string,
+  name: string,
+  avatar: MemberAvatar | null
+): Promise<DbResult<MemberRow>> {
+  const updated = await runDbCall<MemberRow | MemberRow[]>(
+    {
+      operation: "updateMemberProfile",
+      rpc: "update_member_profile",
+      payload: { groupId, name, avatar },
+    },
+    () =>
+      supabase!.rpc("update_member_profile", {
+        p_group_id: groupId,
+        p_name: name,
+        p_avatar: avatar,
+      })
+  );
+
+  if (updated.error || !updated.data) {
+    return { data: null, error: updated.error, status: updated.status };
+  }
+
+  const member = Array.isArray(updated.data) ? updated.data[0] : updated.data;
+  return { data: member ?? null, error: null, status: updated.status };
+}
+
+export async function uploadMemberAvatar(
+  groupId: string,
+  memberId: string,
+  image: Blob
+): Promise<DbResult<string>> {
+  const path = `${groupId}/${memberId}/${Date.now()}.jpg`;
+  const uploaded = await runDbCall<{ path: string }>(
+    {
+      operation: "uploadMemberAvatar",
+      table: `storage:${MEMBER_AVATAR_BUCKET}`,
+      payload: { groupId, memberId, path },
+    },
+    () =>
+      supabase!.storage.from(MEMBER_AVATAR_BUCKET).upload(path, image, {
+        contentType: "image/jpeg",
+        upsert: false,
+      })
+  );
+
+  if (uploaded.error || !uploaded.data) {
+    return { data: null, error: uploaded.error, status: uploaded.status };
+  }
+
+  const { data } = supabase!.storage.from(MEMBER_AVATAR_BUCKET).getPublicUrl(uploaded.data.path);
+  return { data: data.publicUrl, error: null, status: uploaded.status };
+}
+
+export async function removeMemberAvatar(path: string): Promise<DbResult<unknown>> {
+  return runDbCall<unknown>(
+    {
+      operation: "removeMemberAvatar",
+      table: `storage:${MEMBER_AVATAR_BUCKET}`,
+      payload: { path },
+    },
+    () => supabase!.storage.from(MEMBER_AVATAR_BUCKET).remove([path])
+  );
+}
+
 export async function leaveGroup(groupId: string): Promise<DbResult<null>> {
   const userId = await ensureAuth();
   if (!userId) {
@@ -535,28 +730,158 @@ export async function deleteGroup(groupId: string): Promise<DbResult<null>> {
   );
 }
 
-export async function upsertRating(
+export async function listGroupInvites(groupId: string): Promise<DbResult<GroupInviteRow[]>> {
+  return runDbCall<GroupInviteRow[]>(
+    {
+      operation: "listGroupInvites",
+      table: "group_invites",
+      payload: { groupId },
+    },
+    () =>
+      supabase!
+        .from("group_invites")
+        .select("id, group_id, code, role, created_at, expires_at, max_uses, used_count, revoked_at")
+        .eq("group_id", groupId)
+        .order("created_at", { ascending: false })
+  );
+}
+
+export async function createGroupInvite(
+  groupId: string,
+  invite: { code: string; role: string; expiresAt: string | null; maxUses: number }
+): Promise<DbResult<GroupInviteRow>> {
+  const userId = await ensureAuth();
+  if (!userId) {
+    logDbError({ operation: "createGroupInvite", table: "group_invites" }, AUTH_REQUIRED_ERROR);
+    return { data: null, error: AUTH_REQUIRED_ERROR, status: null };
+  }
+
+  return runDbCall<GroupInviteRow>(
+    {
+      operation: "createGroupInvite",
+      table: "group_invites",
+      payload: { groupId, ...invite },
+    },
+    () =>
+      supabase!
+        .from("group_invites")
+        .insert({
+          group_id: groupId,
+          code: invite.code,
+          role: invite.role,
+          expires_at: invite.expiresAt,
+          max_uses: invite.maxUses,
+          created_by_user_id: userId,
+        })
+        .select("id, group_id, code, role, created_at, expires_at, max_uses, used_count, revoked_at")
+        .single()
+  );
+}
+
+export async function revokeGroupInvite(groupId: string, inviteId: string): Promise<DbResult<null>> {
+  return runDbCall<null>(
+    {
+      operation: "revokeGroupInvite",
+      table: "group_invites",
+      payload: { groupId, inviteId },
+    },
+    () =>
+      supabase!
+        .from("group_invites")
+        .update({ revoked_at: new Date().toISOString() })
+        .eq("group_id", groupId)
+        .eq("id", inviteId)
+  );
+}
+
+export async function ensureGroupShortCode(groupId: string): Promise<DbResult<string>> {
+  return runDbCall<string>(
+    {
+      operation: "ensureGroupShortCode",
+      rpc: "ensure_group_short_code",
+      payload: { groupId },
+    },
+    () =>
+      supabase!.rpc("ensure_group_short_code", {
+        p_group_id: groupId,
+      })
+  );
+}
+
+// Applies a queued rating unless the server already holds a newer one.
+// Returns false when the write was skipped as stale.
+export async function upsertRatingIfNewer(
   groupId: string,
   memberId: string,
   titleId: string,
-  rating: number
-): Promise<DbResult<null>> {
-  return runDbCall<null>(
+  rating: number,
+  ratedAt: string
+): Promise<DbResult<boolean>> {
+  return runDbCall<boolean>(
     {
-      operation: "upsertRating",
-      table: "ratings",
-      payload: { groupId, memberId, titleId },
+      operation: "upsertRatingIfNewer",
+      rpc: "upsert_rating_if_newer",
+      payload: { groupId, memberId, titleId, ratedAt },
     },
     () =>
-      supabase!.from("ratings").upsert(
-        {
-          group_id: groupId,
-          member_id: memberId,
-          title_id: titleId,
-          rating,
-        },
-        { onConflict: "group_id,member_id,title_id" }
-      )
+      supabase!.rpc("upsert_rating_if_newer", {
+        p_group_id: groupId,
+        p_member_id: memberId,
+        p_title_id: titleId,
+        p_rating: rating,
+        p_rated_at: ratedAt,
+      })
+  );
+}
+
+export async function clearRatingIfNotNewer(
+  groupId: string,
+  memberId: string,
+  titleId: string,
+  clearedAt: string
+): Promise<DbResult<boolean>> {
+  return runDbCall<boolean>(
+    {
+      operation: "clearRatingIfNotNewer",
+      rpc: "clear_rating_if_not_newer",
+      payload: { groupId, memberId, titleId, clearedAt },
+    },
+    () =>
+      supabase!.rpc("clear_rating_if_not_newer", {
+        p_group_id: groupId,
+        p_member_id: memberId,
+        p_title_id: titleId,
+        p_cleared_at: clearedAt,
+      })
+  );
+}
+
+export type ImportedMemberRow = {
+  local_member_id: string;
+  server_member_id: string;
+};
+
+export async function importLocalGroup(
+  groupId: string,
+  members: Array<{
+    local_id: string;
+    name: string;
+    created_at: string;
+    is_self: boolean;
+    ratings: Record<string, number>;
+  }>
+): Promise<DbResult<ImportedMemberRow[]>> {
+  return runDbCall<ImportedMemberRow[]>(
+    {
+      operation: "importLocalGroup",
+      rpc: "import_local_group",
+      payload: { groupId, memberCount: members.length },
+    },
+    () =>
+      supabase!.rpc("import_local_group", {
+        p_group_id: groupId,
+        p_members: members,
+      })
   );
 }
 
@@ -578,8 +903,8 @@ export async function listRatings(groupId: string): Promise<DbResult<RatingRow[]
 export async function listRatingsForMember(
   groupId: string,
   memberId: string
-): Promise<DbResult<Array<Pick<RatingRow, "title_id">>>> {
-  return runDbCall<Array<Pick<RatingRow, "title_id">>>(
+): Promise<DbResult<Array<Pick<RatingRow, "title_id" | "rating" | "updated_at">>>> {
+  return runDbCall<Array<Pick<RatingRow, "title_id" | "rating" | "updated_at">>>(
     {
       operation: "listRatingsForMember",
       table: "ratings",
@@ -588,19 +913,42 @@ export async function listRatingsForMember(
     () =>
       supabase!
         .from("ratings")
-        .select("title_id")
+        .select("title_id, rating, updated_at")
         .eq("group_id", groupId)
         .eq("member_id", memberId)
   );
 }
 
 export async function getTopTitles(groupId: string): Promise<DbResult<GroupTopTitleRow[]>> {
-  const preferred = await runDbCall<GroupTopTitleRow[]>(
+  const ranked = await runDbCall<GroupTopTitleRow[]>(
     {
       operation: "getTopTitles",
       table: "group_top_titles",
       payload: { groupId },
     },
+    () =>
+      supabase!
+        .from("group_top_titles")
+        .select("group_id, title_id, total_stars, avg_rating, rating_count, score, updated_at")
+        .eq("group_id", groupId)
+        .order("score", { ascending: false })
+        .order("total_stars", { ascending: false })
+        .order("avg_rating", { ascending: false })
+        .order("rating_count", { ascending: false })
+        .order("updated_at", { ascending: false })
+        .limit(MAX_TOP_TITLES_LIMIT)
+  );
+
+  if (!ranked.error || !isMissingScoreColumnError(ranked.error)) {
+    return ranked;
+  }
+
+  const preferred = await runDbCall<GroupTopTitleRow[]>(
+    {
+      operation: "getTopTitlesUnscored",
+      table: "group_top_titles",
+      payload: { groupId },
+    },
     () =>
       supabase!
         .from("group_top_titles")
@@ -649,6 +997,161 @@ export async function recomputeGroupTopTitles(groupId: string): Promise<DbResult
   );
 }
 
+export async function listGroupMatches(groupId: string): Promise<DbResult<GroupMatchRow[]>> {
+  return runDbCall<GroupMatchRow[]>(
+    {
+      operation: "listGroupMatches",
+      table: "group_matches",
+      payload: { groupId },
+    },
+    () =>
+      supabase!
+        .from("group_matches")
+        .select("id, group_id, title_id, threshold, member_count, matched_at")
+        .eq("group_id", groupId)
+        .order("matched_at", { ascending: false })
+  );
+}
+
+async function runGroupSessionRpc(
+  operation: string,
+  rpc: string,
+  params: Record<string, unknown>
+): Promise<DbResult<GroupSessionRow>> {
+  const result = await runDbCall<GroupSessionRow | GroupSessionRow[]>(
+    { operation, rpc, payload: params },
+    () => supabase!.rpc(rpc, params)
+  );
+
+  if (result.error || !result.data) {
+    return { data: null, error: result.error, status: result.status };
+  }
+
+  const session = Array.isArray(result.data) ? result.data[0] : result.data;
+  return { data: session ?? null, error: null, status: result.status };
+}
+
+export async function getGroupSession(groupId: string): Promise<DbResult<GroupSessionRow>> {
+  return runGroupSessionRpc("getGroupSession", "get_group_session", { p_group_id: groupId });
+}
+
+export async function closeGroupSession(groupId: string): Promise<DbResult<GroupSessionRow>> {
+  return runGroupSessionRpc("closeGroupSession", "close_group_session", { p_group_id: groupId });
+}
+
+export async function reopenGroupSession(groupId: string): Promise<DbResult<GroupSessionRow>> {
+  return runGroupSessionRpc("reopenGroupSession", "reopen_group_session", { p_group_id: groupId });
+}
+
+export async function startGroupRound(groupId: string): Promise<DbResult<GroupSessionRow>> {
+  return runGroupSessionRpc("startGroupRound", "start_group_round", { p_group_id: groupId });
+}
+
+export async function startRunoffRound(
+  groupId: string,
+  items: Array<{ title_id: string; title_snapshot: Record<string, unknown> }>,
+  settings: Record<string, unknown>
+): Promise<DbResult<GroupSessionRow>> {
+  return runGroupSessionRpc("startRunoffRound", "start_runoff_round", {
+    p_group_id: groupId,
+    p_items: items,
+    p_settings: settings,
+  });
+}
+
+export async function setGroupSessionDeadline(
+  groupId: string,
+  deadlineAt: string | null
+): Promise<DbResult<GroupSessionRow>> {
+  return runGroupSessionRpc("setGroupSessionDeadline", "set_group_session_deadline", {
+    p_group_id: groupId,
+    p_deadline_at: deadlineAt,
+  });
+}
+
+export async function getGroupQueueForMember(
+  groupId: string,
+  memberId: string,
+  limit: number
+): Promise<DbResult<GroupQueueRow[]>> {
+  return runDbCall<GroupQueueRow[]>(
+    {
+      operation: "getGroupQueueForMember",
+      rpc: "get_group_queue",
+      payload: { groupId, memberId, limit },
+    },
+    () =>
+      supabase!.rpc("get_group_queue", {
+        p_group_id: groupId,
+        p_member_id: memberId,
+        p_limit: limit,
+      })
+  );
+}
+
+export async function appendGroupQueue(
+  groupId: string,
+  items: Array<{ title_id: string; item: Record<string, unknown> }>
+): Promise<DbResult<number>> {
+  return runDbCall<number>(
+    {
+      operation: "appendGroupQueue",
+      rpc: "append_group_queue",
+      payload: { groupId, count: items.length },
+    },
+    () =>
+      supabase!.rpc("append_group_queue", {
+        p_group_id: groupId,
+        p_items: items,
+      })
+  );
+}
+
+export async function getMemberQueueState(
+  groupId: string,
+  memberId: string
+): Promise<DbResult<MemberQueueStateRow>> {
+  return runDbCall<MemberQueueStateRow>(
+    {
+      operation: "getMemberQueueState",
+      table: "member_queue_state",
+      payload: { groupId, memberId },
+    },
+    () =>
+      supabase!
+        .from("member_queue_state")
+        .select("group_id, member_id, upcoming, seen_title_ids, discover_state, updated_at")
+        .eq("group_id", groupId)
+        .eq("member_id", memberId)
+        .maybeSingle()
+  );
+}
+
+export async function upsertMemberQueueState(
+  groupId: string,
+  memberId: string,
+  state: Pick<MemberQueueStateRow, "upcoming" | "seen_title_ids" | "discover_state">
+): Promise<DbResult<null>> {
+  return runDbCall<null>(
+    {
+      operation: "upsertMemberQueueState",
+      table: "member_queue_state",
+      payload: { groupId, memberId, upcoming: state.upcoming.length, seen: state.seen_title_ids.length },
+    },
+    () =>
+      supabase!.from("member_queue_state").upsert(
+        {
+          group_id: groupId,
+          member_id: memberId,
+          upcoming: state.upcoming,
+          seen_title_ids: state.seen_title_ids,
+          discover_state: state.discover_state,
+        },
+        { onConflict: "group_id,member_id" }
+      )
+  );
+}
+
 export async function getCustomList(groupId: string): Promise<DbResult<GroupCustomListRow[]>> {
   return runDbCall<GroupCustomListRow[]>(
     {
@@ -720,23 +1223,30 @@ export async function setCustomList(
   return getCustomList(groupId);
 }
 
-export async function getTitleCache(titleId: string): Promise<DbResult<TitleCacheRow>> {
+export async function getTitleCache(
+  titleId: string,
+  language: string
+): Promise<DbResult<TitleCacheRow>> {
   return runDbCall<TitleCacheRow>(
     {
       operation: "getTitleCache",
       table: "title_cache",
-      payload: { titleId },
+      payload: { titleId, language },
     },
     () =>
       supabase!
         .from("title_cache")
-        .select("title_id, snapshot, updated_at")
+        .select("title_id, language, snapshot, updated_at")
         .eq("title_id", titleId)
+        .eq("language", language)
         .maybeSingle()
   );
 }
 
-export async function getTitleCacheMany(titleIds: string[]): Promise<DbResult<TitleCacheRow[]>> {
+export async function getTitleCacheMany(
+  titleIds: string[],
+  language: string
+): Promise<DbResult<TitleCacheRow[]>> {
   if (titleIds.length === 0) {
     return { data: [], error: null, status: 200 };
   }
@@ -745,34 +1255,37 @@ export async function getTitleCacheMany(titleIds: string[]): Promise<DbResult<Ti
     {
       operation: "getTitleCacheMany",
       table: "title_cache",
-      payload: { titleIds },
+      payload: { titleIds, language },
     },
     () =>
       supabase!
         .from("title_cache")
-        .select("title_id, snapshot, updated_at")
+        .select("title_id, language, snapshot, updated_at")
         .in("title_id", titleIds)
+        .eq("language", language)
   );
 }
 
 export async function upsertTitleCache(
   titleId: string,
+  language: string,
   snapshot: Record<string, unknown>
 ): Promise<DbResult<null>> {
   return runDbCall<null>(
     {
       operation: "upsertTitleCache",
       table: "title_cache",
-      payload: { titleId },
+      payload: { titleId, language },
     },
     () =>
       supabase!.from("title_cache").upsert(
         {
           title_id: titleId,
+          language,
           snapshot,
         },
         {
-          onConflict: "title_id",
+          onConflict: "title_id,language",
         }
       )
   );
@@ -0,0 +1,142 @@
+// Region-aware certification model. Each region's movie and TV ratings are
+// mapped onto the US tiers behind the allowed-rating toggles (allowG ...
+// allowTVMA), so one set of group settings works in every supported region.
+
+export type WatchRegion = "US" | "GB" | "DE" | "FR" | "CA" | "AU";
+
+export type MovieRatingTier = "G" | "PG" | "PG-13" | "R";
+export type TvRatingTier = "TV-Y" | "TV-Y7" | "TV-G" | "TV-PG" | "TV-14" | "TV-MA";
+
+// null means the title has no certification in the region. Unknown
+// certifications (NC-17, R18, ...) are always filtered out.
+export type NormalizedMovieCertification = MovieRatingTier | "__UNSUPPORTED__" | null;
+export type NormalizedTvCertification = TvRatingTier | "__UNSUPPORTED__" | null;
+
+type RegionCertifications = {
+  label: string;
+  movieSystem: string;
+  tvSystem: string;
+  movie: Record<string, MovieRatingTier>;
+  tv: Record<string, TvRatingTier>;
+};
+
+export const DEFAULT_WATCH_REGION: WatchRegion = "US";
+
+const REGION_CERTIFICATIONS: Record<WatchRegion, RegionCertifications> = {
+  US: {
+    label: "United States",
+    movieSystem: "MPAA",
+    tvSystem: "TV Parental Guidelines",
+    movie: { G: "G", PG: "PG", "PG-13": "PG-13", PG13: "PG-13", R: "R" },
+    tv: {
+      "TV-Y": "TV-Y",
+      TVY: "TV-Y",
+      "TV-Y7": "TV-Y7",
+      TVY7: "TV-Y7",
+      "TV-G": "TV-G",
+      TVG: "TV-G",
+      "TV-PG": "TV-PG",
+      TVPG: "TV-PG",
+      "TV-14": "TV-14",
+      TV14: "TV-14",
+      "TV-MA": "TV-MA",
+      TVMA: "TV-MA",
+    },
+  },
+  GB: {
+    label: "United Kingdom",
+    movieSystem: "BBFC",
+    tvSystem: "BBFC",
+    movie: { U: "G", PG: "PG", "12A": "PG-13", "12": "PG-13", "15": "R", "18": "R" },
+    tv: { U: "TV-G", PG: "TV-PG", "12": "TV-14", "15": "TV-MA", "18": "TV-MA" },
+  },
+  DE: {
+    label: "Germany",
+    movieSystem: "FSK",
+    tvSystem: "FSK",
+    movie: { "0": "G", "6": "PG", "12": "PG-13", "16": "R", "18": "R" },
+    tv: { "0": "TV-G", "6": "TV-Y7", "12": "TV-PG", "16": "TV-14", "18": "TV-MA" },
+  },
+  FR: {
+    label: "France",
+    movieSystem: "CNC",
+    tvSystem: "CSA",
+    movie: { U: "G", "10": "PG", "12": "PG-13", "16": "R", "18": "R" },
+    tv: { "10": "TV-PG", "12": "TV-14", "16": "TV-MA", "18": "TV-MA" },
+  },
+  CA: {
+    label: "Canada",
+    movieSystem: "CHVRS",
+    tvSystem: "CAB",
+    movie: { G: "G", PG: "PG", "14A": "PG-13", "18A": "R", R: "R" },
+    tv: { C: "TV-Y", C8: "TV-Y7", G: "TV-G", PG: "TV-PG", "14+": "TV-14", "18+": "TV-MA" },
+  },
+  AU: {
+    label: "Australia",
+    movieSystem: "ACB",
+    tvSystem: "ACB",
+    movie: { G: "G", PG: "PG", M: "PG-13", "MA15+": "R", "R18+": "R" },
+    tv: {
+      P: "TV-Y",
+      C: "TV-Y7",
+      G: "TV-G",
+      PG: "TV-PG",
+      M: "TV-14",
+      "MA15+": "TV-MA",
+      "AV15+": "TV-MA",
+      "R18+": "TV-MA",
+    },
+  },
+};
+
+export const WATCH_REGION_OPTIONS: Array<{ value: WatchRegion; label: string }> = (
+  Object.keys(REGION_CERTIFICATIONS) as WatchRegion[]
+).map((value) => ({ value, label: REGION_CERTIFICATIONS[value].label }));
+
+export function normalizeWatchRegion(raw: unknown): WatchRegion {
+  if (typeof raw !== "string") return DEFAULT_WATCH_REGION;
+  const upper = raw.trim().toUpperCase();
+  return upper in REGION_CERTIFICATIONS ? (upper as WatchRegion) : DEFAULT_WATCH_REGION;
+}
+
+export function watchRegionLabel(region: WatchRegion) {
+  return REGION_CERTIFICATIONS[region].label;
+}
+
+export function certificationSystemLabel(region: WatchRegion, type: "movie" | "tv") {
+  const certifications = REGION_CERTIFICATIONS[region];
+  return type === "movie" ? certifications.movieSystem : certifications.tvSystem;
+}
+
+function cleanCertification(raw: string | null | undefined) {
+  return (raw ?? "").trim().toUpperCase();
+}
+
+export function normalizeMovieCertification(
+  region: WatchRegion,
+  raw: string | null | undefined
+): NormalizedMovieCertification {
+  const value = cleanCertification(raw);
+  if (!value) return null;
+  return REGION_CERTIFICATIONS[region].movie[value] ?? "__UNSUPPORTED__";
+}
+
+export function normalizeTvCertification(
+  region: WatchRegion,
+  raw: string | null | undefined
+): NormalizedTvCertification {
+  const value = cleanCertification(raw);
+  if (!value) return null;
+  return REGION_CERTIFICATIONS[region].tv[value] ?? "__UNSUPPORTED__";
+}
+
+/** Local certifications that fall under a toggle tier, e.g. GB "PG-13" -> ["12A", "12"]. */
+export function certificationsForTier(region: WatchRegion, tier: MovieRatingTier | TvRatingTier) {
+  const certifications = REGION_CERTIFICATIONS[region];
+  const table: Record<string, string> = tier.startsWith("TV-") ? certifications.tv : certifications.movie;
+  const codes = Object.entries(table)
+    .filter(([, mapped]) => mapped === tier)
+    .map(([code]) => code);
+  // Drop the undashed spellings TMDB sometimes returns (PG13, TVMA).
+  return codes.filter((code) => !codes.some((other) => other !== code && other.replace(/-/g, "") === code));
+}
@@ -0,0 +1,20 @@
+/** Saves text as a file through a temporary object URL. */
+export function downloadTextFile(fileName: string, text: string, mimeType: string) {
+  if (typeof window === "undefined") return;
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking right away can cancel the download in some browsers.
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** Lowercase, dash-separated form of a name for use in file names. */
+export function fileNameSlug(name: string, fallback: string) {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || fallback;
+}
@@ -1,5 +1,12 @@
-import { listRatingsForMember } from "@/lib/api";
+import { getMemberQueueState, listRatingsForMember, upsertMemberQueueState } from "@/lib/api";
+import {
+  type NormalizedMovieCertification,
+  type NormalizedTvCertification,
+  type WatchRegion,
+} from "@/lib/certifications";
+import { resolveTitleLanguage } from "@/lib/languageStore";
 import { loadRatings } from "@/lib/ratings";
+import { appendSharedDeck, loadSharedDeck } from "@/lib/sharedDeckStore";
 import {
   getEndlessSettings,
   loadGroup,
@@ -7,6 +14,7 @@ import {
   type GroupSettings,
 } from "@/lib/storage";
 import { isSupabaseConfigured } from "@/lib/supabase";
+import type { TitleLanguage } from "@/lib/titleLanguages";
 import { buildTmdbTitleKey } from "@/lib/tmdbTitleKey";
 
 const KEY_UPCOMING = (groupId: string, memberId: string) =>
@@ -22,10 +30,21 @@ const LOW_WATERMARK = 10;
 const TARGET_SIZE = 80;
 const MAX_PAGES_PER_REFILL = 5;
 const MAX_SEEN = 300;
+// Keep in sync with MAX_WATCH_AVAILABILITY_TITLE_KEYS in src/app/api/tmdb/watch-availability/route.ts.
+const WATCH_AVAILABILITY_BATCH_SIZE = 40;
+const QUEUE_STATE_PUSH_DELAY_MS = 1500;
 const noDiscoverResultsHintShownForGroup = new Set<string>();
-const movieMpaaById = new Map<number, string | null>();
-const tvRatingById = new Map<number, string | null>();
+// Keyed by `${region}:${tmdbId}`; values come from /api/tmdb/certifications.
+const movieCertificationByKey = new Map<string, NormalizedMovieCertification>();
+const tvCertificationByKey = new Map<string, NormalizedTvCertification>();
+// Must not exceed MAX_CERTIFICATION_TITLE_KEYS in the certifications route.
+const CERTIFICATION_BATCH_SIZE = 40;
+// Keyed by `${region}:${titleKey}`.
+const watchAvailabilityByTitle = new Map<string, WatchAvailability | null>();
 const queueRequestByMember = new Map<string, Promise<EndlessQueueItem[]>>();
+const queueStatePulledForMember = new Set<string>();
+const queueStatePushTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const lastPushedQueueState = new Map<string, string>();
 
 type TrendingType = "movie" | "tv";
 
@@ -58,12 +77,18 @@ type TrendingResponse = {
   results?: TrendingResult[];
 };
 
-type TmdbMovieDetailsRatingResponse = {
-  mpaa_rating?: string | null;
+type CertificationsResponse = {
+  results?: Record<string, { certification: string | null; rating: string | null }>;
+};
+
+type WatchAvailabilityResponse = {
+  results?: Record<string, { stream?: number[]; rent_or_buy?: number[] }>;
+  failed?: string[];
 };
 
-type TmdbTvDetailsRatingResponse = {
-  tv_rating?: string | null;
+type WatchAvailability = {
+  stream: Set<number>;
+  rentOrBuy: Set<number>;
 };
 
 type DiscoverState = {
@@ -72,17 +97,6 @@ type DiscoverState = {
   exhaustedByType: Record<TrendingType, boolean>;
 };
 
-type NormalizedMovieRating = "G" | "PG" | "PG-13" | "R" | "__UNSUPPORTED__" | null;
-type NormalizedTvRating = "TV-Y" | "TV-Y7" | "TV-G" | "TV-PG" | "TV-14" | "TV-MA" | "__UNSUPPORTED__" | null;
-
-function normalizeMpaa(certification: string | null | undefined): NormalizedMovieRating {
-  const raw = (certification ?? "").trim().toUpperCase();
-  if (!raw) return null;
-  if (raw === "PG13") return "PG-13";
-  if (raw === "G" || raw === "PG" || raw === "PG-13" || raw === "R") return raw;
-  return "__UNSUPPORTED__";
-}
-
 function shouldFilterByMovieRating() {
   // Always enforce movie certification checks so fringe ratings such as NC-17
   // and other non-mainstream/unsupported tags are excluded from the queue.
@@ -94,7 +108,7 @@ function shouldFilterByTvRating() {
   return true;
 }
 
-function isAllowedMovieRating(settings: GroupSettings, rating: NormalizedMovieRating) {
+function isAllowedMovieRating(settings: GroupSettings, rating: NormalizedMovieCertification) {
   if (!rating) return true;
   if (rating === "__UNSUPPORTED__") return false;
   if (rating === "G") return settings.allowG;
@@ -103,33 +117,9 @@ function isAllowedMovieRating(settings: GroupSettings, rating: NormalizedMovieRa
   return settings.allowR;
 }
 
-function normalizeTvRating(
-  rating: string | null | undefined
-): NormalizedTvRating {
-  const raw = (rating ?? "").trim().toUpperCase();
-  if (!raw) return null;
-  if (raw === "TVY") return "TV-Y";
-  if (raw === "TVY7") return "TV-Y7";
-  if (raw === "TVG") return "TV-G";
-  if (raw === "TVPG") return "TV-PG";
-  if (raw === "TV14") return "TV-14";
-  if (raw === "TVMA") return "TV-MA";
-  if (
-    raw === "TV-Y" ||
-    raw === "TV-Y7" ||
-    raw === "TV-G" ||
-    raw === "TV-PG" ||
-    raw === "TV-14" ||
-    raw === "TV-MA"
-  ) {
-    return raw;
-  }
-  return "__UNSUPPORTED__";
-}
-
 function isAllowedTvRating(
   settings: GroupSettings,
-  rating: NormalizedTvRating
+  rating: NormalizedTvCertification
 ) {
   if (!rating) return true;
   if (rating === "__UNSUPPORTED__") return false;
@@ -141,50 +131,103 @@ function isAllowedTvRating(
   return settings.allowTVMA;
 }
 
-async function fetchMovieMpaaRating(tmdbId: number): Promise<NormalizedMovieRating> {
-  if (movieMpaaById.has(tmdbId)) {
-    return normalizeMpaa(movieMpaaById.get(tmdbId) ?? null);
-  }
+// Resolves certifications for many titles in a few batched calls; titles the
+// route could not answer for are cached as unrated, like a failed lookup.
+async function loadCertifications(type: TrendingType, tmdbIds: number[], region: WatchRegion) {
+  const cache = type === "movie" ? movieCertificationByKey : tvCertificationByKey;
+  const missing = Array.from(new Set(tmdbIds)).filter((id) => !cache.has(`${region}:${id}`));
 
-  try {
-    const response = await fetch(`/api/tmdb/details?type=movie&id=${tmdbId}`);
-    if (!response.ok) {
-      movieMpaaById.set(tmdbId, null);
-      return null;
-    }
-    const body = (await response.json()) as TmdbMovieDetailsRatingResponse;
-    const normalized = normalizeMpaa(body.mpaa_rating ?? null);
-    movieMpaaById.set(tmdbId, normalized);
-    return normalized;
-  } catch {
-    movieMpaaById.set(tmdbId, null);
-    return null;
+  const batches: number[][] = [];
+  for (let start = 0; start < missing.length; start += CERTIFICATION_BATCH_SIZE) {
+    batches.push(missing.slice(start, start + CERTIFICATION_BATCH_SIZE));
   }
+
+  await Promise.all(
+    batches.map(async (batch) => {
+      let results: CertificationsResponse["results"] = {};
+      try {
+        const titleKeys = batch.map((id) => buildTmdbTitleKey(type, id)).join(",");
+        const response = await fetch(
+          `/api/tmdb/certifications?titleKeys=${encodeURIComponent(titleKeys)}&region=${region}`
+        );
+        if (response.ok) {
+          const body = (await response.json()) as CertificationsResponse;
+          results = body.results ?? {};
+        }
+      } catch {
+        results = {};
+      }
+
+      for (const id of batch) {
+        const rating = results?.[buildTmdbTitleKey(type, id)]?.rating ?? null;
+        if (type === "movie") {
+          movieCertificationByKey.set(`${region}:${id}`, rating as NormalizedMovieCertification);
+        } else {
+          tvCertificationByKey.set(`${region}:${id}`, rating as NormalizedTvCertification);
+        }
+      }
+    })
+  );
 }
 
-async function fetchTvRating(
-  tmdbId: number
-): Promise<NormalizedTvRating> {
-  if (tvRatingById.has(tmdbId)) {
-    return normalizeTvRating(tvRatingById.get(tmdbId) ?? null);
-  }
+async function fetchMovieCertifications(tmdbIds: number[], region: WatchRegion) {
+  await loadCertifications("movie", tmdbIds, region);
+  return new Map(tmdbIds.map((id) => [id, movieCertificationByKey.get(`${region}:${id}`) ?? null] as const));
+}
 
-  try {
-    const response = await fetch(`/api/tmdb/details?type=tv&id=${tmdbId}`);
-    if (!response.ok) {
-      tvRatingById.set(tmdbId, null);
-      return null;
+async function fetchTvCertifications(tmdbIds: number[], region: WatchRegion) {
+  await loadCertifications("tv", tmdbIds, region);
+  return new Map(tmdbIds.map((id) => [id, tvCertificationByKey.get(`${region}:${id}`) ?? null] as const));
+}
+
+// Resolves provider availability for many titles in a few batched calls;
+// titles the route could not answer for are cached as unknown.
+async function loadWatchAvailability(titleKeys: string[], region: WatchRegion) {
+  const missing = Array.from(new Set(titleKeys)).filter(
+    (key) => key && !watchAvailabilityByTitle.has(`${region}:${key}`)
+  );
+
+  for (let start = 0; start < missing.length; start += WATCH_AVAILABILITY_BATCH_SIZE) {
+    const batch = missing.slice(start, start + WATCH_AVAILABILITY_BATCH_SIZE);
+    let body: WatchAvailabilityResponse | null = null;
+    try {
+      const params = new URLSearchParams({ titleKeys: batch.join(","), region });
+      const response = await fetch(`/api/tmdb/watch-availability?${params.toString()}`);
+      if (response.ok) body = (await response.json()) as WatchAvailabilityResponse;
+    } catch {
+      body = null;
+    }
+
+    for (const key of batch) {
+      const result = body?.results?.[key];
+      watchAvailabilityByTitle.set(
+        `${region}:${key}`,
+        result ? { stream: new Set(result.stream ?? []), rentOrBuy: new Set(result.rent_or_buy ?? []) } : null
+      );
     }
-    const body = (await response.json()) as TmdbTvDetailsRatingResponse;
-    const normalized = normalizeTvRating(body.tv_rating ?? null);
-    tvRatingById.set(tmdbId, normalized);
-    return normalized;
-  } catch {
-    tvRatingById.set(tmdbId, null);
-    return null;
   }
 }
 
+function isAvailableOnProviders(titleKey: string, settings: GroupSettings) {
+  const { providerIds, includeRentBuy } = getEndlessSettings(settings);
+  if (providerIds.length === 0) return true;
+  // Unknown availability keeps the title: discover already filtered by provider.
+  const availability = watchAvailabilityByTitle.get(`${settings.region}:${titleKey}`) ?? null;
+  if (!availability) return true;
+  return providerIds.some(
+    (id) => availability.stream.has(id) || (includeRentBuy && availability.rentOrBuy.has(id))
+  );
+}
+
+// Queued and shared-deck titles may predate a change to the group's services,
+// so they go through the same availability check as fresh discover rows.
+async function filterQueueByProviders(items: EndlessQueueItem[], settings: GroupSettings) {
+  if (getEndlessSettings(settings).providerIds.length === 0) return items;
+  const titleKeys = items.map((item) => buildTmdbTitleKey(item.type, item.id));
+  await loadWatchAvailability(titleKeys, settings.region);
+  return items.filter((_, index) => isAvailableOnProviders(titleKeys[index], settings));
+}
+
 function loadLocalArray(key: string): string[] {
   if (typeof window === "undefined") return [];
   const raw = localStorage.getItem(key);
@@ -219,6 +262,9 @@ function endlessSettingsKey(settings: GroupSettings) {
     excludedGenreIds: endless.excludedGenreIds,
     releaseFrom: endless.releaseFrom,
     releaseTo: endless.releaseTo,
+    providerIds: endless.providerIds,
+    includeRentBuy: endless.includeRentBuy,
+    region: settings.region,
     allowG: settings.allowG,
     allowPG: settings.allowPG,
     allowPG13: settings.allowPG13,
@@ -232,6 +278,31 @@ function endlessSettingsKey(settings: GroupSettings) {
   });
 }
 
+function parseDiscoverState(raw: unknown, settingsKey: string): DiscoverState {
+  if (!raw || typeof raw !== "object") return createDefaultDiscoverState(settingsKey);
+  const parsed = raw as Partial<DiscoverState>;
+  if (parsed.settingsKey !== settingsKey) {
+    return createDefaultDiscoverState(settingsKey);
+  }
+  return {
+    settingsKey,
+    nextPageByType: {
+      movie:
+        typeof parsed.nextPageByType?.movie === "number" && parsed.nextPageByType.movie >= 1
+          ? Math.floor(parsed.nextPageByType.movie)
+          : 1,
+      tv:
+        typeof parsed.nextPageByType?.tv === "number" && parsed.nextPageByType.tv >= 1
+          ? Math.floor(parsed.nextPageByType.tv)
+          : 1,
+    },
+    exhaustedByType: {
+      movie: Boolean(parsed.exhaustedByType?.movie),
+      tv: Boolean(parsed.exhaustedByType?.tv),
+    },
+  };
+}
+
 function loadDiscoverState(groupId: string, memberId: string, settings: GroupSettings): DiscoverState {
   if (typeof window === "undefined") {
     return createDefaultDiscoverState(endlessSettingsKey(settings));
@@ -242,27 +313,7 @@ function loadDiscoverState(groupId: string, memberId: string, settings: GroupSet
   if (!raw) return createDefaultDiscoverState(settingsKey);
 
   try {
-    const parsed = JSON.parse(raw) as Partial<DiscoverState>;
-    if (parsed.settingsKey !== settingsKey) {
-      return createDefaultDiscoverState(settingsKey);
-    }
-    return {
-      settingsKey,
-      nextPageByType: {
-        movie:
-          typeof parsed.nextPageByType?.movie === "number" && parsed.nextPageByType.movie >= 1
-            ? Math.floor(parsed.nextPageByType.movie)
-            : 1,
-        tv:
-          typeof parsed.nextPageByType?.tv === "number" && parsed.nextPageByType.tv >= 1
-            ? Math.floor(parsed.nextPageByType.tv)
-            : 1,
-      },
-      exhaustedByType: {
-        movie: Boolean(parsed.exhaustedByType?.movie),
-        tv: Boolean(parsed.exhaustedByType?.tv),
-      },
-    };
+    return parseDiscoverState(JSON.parse(raw), settingsKey);
   } catch {
     return createDefaultDiscoverState(settingsKey);
   }
@@ -271,6 +322,22 @@ function loadDiscoverState(groupId: string, memberId: string, settings: GroupSet
 function saveDiscoverState(groupId: string, memberId: string, state: DiscoverState) {
   if (typeof window === "undefined") return;
   localStorage.setItem(KEY_DISCOVER_STATE(groupId, memberId), JSON.stringify(state));
+  scheduleQueueStatePush(groupId, memberId);
+}
+
+// Two devices paging the same discover results: keep whichever got further.
+function mergeDiscoverStates(a: DiscoverState, b: DiscoverState): DiscoverState {
+  return {
+    settingsKey: a.settingsKey,
+    nextPageByType: {
+      movie: Math.max(a.nextPageByType.movie, b.nextPageByType.movie),
+      tv: Math.max(a.nextPageByType.tv, b.nextPageByType.tv),
+    },
+    exhaustedByType: {
+      movie: a.exhaustedByType.movie || b.exhaustedByType.movie,
+      tv: a.exhaustedByType.tv || b.exhaustedByType.tv,
+    },
+  };
 }
 
 type StoredQueueItem = EndlessQueueItem & { title_key?: string };
@@ -310,6 +377,7 @@ function loadUpcoming(groupId: string, memberId: string): EndlessQueueItem[] {
 function saveUpcoming(groupId: string, memberId: string, items: EndlessQueueItem[]) {
   if (typeof window === "undefined") return;
   localStorage.setItem(KEY_UPCOMING(groupId, memberId), JSON.stringify(items));
+  scheduleQueueStatePush(groupId, memberId);
 }
 
 function loadSeen(groupId: string, memberId: string): string[] {
@@ -327,6 +395,93 @@ function loadSeen(groupId: string, memberId: string): string[] {
 
 function saveSeen(groupId: string, memberId: string, seen: string[]) {
   saveLocalArray(KEY_SEEN_TITLE_IDS(groupId, memberId), seen.slice(-MAX_SEEN));
+  scheduleQueueStatePush(groupId, memberId);
+}
+
+async function pushQueueState(groupId: string, memberId: string) {
+  if (typeof window === "undefined") return;
+  const stateKey = `${groupId}:${memberId}`;
+  let discoverState: Record<string, unknown> | null = null;
+  try {
+    const raw = localStorage.getItem(KEY_DISCOVER_STATE(groupId, memberId));
+    discoverState = raw ? (JSON.parse(raw) as Record<string, unknown>) : null;
+  } catch {
+    discoverState = null;
+  }
+  const payload = {
+    upcoming: loadUpcoming(groupId, memberId),
+    seen_title_ids: loadLocalArray(KEY_SEEN_TITLE_IDS(groupId, memberId)),
+    discover_state: discoverState,
+  };
+  const serialized = JSON.stringify(payload);
+  if (lastPushedQueueState.get(stateKey) === serialized) return;
+
+  const pushed = await upsertMemberQueueState(groupId, memberId, payload);
+  if (!pushed.error) lastPushedQueueState.set(stateKey, serialized);
+}
+
+function scheduleQueueStatePush(groupId: string, memberId: string) {
+  if (typeof window === "undefined" || !isSupabaseConfigured()) return;
+  const stateKey = `${groupId}:${memberId}`;
+  // Hold pushes until the remote state has been merged in, so a fresh device
+  // does not overwrite another device's progress.
+  if (!queueStatePulledForMember.has(stateKey)) return;
+  const pending = queueStatePushTimers.get(stateKey);
+  if (pending) clearTimeout(pending);
+  queueStatePushTimers.set(
+    stateKey,
+    setTimeout(() => {
+      queueStatePushTimers.delete(stateKey);
+      void pushQueueState(groupId, memberId);
+    }, QUEUE_STATE_PUSH_DELAY_MS)
+  );
+}
+
+/**
+ * Merges the member's queue state from Supabase into localStorage once per
+ * page load: seen titles are unioned, the remote queue goes first so the
+ * member resumes where they left off, and paging keeps the furthest cursor.
+ */
+async function pullQueueState(groupId: string, memberId: string, settings: GroupSettings) {
+  if (!isSupabaseConfigured()) return;
+  const stateKey = `${groupId}:${memberId}`;
+  if (queueStatePulledForMember.has(stateKey)) return;
+
+  const remote = await getMemberQueueState(groupId, memberId);
+  if (remote.error) return;
+  queueStatePulledForMember.add(stateKey);
+  if (!remote.data) {
+    scheduleQueueStatePush(groupId, memberId);
+    return;
+  }
+
+  const localSeen = loadSeen(groupId, memberId);
+  const remoteSeen = Array.isArray(remote.data.seen_title_ids)
+    ? remote.data.seen_title_ids.filter((id): id is string => typeof id === "string")
+    : [];
+  const remoteSeenSet = new Set(remoteSeen);
+  const seen = [...remoteSeen, ...localSeen.filter((id) => !remoteSeenSet.has(id))];
+  const seenSet = new Set(seen);
+
+  const remoteUpcoming = (Array.isArray(remote.data.upcoming) ? remote.data.upcoming : [])
+    .filter((item): item is StoredQueueItem => Boolean(item) && typeof item === "object")
+    .map(normalizeUpcomingItem)
+    .filter((item): item is EndlessQueueItem => Boolean(item));
+  const upcomingById = new Map<string, EndlessQueueItem>();
+  for (const item of [...remoteUpcoming, ...loadUpcoming(groupId, memberId)]) {
+    if (seenSet.has(item.title_id) || upcomingById.has(item.title_id)) continue;
+    upcomingById.set(item.title_id, item);
+  }
+
+  const settingsKey = endlessSettingsKey(settings);
+  const discoverState = mergeDiscoverStates(
+    loadDiscoverState(groupId, memberId, settings),
+    parseDiscoverState(remote.data.discover_state, settingsKey)
+  );
+
+  saveSeen(groupId, memberId, seen);
+  saveUpcoming(groupId, memberId, Array.from(upcomingById.values()));
+  saveDiscoverState(groupId, memberId, discoverState);
 }
 
 function localRatedTitleKeys(groupId: string, memberId: string) {
@@ -349,11 +504,16 @@ async function fetchDiscoverPage(
     excludedGenreIds: number[];
     releaseFrom: string | null;
     releaseTo: string | null;
+    providerIds: number[];
+    includeRentBuy: boolean;
+    region: WatchRegion;
+    language: TitleLanguage;
   }
 ) {
   const params = new URLSearchParams({
     type,
     page: String(page),
+    language: options.language,
   });
   if (options.minVoteCount !== null) {
     params.set("minVoteCount", String(options.minVoteCount));
@@ -367,6 +527,11 @@ async function fetchDiscoverPage(
   if (options.releaseTo) {
     params.set("releaseTo", options.releaseTo);
   }
+  if (options.providerIds.length > 0) {
+    params.set("providers", options.providerIds.join(","));
+    params.set("region", options.region);
+    if (options.includeRentBuy) params.set("includeRentBuy", "1");
+  }
 
   const response = await fetch(`/api/tmdb/discover?${params.toString()}`);
   const body = (await response.json()) as TrendingResponse;
@@ -406,21 +571,26 @@ async function filterDiscoverRows(
   const byKey = new Map<string, EndlessQueueItem>();
   const enforceMovieRatings = shouldFilterByMovieRating();
   const enforceTvRatings = shouldFilterByTvRating();
-  let movieRatings = new Map<number, NormalizedMovieRating>();
-  let tvRatings = new Map<number, NormalizedTvRating>();
+  let movieRatings = new Map<number, NormalizedMovieCertification>();
+  let tvRatings = new Map<number, NormalizedTvCertification>();
 
   if (enforceMovieRatings) {
-    const movieIds = Array.from(new Set(rows.filter((row) => row.type === "movie").map((row) => row.id)));
-    const ratingPairs = await Promise.all(
-      movieIds.map(async (id) => [id, await fetchMovieMpaaRating(id)] as const)
-    );
-    movieRatings = new Map(ratingPairs);
+    const movieIds = rows.filter((row) => row.type === "movie").map((row) => row.id);
+    movieRatings = await fetchMovieCertifications(movieIds, settings.region);
   }
 
   if (enforceTvRatings) {
-    const tvIds = Array.from(new Set(rows.filter((row) => row.type === "tv").map((row) => row.id)));
-    const ratingPairs = await Promise.all(tvIds.map(async (id) => [id, await fetchTvRating(id)] as const));
-    tvRatings = new Map(ratingPairs);
+    const tvIds = rows.filter((row) => row.type === "tv").map((row) => row.id);
+    tvRatings = await fetchTvCertifications(tvIds, settings.region);
+  }
+
+  if (endlessSettings.providerIds.length > 0) {
+    await loadWatchAvailability(
+      rows
+        .filter((row) => row.type === "movie" || row.type === "tv")
+        .map((row) => buildTmdbTitleKey(row.type, row.id)),
+      settings.region
+    );
   }
 
   for (const row of rows) {
@@ -441,6 +611,7 @@ async function filterDiscoverRows(
       const rating = tvRatings.get(row.id) ?? null;
       if (!isAllowedTvRating(settings, rating)) continue;
     }
+    if (!isAvailableOnProviders(buildTmdbTitleKey(row.type, row.id), settings)) continue;
     const titleId = row.title_key?.trim() || buildTmdbTitleKey(row.type, row.id);
     if (!titleId) continue;
     const title = (row.title ?? "").trim();
@@ -499,6 +670,10 @@ async function refillUpcomingQueue(
       excludedGenreIds: endlessSettings.excludedGenreIds,
       releaseFrom: endlessSettings.releaseFrom,
       releaseTo: endlessSettings.releaseTo,
+      providerIds: endlessSettings.providerIds,
+      includeRentBuy: endlessSettings.includeRentBuy,
+      region: settings.region,
+      language: resolveTitleLanguage(groupId),
     });
 
     pagesFetchedThisRefill += 1;
@@ -566,6 +741,40 @@ async function refillUpcomingQueue(
   return queue;
 }
 
+// Shared deck mode: the queue lives on the group, so members overlap on the
+// same titles. Returns null when the group deck is unavailable and the caller
+// should fall back to the per-member queue.
+async function ensureSharedQueue(
+  groupId: string,
+  memberId: string,
+  settings: GroupSettings
+): Promise<EndlessQueueItem[] | null> {
+  const seen = new Set(loadSeen(groupId, memberId));
+  const ratedLocal = localRatedTitleKeys(groupId, memberId);
+  const isUnseen = (item: EndlessQueueItem) => !seen.has(item.title_id) && !ratedLocal.has(item.title_id);
+
+  const loaded = await loadSharedDeck(groupId, memberId, TARGET_SIZE);
+  if (loaded.error !== "none") return null;
+  let deck = await filterQueueByProviders(loaded.items.filter(isUnseen), settings);
+
+  if (deck.length < LOW_WATERMARK) {
+    const ratedRemote = await remoteRatedTitleKeys(groupId, memberId);
+    const rated = new Set([...ratedLocal, ...ratedRemote]);
+    const refilled = await refillUpcomingQueue(groupId, memberId, settings, deck, seen, rated);
+    const appended = await appendSharedDeck(groupId, refilled.slice(deck.length));
+    deck = refilled;
+    if (appended.error === "none" && appended.added > 0) {
+      const reloaded = await loadSharedDeck(groupId, memberId, TARGET_SIZE);
+      if (reloaded.error === "none") {
+        deck = await filterQueueByProviders(reloaded.items.filter(isUnseen), settings);
+      }
+    }
+  }
+
+  saveUpcoming(groupId, memberId, deck);
+  return deck;
+}
+
 export function getUpcomingQueue(groupId: string, memberId: string) {
   const seen = new Set(loadSeen(groupId, memberId));
   const ratedLocal = localRatedTitleKeys(groupId, memberId);
@@ -593,13 +802,23 @@ export async function ensureEndlessQueue(
       ? persisted.settings
       : normalizeGroupSettings(settings);
 
+    await pullQueueState(groupId, memberId, effectiveSettings);
+
+    if (getEndlessSettings(effectiveSettings).sharedDeck) {
+      const shared = await ensureSharedQueue(groupId, memberId, effectiveSettings);
+      if (shared) return shared;
+    }
+
     const seen = new Set(loadSeen(groupId, memberId));
     const ratedLocal = localRatedTitleKeys(groupId, memberId);
     let rated = new Set(ratedLocal);
 
-    const dedupedUpcoming = loadUpcoming(groupId, memberId).filter((item) => {
-      return !seen.has(item.title_id) && !rated.has(item.title_id);
-    });
+    const dedupedUpcoming = await filterQueueByProviders(
+      loadUpcoming(groupId, memberId).filter((item) => {
+        return !seen.has(item.title_id) && !rated.has(item.title_id);
+      }),
+      effectiveSettings
+    );
 
     if (dedupedUpcoming.length >= LOW_WATERMARK) {
       saveUpcoming(groupId, memberId, dedupedUpcoming);
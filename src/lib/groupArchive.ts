@@ -0,0 +1,300 @@
+import { listMembers as listMembersDb, listRatings, type RatingRow } from "@/lib/api";
+import { fileNameSlug } from "@/lib/download";
+import { makeJoinCode, migrateLocalGroup, type MigrateLocalGroupResult } from "@/lib/groupStore";
+import { markHostForGroup } from "@/lib/hostStore";
+import {
+  getActiveMember,
+  listMembers,
+  loadRatings,
+  makeId,
+  saveRatings,
+  setActiveMember,
+  upsertMember,
+  type MemberRatings,
+  type RatingValue,
+} from "@/lib/ratings";
+import { getShortlist, setLocalShortlist, type ShortlistSnapshot } from "@/lib/shortlistStore";
+import { createGroupId, normalizeGroupSettings, saveGroup, type Group, type GroupSettings } from "@/lib/storage";
+import { isSupabaseConfigured } from "@/lib/supabase";
+import { getGroupTopTitles, type GroupTopTitle } from "@/lib/topTitlesStore";
+
+// Portable backup of a group. Bump GROUP_ARCHIVE_VERSION when the shape
+// changes and keep parseGroupArchive able to read the older versions.
+export const GROUP_ARCHIVE_FORMAT = "chooseamovie.group";
+export const GROUP_ARCHIVE_VERSION = 1;
+
+export type GroupArchiveMember = {
+  id: string;
+  name: string;
+  createdAt: string;
+  role: "host" | "member";
+};
+
+export type GroupArchiveCustomListItem = {
+  title_id: string;
+  title_snapshot: ShortlistSnapshot;
+  position: number;
+};
+
+export type GroupArchive = {
+  format: typeof GROUP_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  group: {
+    id: string;
+    name: string;
+    createdAt: string;
+    settings: GroupSettings;
+  };
+  members: GroupArchiveMember[];
+  ratings: RatingRow[];
+  customList: GroupArchiveCustomListItem[];
+  topTitles: GroupTopTitle[];   // for reference; imports recompute them from the ratings
+};
+
+export type ParseGroupArchiveResult =
+  | { archive: GroupArchive; error: "none" }
+  | { archive: null; error: "invalid_json" | "not_an_archive" | "unsupported_version" };
+
+export type ImportGroupArchiveResult = {
+  group: Group | null;
+  // Anything but "none" with a group means it was kept on this device only.
+  error: "none" | Exclude<MigrateLocalGroupResult["error"], "not_found">;
+};
+
+async function loadArchiveMembers(groupId: string): Promise<GroupArchiveMember[]> {
+  if (isSupabaseConfigured()) {
+    const remote = await listMembersDb(groupId);
+    if (!remote.error && remote.data) {
+      return remote.data.map((row) => ({
+        id: row.id,
+        name: row.name,
+        createdAt: row.created_at,
+        role: row.role === "host" ? "host" : "member",
+      }));
+    }
+  }
+
+  const activeId = getActiveMember(groupId)?.id ?? null;
+  return listMembers(groupId).map((member) => ({
+    id: member.id,
+    name: member.name,
+    createdAt: member.createdAt,
+    role: member.id === activeId ? "host" : "member",
+  }));
+}
+
+async function loadArchiveRatings(
+  groupId: string,
+  members: GroupArchiveMember[],
+  exportedAt: string
+): Promise<RatingRow[]> {
+  if (isSupabaseConfigured()) {
+    const remote = await listRatings(groupId);
+    if (!remote.error && remote.data) return remote.data;
+  }
+
+  // Local ratings carry no timestamps, so they are stamped with the export time.
+  return members.flatMap((member) =>
+    Object.entries(loadRatings(groupId, member.id)).map(([titleId, rating]) => ({
+      group_id: groupId,
+      member_id: member.id,
+      title_id: titleId,
+      rating,
+      updated_at: exportedAt,
+    }))
+  );
+}
+
+export async function buildGroupArchive(group: Group): Promise<GroupArchive> {
+  const exportedAt = new Date().toISOString();
+  const members = await loadArchiveMembers(group.id);
+  const [ratings, customList, topTitles] = await Promise.all([
+    loadArchiveRatings(group.id, members, exportedAt),
+    getShortlist(group.id),
+    getGroupTopTitles(group.id),
+  ]);
+
+  return {
+    format: GROUP_ARCHIVE_FORMAT,
+    version: GROUP_ARCHIVE_VERSION,
+    exportedAt,
+    group: {
+      id: group.id,
+      name: group.name,
+      createdAt: group.createdAt,
+      settings: group.settings,
+    },
+    members,
+    ratings,
+    customList: customList.map((item) => ({
+      title_id: item.title_id,
+      title_snapshot: item.title_snapshot,
+      position: item.position,
+    })),
+    topTitles: topTitles.rows,
+  };
+}
+
+export function groupArchiveFileName(archive: GroupArchive) {
+  return `chooseamovie-${fileNameSlug(archive.group.name, "group")}-${archive.exportedAt.slice(0, 10)}.json`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function stringOrNull(value: unknown) {
+  return typeof value === "string" && value.trim() ? value : null;
+}
+
+// Entries without a title are dropped; other bad fields fall back to defaults.
+function parseShortlistSnapshot(value: unknown): ShortlistSnapshot | null {
+  if (!isRecord(value) || typeof value.title !== "string" || !value.title.trim()) return null;
+  return {
+    title: value.title.trim(),
+    year: stringOrNull(value.year),
+    poster_path: stringOrNull(value.poster_path),
+    media_type: value.media_type === "tv" ? "tv" : "movie",
+  };
+}
+
+function isRatingValue(value: unknown): value is RatingValue {
+  return typeof value === "number" && Number.isInteger(value) && value >= -1 && value <= 5;
+}
+
+/** Reads an exported file. Malformed members, ratings and list items are dropped. */
+export function parseGroupArchive(text: string): ParseGroupArchiveResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { archive: null, error: "invalid_json" };
+  }
+
+  if (!isRecord(parsed) || parsed.format !== GROUP_ARCHIVE_FORMAT || !isRecord(parsed.group)) {
+    return { archive: null, error: "not_an_archive" };
+  }
+  if (
+    typeof parsed.version !== "number" ||
+    !Number.isInteger(parsed.version) ||
+    parsed.version < 1 ||
+    parsed.version > GROUP_ARCHIVE_VERSION
+  ) {
+    return { archive: null, error: "unsupported_version" };
+  }
+
+  const group = parsed.group;
+  const name = typeof group.name === "string" ? group.name.trim() : "";
+  if (!name) return { archive: null, error: "not_an_archive" };
+
+  const members: GroupArchiveMember[] = (Array.isArray(parsed.members) ? parsed.members : [])
+    .filter(isRecord)
+    .filter((member) => typeof member.id === "string" && typeof member.name === "string")
+    .map((member) => ({
+      id: member.id as string,
+      name: (member.name as string).trim() || "Member",
+      createdAt: typeof member.createdAt === "string" ? member.createdAt : new Date().toISOString(),
+      role: member.role === "host" ? "host" : "member",
+    }));
+  const memberIds = new Set(members.map((member) => member.id));
+
+  const ratings: RatingRow[] = (Array.isArray(parsed.ratings) ? parsed.ratings : [])
+    .filter(isRecord)
+    .filter(
+      (row) =>
+        typeof row.member_id === "string" &&
+        memberIds.has(row.member_id) &&
+        typeof row.title_id === "string" &&
+        isRatingValue(row.rating)
+    )
+    .map((row) => ({
+      group_id: typeof group.id === "string" ? group.id : "",
+      member_id: row.member_id as string,
+      title_id: row.title_id as string,
+      rating: row.rating as number,
+      updated_at: typeof row.updated_at === "string" ? row.updated_at : new Date().toISOString(),
+    }));
+
+  const customList: GroupArchiveCustomListItem[] = (Array.isArray(parsed.customList) ? parsed.customList : [])
+    .filter(isRecord)
+    .flatMap((item, index) => {
+      const snapshot = parseShortlistSnapshot(item.title_snapshot);
+      if (typeof item.title_id !== "string" || !snapshot) return [];
+      return [
+        {
+          title_id: item.title_id,
+          title_snapshot: snapshot,
+          position: typeof item.position === "number" ? item.position : index + 1,
+        },
+      ];
+    });
+
+  return {
+    archive: {
+      format: GROUP_ARCHIVE_FORMAT,
+      version: parsed.version,
+      exportedAt: typeof parsed.exportedAt === "string" ? parsed.exportedAt : "",
+      group: {
+        id: typeof group.id === "string" ? group.id : "",
+        name,
+        createdAt: typeof group.createdAt === "string" ? group.createdAt : new Date().toISOString(),
+        settings: normalizeGroupSettings(isRecord(group.settings) ? (group.settings as Partial<GroupSettings>) : {}),
+      },
+      members,
+      ratings,
+      customList,
+      topTitles: [],
+    },
+    error: "none",
+  };
+}
+
+/**
+ * Recreates an archived group as a new group with a fresh invite. It is
+ * written to this device first and, when Supabase is configured, uploaded
+ * with migrateLocalGroup. The archive's host becomes this device's member.
+ */
+export async function importGroupArchive(archive: GroupArchive): Promise<ImportGroupArchiveResult> {
+  const group: Group = {
+    id: createGroupId(),
+    name: archive.group.name,
+    createdAt: new Date().toISOString(),
+    schemaVersion: 1,
+    joinCode: makeJoinCode(),
+    settings: normalizeGroupSettings(archive.group.settings),
+  };
+  saveGroup(group);
+  markHostForGroup(group.id);
+
+  const ratingsByMember = new Map<string, MemberRatings>();
+  for (const row of archive.ratings) {
+    const ratings = ratingsByMember.get(row.member_id) ?? {};
+    ratings[row.title_id] = row.rating as RatingValue;
+    ratingsByMember.set(row.member_id, ratings);
+  }
+
+  const host = archive.members.find((member) => member.role === "host") ?? archive.members[0] ?? null;
+  for (const member of [...archive.members].reverse()) {
+    const local = { id: makeId(), name: member.name, createdAt: member.createdAt };
+    upsertMember(group.id, local);
+    saveRatings(group.id, local.id, ratingsByMember.get(member.id) ?? {});
+    if (member === host) setActiveMember(group.id, local);
+  }
+
+  setLocalShortlist(
+    group.id,
+    archive.customList.map((item) => ({
+      group_id: group.id,
+      title_id: item.title_id,
+      title_snapshot: item.title_snapshot,
+      position: item.position,
+    }))
+  );
+
+  if (!isSupabaseConfigured()) return { group, error: "none" };
+
+  const migrated = await migrateLocalGroup(group.id);
+  if (migrated.error === "none" && migrated.group) return { group: migrated.group, error: "none" };
+  return { group, error: migrated.error === "not_found" ? "network" : migrated.error };
+}
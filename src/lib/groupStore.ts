@@ -2,16 +2,34 @@ import {
   createGroup as createGroupDb,
   deleteGroup as deleteGroupDb,
   getGroup as getGroupDb,
+  importLocalGroup as importLocalGroupDb,
   leaveGroup as leaveGroupDb,
   listGroupsForUser,
   updateGroupSettings as updateGroupSettingsDb,
   type DbError,
 } from "@/lib/api";
 import { getHostDisplayName } from "@/lib/hostProfileStore";
-import { unmarkHostForGroup } from "@/lib/hostStore";
-import { clearLocalGroupRatingsData } from "@/lib/ratings";
-import { clearLocalShortlist } from "@/lib/shortlistStore";
+import { markHostForGroup, unmarkHostForGroup } from "@/lib/hostStore";
+import { clearLocalMemberLanguage, getMemberLanguage, setMemberLanguage } from "@/lib/languageStore";
+import { clearLocalMatches } from "@/lib/matchStore";
+import { clearLocalRatingOutbox } from "@/lib/ratingOutbox";
 import {
+  VETO_RATING,
+  clearLocalGroupRatingsData,
+  getActiveMember,
+  listMembers,
+  loadRatings,
+  saveRatings,
+  setActiveMember,
+  upsertMember,
+  type Member,
+  type MemberRatings,
+} from "@/lib/ratings";
+import { clearLocalGroupSession } from "@/lib/sessionStore";
+import { clearLocalSharedDeck } from "@/lib/sharedDeckStore";
+import { clearLocalShortlist, getLocalShortlist, replaceShortlist } from "@/lib/shortlistStore";
+import {
+  listSavedGroups,
   loadGroup,
   normalizeGroupSettings,
   removeSavedGroup,
@@ -37,7 +55,7 @@ export function hasGroupsSchemaMismatch() {
   return groupsSchemaMismatch;
 }
 
-function makeJoinCode() {
+export function makeJoinCode() {
   const bytes = crypto.getRandomValues(new Uint8Array(5));
   return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
 }
@@ -283,6 +301,11 @@ function cleanupLocalGroupState(groupId: string) {
   unmarkHostForGroup(groupId);
   clearLocalGroupRatingsData(groupId);
   clearLocalShortlist(groupId);
+  clearLocalMatches(groupId);
+  clearLocalSharedDeck(groupId);
+  clearLocalGroupSession(groupId);
+  clearLocalMemberLanguage(groupId);
+  clearLocalRatingOutbox(groupId);
 }
 
 export async function deleteGroup(groupId: string): Promise<{
@@ -319,3 +342,130 @@ export async function leaveGroup(groupId: string): Promise<{
   if (isForbiddenLikeError(remote.error)) return { error: "forbidden" };
   return { error: "network" };
 }
+
+/**
+ * Saved groups that exist only on this device: created while Supabase was
+ * unconfigured or unreachable, so they never got an owner. A group counts as
+ * local-only once Supabase confirms it has no such row; groups that cannot be
+ * checked right now are left out.
+ */
+export async function listLocalOnlyGroups(): Promise<Group[]> {
+  if (!isSupabaseConfigured() || typeof window === "undefined") return [];
+
+  const candidates = listSavedGroups().filter((group) => !group.ownerUserId);
+  const localOnly: Group[] = [];
+  for (const group of candidates) {
+    const remote = await getGroupDb(group.id);
+    if (!remote.error && !remote.data) localOnly.push(group);
+  }
+  return localOnly;
+}
+
+export type MigrateLocalGroupResult = {
+  group: Group | null;
+  error: "none" | "not_found" | "auth_failed" | "forbidden" | "network";
+};
+
+// The server enforces the veto budget per member, so vetoes past it (cast
+// before the budget was lowered) are uploaded as skips instead of failing.
+function ratingsWithinVetoBudget(ratings: MemberRatings, vetoBudget: number): MemberRatings {
+  let vetoes = 0;
+  const next: MemberRatings = {};
+  for (const [titleId, value] of Object.entries(ratings)) {
+    if (value === VETO_RATING) {
+      vetoes += 1;
+      next[titleId] = vetoes <= vetoBudget ? value : 0;
+    } else {
+      next[titleId] = value;
+    }
+  }
+  return next;
+}
+
+/**
+ * Re-creates a local-only group in Supabase with its members, ratings and
+ * custom list, then moves the device's copy over to the server IDs. The
+ * member active on this device becomes the host member.
+ */
+export async function migrateLocalGroup(groupId: string): Promise<MigrateLocalGroupResult> {
+  const local = loadGroup(groupId);
+  if (!local) return { group: null, error: "not_found" };
+  if (!isSupabaseConfigured()) return { group: null, error: "network" };
+
+  const members = listMembers(groupId);
+  const self =
+    getActiveMember(groupId) ??
+    [...members].sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0] ??
+    null;
+  const localMembers: Member[] =
+    self && !members.some((member) => member.id === self.id) ? [self, ...members] : members;
+  const hostName = self?.name.trim() || getHostDisplayName().trim() || "Host";
+
+  const created = await createGroupDb(
+    local.name,
+    local.settings as unknown as Record<string, unknown>,
+    local.schemaVersion,
+    hostName
+  );
+  if (created.error || !created.data) {
+    if (isAuthRequiredError(created.error) || isHostAccountRequiredError(created.error)) {
+      return { group: null, error: "auth_failed" };
+    }
+    return { group: null, error: "network" };
+  }
+
+  const resolved = mapDbGroupToLocal(created.data);
+  const ratingsByMember = new Map(
+    localMembers.map((member) => [
+      member.id,
+      ratingsWithinVetoBudget(loadRatings(groupId, member.id), local.settings.vetoBudget),
+    ])
+  );
+  const imported = await importLocalGroupDb(
+    resolved.id,
+    localMembers.map((member) => ({
+      local_id: member.id,
+      name: member.name,
+      created_at: member.createdAt,
+      is_self: member.id === self?.id,
+      ratings: ratingsByMember.get(member.id) ?? {},
+    }))
+  );
+  if (imported.error) {
+    // Drop the half-made copy so a retry does not leave an empty duplicate.
+    await deleteGroupDb(resolved.id);
+    if (isForbiddenLikeError(imported.error) || imported.error.message?.includes("forbidden")) {
+      return { group: null, error: "forbidden" };
+    }
+    return { group: null, error: "network" };
+  }
+
+  const serverIds = new Map(
+    (imported.data ?? []).map((row) => [row.local_member_id, row.server_member_id])
+  );
+  saveGroup(resolved);
+  markHostForGroup(resolved.id);
+  // upsertMember prepends, so walk backwards to keep the local order.
+  for (const member of [...localMembers].reverse()) {
+    const serverId = serverIds.get(member.id);
+    if (!serverId) continue;
+    const moved: Member = { ...member, id: serverId };
+    upsertMember(resolved.id, moved);
+    saveRatings(resolved.id, serverId, ratingsByMember.get(member.id) ?? {});
+    if (member.id === self?.id) setActiveMember(resolved.id, moved);
+  }
+
+  const language = getMemberLanguage(groupId);
+  if (language) setMemberLanguage(resolved.id, language);
+
+  const shortlist = getLocalShortlist(groupId);
+  if (shortlist.length > 0) {
+    await replaceShortlist(
+      resolved.id,
+      shortlist.map((item) => ({ titleKey: item.title_id, snapshot: item.title_snapshot }))
+    );
+  }
+
+  cleanupLocalGroupState(groupId);
+  return { group: resolved, error: "none" };
+}
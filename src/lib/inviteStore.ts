@@ -0,0 +1,181 @@
+import {
+  createGroupInvite,
+  ensureGroupShortCode,
+  listGroupInvites,
+  revokeGroupInvite,
+  type DbError,
+  type GroupInviteRow,
+} from "@/lib/api";
+import { makeJoinCode } from "@/lib/groupStore";
+import { isValidShortCode, normalizeShortCode } from "@/lib/shortCodes";
+import { isSupabaseConfigured } from "@/lib/supabase";
+
+// Invite codes live in group_invites and are checked by join_group (see
+// supabase/2026-10-19_14_group_invites.sql). Links carry the code as ?invite=.
+// Short codes like 7K2M-Q9X1 stand in for the open link and are typed on
+// /join, which resolves them through the rate-limited /api/join/resolve route
+// (see supabase/2026-10-19_15_group_short_codes.sql and src/lib/shortCodes.ts).
+
+export type InviteRole = "member" | "co_host";
+
+export type GroupInvite = {
+  id: string;
+  code: string;
+  role: InviteRole;
+  createdAt: string;
+  expiresAt: string | null;
+  maxUses: number;   // 0 = unlimited
+  usedCount: number;
+  revokedAt: string | null;
+};
+
+export type InviteStatus = "active" | "expired" | "used_up" | "revoked";
+
+export const INVITE_EXPIRY_OPTIONS: Array<{ value: number; label: string }> = [
+  { value: 0, label: "Never expires" },
+  { value: 1, label: "1 hour" },
+  { value: 24, label: "1 day" },
+  { value: 24 * 7, label: "7 days" },
+  { value: 24 * 30, label: "30 days" },
+];
+
+export const INVITE_MAX_USES_OPTIONS: Array<{ value: number; label: string }> = [
+  { value: 0, label: "Unlimited uses" },
+  { value: 1, label: "1 use" },
+  { value: 5, label: "5 uses" },
+  { value: 10, label: "10 uses" },
+  { value: 25, label: "25 uses" },
+];
+
+const KEY_PENDING_INVITE = (groupId: string) => `chooseamovie:join-invite:${groupId}`;
+
+function isForbiddenError(error: DbError | null | undefined) {
+  if (!error) return false;
+  const text = `${error.code ?? ""} ${error.message ?? ""} ${error.details ?? ""}`.toLowerCase();
+  return text.includes("permission denied") || text.includes("row-level security") || text.includes("forbidden");
+}
+
+function toInvite(row: GroupInviteRow): GroupInvite {
+  return {
+    id: row.id,
+    code: row.code,
+    role: row.role === "co_host" ? "co_host" : "member",
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    maxUses: Number(row.max_uses) || 0,
+    usedCount: Number(row.used_count) || 0,
+    revokedAt: row.revoked_at,
+  };
+}
+
+export function inviteStatus(invite: GroupInvite, now = Date.now()): InviteStatus {
+  if (invite.revokedAt) return "revoked";
+  if (invite.expiresAt && Date.parse(invite.expiresAt) <= now) return "expired";
+  if (invite.maxUses > 0 && invite.usedCount >= invite.maxUses) return "used_up";
+  return "active";
+}
+
+export function buildInviteLink(origin: string, groupId: string, code: string) {
+  return `${origin}/g/${groupId}?invite=${encodeURIComponent(code)}`;
+}
+
+/** Keeps the code from an invite link for this tab, so it survives the sign-in redirect. */
+export function rememberInviteCode(groupId: string, code: string) {
+  if (typeof window === "undefined") return;
+  sessionStorage.setItem(KEY_PENDING_INVITE(groupId), code);
+}
+
+export function getRememberedInviteCode(groupId: string): string | null {
+  if (typeof window === "undefined") return null;
+  return sessionStorage.getItem(KEY_PENDING_INVITE(groupId));
+}
+
+export function forgetInviteCode(groupId: string) {
+  if (typeof window === "undefined") return;
+  sessionStorage.removeItem(KEY_PENDING_INVITE(groupId));
+}
+
+export async function listInvites(groupId: string): Promise<{
+  invites: GroupInvite[];
+  error: "none" | "forbidden" | "network";
+}> {
+  if (!isSupabaseConfigured()) return { invites: [], error: "none" };
+
+  const listed = await listGroupInvites(groupId);
+  if (listed.error) {
+    return { invites: [], error: isForbiddenError(listed.error) ? "forbidden" : "network" };
+  }
+  return { invites: (listed.data ?? []).map(toInvite), error: "none" };
+}
+
+export async function createInvite(
+  groupId: string,
+  options: { role: InviteRole; expiresInHours: number; maxUses: number }
+): Promise<{
+  invite: GroupInvite | null;
+  error: "none" | "forbidden" | "network";
+}> {
+  if (!isSupabaseConfigured()) return { invite: null, error: "forbidden" };
+
+  const expiresAt =
+    options.expiresInHours > 0 ? new Date(Date.now() + options.expiresInHours * 3_600_000).toISOString() : null;
+  const created = await createGroupInvite(groupId, {
+    code: makeJoinCode(),
+    role: options.role,
+    expiresAt,
+    maxUses: Math.max(0, Math.floor(options.maxUses)),
+  });
+  if (created.error || !created.data) {
+    return { invite: null, error: isForbiddenError(created.error) ? "forbidden" : "network" };
+  }
+  return { invite: toInvite(created.data), error: "none" };
+}
+
+export async function revokeInvite(groupId: string, inviteId: string): Promise<{
+  error: "none" | "forbidden" | "network";
+}> {
+  if (!isSupabaseConfigured()) return { error: "forbidden" };
+
+  const revoked = await revokeGroupInvite(groupId, inviteId);
+  if (revoked.error) {
+    return { error: isForbiddenError(revoked.error) ? "forbidden" : "network" };
+  }
+  return { error: "none" };
+}
+
+/** The group's short join code, created on first request. Owner only; needs Supabase. */
+export async function getGroupShortCode(groupId: string): Promise<{
+  shortCode: string | null;
+  error: "none" | "forbidden" | "network";
+}> {
+  if (!isSupabaseConfigured()) return { shortCode: null, error: "none" };
+
+  const ensured = await ensureGroupShortCode(groupId);
+  if (ensured.error || !ensured.data) {
+    return { shortCode: null, error: isForbiddenError(ensured.error) ? "forbidden" : "network" };
+  }
+  return { shortCode: ensured.data, error: "none" };
+}
+
+/** Looks up a typed code. Closed groups and unknown codes both read as not_found. */
+export async function resolveShortCode(input: string): Promise<{
+  groupId: string | null;
+  error: "none" | "not_found" | "rate_limited" | "network" | "unavailable";
+}> {
+  if (!isSupabaseConfigured()) return { groupId: null, error: "unavailable" };
+
+  const code = normalizeShortCode(input);
+  if (!isValidShortCode(code)) return { groupId: null, error: "not_found" };
+
+  try {
+    const response = await fetch(`/api/join/resolve?code=${encodeURIComponent(code)}`);
+    if (response.status === 404) return { groupId: null, error: "not_found" };
+    if (response.status === 429) return { groupId: null, error: "rate_limited" };
+    if (!response.ok) return { groupId: null, error: "network" };
+    const body = (await response.json()) as { groupId?: unknown };
+    if (typeof body.groupId !== "string") return { groupId: null, error: "network" };
+    return { groupId: body.groupId, error: "none" };
+  } catch {
+    return { groupId: null, error: "network" };
+  }
+}
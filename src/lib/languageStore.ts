@@ -0,0 +1,35 @@
+import { loadGroup } from "@/lib/storage";
+import {
+  DEFAULT_TITLE_LANGUAGE,
+  isTitleLanguage,
+  normalizeTitleLanguage,
+  type TitleLanguage,
+} from "@/lib/titleLanguages";
+
+const KEY_MEMBER_LANGUAGE = (groupId: string) => `chooseamovie:member_language:${groupId}`;
+
+/** This device's language override for the group, or null to follow the group. */
+export function getMemberLanguage(groupId: string): TitleLanguage | null {
+  if (typeof window === "undefined") return null;
+  const raw = localStorage.getItem(KEY_MEMBER_LANGUAGE(groupId));
+  return isTitleLanguage(raw) ? raw : null;
+}
+
+export function setMemberLanguage(groupId: string, language: TitleLanguage | null) {
+  if (typeof window === "undefined") return;
+  if (language) {
+    localStorage.setItem(KEY_MEMBER_LANGUAGE(groupId), language);
+  } else {
+    localStorage.removeItem(KEY_MEMBER_LANGUAGE(groupId));
+  }
+}
+
+export function clearLocalMemberLanguage(groupId: string) {
+  setMemberLanguage(groupId, null);
+}
+
+/** Language to fetch and cache title metadata in: the member's override, then the group setting. */
+export function resolveTitleLanguage(groupId: string): TitleLanguage {
+  if (typeof window === "undefined") return DEFAULT_TITLE_LANGUAGE;
+  return getMemberLanguage(groupId) ?? normalizeTitleLanguage(loadGroup(groupId)?.settings.language);
+}
@@ -0,0 +1,134 @@
+import { listGroupMatches, type DbError } from "@/lib/api";
+import { listMembers, loadRatings } from "@/lib/ratings";
+import { loadGroup } from "@/lib/storage";
+import { isSupabaseConfigured } from "@/lib/supabase";
+
+const LOCAL_MATCHES_KEY = (groupId: string) => `chooseamovie:group_matches:${groupId}`;
+const SEEN_MATCHES_KEY = (groupId: string) => `chooseamovie:group_matches_seen:${groupId}`;
+
+// A one-person group would "match" on every high rating.
+const MIN_MATCH_MEMBERS = 2;
+
+export type GroupMatch = {
+  id: string;
+  titleId: string;
+  threshold: number;
+  memberCount: number;
+  matchedAt: string;
+};
+
+function isForbiddenError(error: DbError | null | undefined) {
+  if (!error) return false;
+  const text = `${error.message ?? ""} ${error.details ?? ""}`.toLowerCase();
+  return text.includes("permission denied") || text.includes("row-level security");
+}
+
+function sortMatches(matches: GroupMatch[]) {
+  return [...matches].sort((a, b) => b.matchedAt.localeCompare(a.matchedAt));
+}
+
+function loadLocalMatches(groupId: string): GroupMatch[] {
+  if (typeof window === "undefined") return [];
+  const raw = localStorage.getItem(LOCAL_MATCHES_KEY(groupId));
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as GroupMatch[];
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter((match) => typeof match?.id === "string" && typeof match?.titleId === "string");
+  } catch {
+    return [];
+  }
+}
+
+function saveLocalMatches(groupId: string, matches: GroupMatch[]) {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(LOCAL_MATCHES_KEY(groupId), JSON.stringify(sortMatches(matches)));
+}
+
+function detectLocalMatches(groupId: string): GroupMatch[] {
+  const existing = loadLocalMatches(groupId);
+  const threshold = loadGroup(groupId)?.settings.matchThreshold ?? 0;
+  const members = listMembers(groupId);
+  if (threshold <= 0 || members.length < MIN_MATCH_MEMBERS) return sortMatches(existing);
+
+  const known = new Set(existing.map((match) => match.titleId));
+  const ratingsByMember = members.map((member) => loadRatings(groupId, member.id));
+  const [first, ...rest] = ratingsByMember;
+  const found: GroupMatch[] = [];
+
+  for (const [titleId, value] of Object.entries(first ?? {})) {
+    if (known.has(titleId) || value < threshold) continue;
+    if (!rest.every((ratings) => (ratings[titleId] ?? 0) >= threshold)) continue;
+    found.push({
+      id: `local:${titleId}`,
+      titleId,
+      threshold,
+      memberCount: members.length,
+      matchedAt: new Date().toISOString(),
+    });
+  }
+
+  if (found.length === 0) return sortMatches(existing);
+  const next = [...existing, ...found];
+  saveLocalMatches(groupId, next);
+  return sortMatches(next);
+}
+
+export async function getGroupMatches(groupId: string): Promise<{
+  matches: GroupMatch[];
+  error: "none" | "network";
+  accessDenied?: boolean;
+}> {
+  if (!isSupabaseConfigured()) {
+    return { matches: detectLocalMatches(groupId), error: "none", accessDenied: false };
+  }
+
+  const remote = await listGroupMatches(groupId);
+  if (remote.error) {
+    if (isForbiddenError(remote.error)) {
+      return { matches: [], error: "none", accessDenied: true };
+    }
+    return { matches: sortMatches(loadLocalMatches(groupId)), error: "network", accessDenied: false };
+  }
+
+  const matches: GroupMatch[] = (remote.data ?? []).map((row) => ({
+    id: row.id,
+    titleId: row.title_id,
+    threshold: Number(row.threshold ?? 0) || 0,
+    memberCount: Number(row.member_count ?? 0) || 0,
+    matchedAt: row.matched_at,
+  }));
+
+  saveLocalMatches(groupId, matches);
+  return { matches: sortMatches(matches), error: "none", accessDenied: false };
+}
+
+function loadSeenMatchIds(groupId: string): string[] {
+  if (typeof window === "undefined") return [];
+  const raw = localStorage.getItem(SEEN_MATCHES_KEY(groupId));
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Newest match this device has not celebrated yet. */
+export function getUnseenMatch(groupId: string, matches: GroupMatch[]): GroupMatch | null {
+  const seen = new Set(loadSeenMatchIds(groupId));
+  return sortMatches(matches).find((match) => !seen.has(match.id)) ?? null;
+}
+
+export function markMatchesSeen(groupId: string, matchIds: string[]) {
+  if (typeof window === "undefined") return;
+  const next = Array.from(new Set([...loadSeenMatchIds(groupId), ...matchIds]));
+  localStorage.setItem(SEEN_MATCHES_KEY(groupId), JSON.stringify(next));
+}
+
+export function clearLocalMatches(groupId: string) {
+  if (typeof window === "undefined") return;
+  localStorage.removeItem(LOCAL_MATCHES_KEY(groupId));
+  localStorage.removeItem(SEEN_MATCHES_KEY(groupId));
+}
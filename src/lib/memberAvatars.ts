@@ -0,0 +1,134 @@
+import type { Member, MemberAvatar } from "@/lib/ratings";
+import { isSupabaseConfigured } from "@/lib/supabase";
+
+// Avatar choices and image handling for members (see
+// supabase/2026-10-19_17_member_profiles.sql). Pictures are cropped to a square
+// and shrunk before upload; local groups keep them as data URLs. Avatars are
+// drawn without image optimisation, so only pictures from this project's
+// member-avatars bucket, in the member's own folder, are ever shown.
+
+export const MEMBER_AVATAR_BUCKET = "member-avatars";
+
+export const AVATAR_COLORS = [
+  "#e50914",
+  "#f5c518",
+  "#22c55e",
+  "#06b6d4",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+  "#f97316",
+];
+
+export const AVATAR_EMOJI = [
+  "\u{1F37F}",
+  "\u{1F3AC}",
+  "\u{1F47D}",
+  "\u{1F916}",
+  "\u{1F47B}",
+  "\u{1F984}",
+  "\u{1F436}",
+  "\u{1F431}",
+  "\u{1F98A}",
+  "\u{1F438}",
+  "\u{1F419}",
+  "\u{1F355}",
+  "\u{1F680}",
+  "\u{1F31F}",
+  "\u{1F3B8}",
+  "\u{1F60E}",
+];
+
+export const MAX_MEMBER_NAME_LENGTH = 40;
+
+const UPLOAD_IMAGE_SIZE = 128;
+const LOCAL_IMAGE_SIZE = 96;
+
+/** Stable colour for members who never picked one, so lists still tell people apart. */
+export function defaultAvatarColor(memberId: string) {
+  let hash = 0;
+  for (let i = 0; i < memberId.length; i += 1) hash = (hash * 31 + memberId.charCodeAt(i)) | 0;
+  return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length];
+}
+
+export function resolveAvatar(member: Pick<Member, "id" | "avatar">): MemberAvatar {
+  return member.avatar ?? { color: defaultAvatarColor(member.id), emoji: null, imageUrl: null };
+}
+
+function memberAvatarUrlPrefix() {
+  const base = process.env.NEXT_PUBLIC_SUPABASE_URL?.trim().replace(/\/+$/, "");
+  return base ? `${base}/storage/v1/object/public/${MEMBER_AVATAR_BUCKET}/` : null;
+}
+
+/**
+ * Bucket path of an uploaded avatar, e.g. "<groupId>/<memberId>/1760000000000.jpg",
+ * or null when the URL is not a picture in that member's own folder.
+ */
+export function memberAvatarStoragePath(imageUrl: string, groupId: string, memberId: string) {
+  const prefix = memberAvatarUrlPrefix();
+  if (!prefix || !imageUrl.startsWith(prefix)) return null;
+  const path = imageUrl.slice(prefix.length);
+  const [folder, member, file, ...rest] = path.split("/");
+  if (folder !== groupId || member !== memberId || rest.length > 0) return null;
+  return file && /^[A-Za-z0-9_-]+\.(jpg|png|webp)$/.test(file) ? path : null;
+}
+
+function isAllowedAvatarImageUrl(imageUrl: string, owner: { groupId: string; memberId: string }) {
+  if (!isSupabaseConfigured()) return /^data:image\/(jpeg|png|webp);base64,[A-Za-z0-9+/=]+$/.test(imageUrl);
+  return memberAvatarStoragePath(imageUrl, owner.groupId, owner.memberId) !== null;
+}
+
+/** Reads a stored avatar. Pictures from anywhere other than the member's own folder are dropped. */
+export function parseMemberAvatar(
+  raw: unknown,
+  owner: { groupId: string; memberId: string }
+): MemberAvatar | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const value = raw as Record<string, unknown>;
+  const color = typeof value.color === "string" && /^#[0-9a-f]{6}$/i.test(value.color) ? value.color : null;
+  if (!color) return undefined;
+  const imageUrl = typeof value.imageUrl === "string" ? value.imageUrl : "";
+  return {
+    color,
+    emoji: typeof value.emoji === "string" && value.emoji ? value.emoji : null,
+    imageUrl: imageUrl && isAllowedAvatarImageUrl(imageUrl, owner) ? imageUrl : null,
+  };
+}
+
+/** Centre-crops an image file to a square JPEG. Returns null when the browser cannot read it. */
+export async function resizeAvatarImage(file: Blob, local = false): Promise<Blob | null> {
+  const size = local ? LOCAL_IMAGE_SIZE : UPLOAD_IMAGE_SIZE;
+  try {
+    const bitmap = await createImageBitmap(file);
+    const side = Math.min(bitmap.width, bitmap.height);
+    const canvas = document.createElement("canvas");
+    canvas.width = size;
+    canvas.height = size;
+    const context = canvas.getContext("2d");
+    if (!context) return null;
+    context.drawImage(
+      bitmap,
+      (bitmap.width - side) / 2,
+      (bitmap.height - side) / 2,
+      side,
+      side,
+      0,
+      0,
+      size,
+      size
+    );
+    bitmap.close();
+    return await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", 0.85));
+  } catch {
+    return null;
+  }
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
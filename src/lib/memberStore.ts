@@ -1,13 +1,36 @@
 import {
   ensureAuth,
   getAuthUserId,
+  approveMember,
   getMemberForCurrentUserInGroup,
   joinGroup,
   listMembers as listMembersDb,
+  listPendingMembers,
   removeMember,
+  removeMemberAvatar,
+  setMemberRole,
+  updateMemberProfile,
+  uploadMemberAvatar,
   type DbError,
 } from "@/lib/api";
-import { ensureMemberByName, getActiveMember, listMembers, upsertMember, type Member } from "@/lib/ratings";
+import {
+  blobToDataUrl,
+  MAX_MEMBER_NAME_LENGTH,
+  memberAvatarStoragePath,
+  parseMemberAvatar,
+  resizeAvatarImage,
+} from "@/lib/memberAvatars";
+import {
+  clearRatedAt,
+  ensureMemberByName,
+  getActiveMember,
+  listMembers,
+  setActiveMember,
+  upsertMember,
+  type Member,
+  type MemberAvatar,
+  type MemberRole,
+} from "@/lib/ratings";
 import { isSupabaseConfigured } from "@/lib/supabase";
 
 function isNetworkLikeError(error: DbError | null | undefined) {
@@ -28,7 +51,8 @@ function isForbiddenError(error: DbError | null | undefined) {
     text.includes("permission denied") ||
     text.includes("row-level security") ||
     text.includes("forbidden") ||
-    text.includes("cannot_remove_host")
+    text.includes("cannot_remove_host") ||
+    text.includes("cannot_change_host")
   );
 }
 
@@ -38,23 +62,53 @@ function isNotFoundError(error: DbError | null | undefined) {
   return text.includes("member_not_found") || text.includes("not found");
 }
 
+function isInvalidProfileError(error: DbError | null | undefined) {
+  if (!error) return false;
+  const text = `${error.code ?? ""} ${error.message ?? ""}`.toLowerCase();
+  return text.includes("invalid_member_name") || text.includes("invalid_avatar");
+}
+
 function isInvalidJoinCodeError(error: DbError | null | undefined) {
   if (!error) return false;
   const text = `${error.code ?? ""} ${error.message ?? ""} ${error.details ?? ""}`.toLowerCase();
   return text.includes("invalid_join_code") || text.includes("join_code") || text.includes("invalid");
 }
 
+function inviteErrorKind(error: DbError | null | undefined): "invite_expired" | "invite_used_up" | "link_closed" | null {
+  if (!error) return null;
+  const text = `${error.code ?? ""} ${error.message ?? ""}`.toLowerCase();
+  if (text.includes("invite_expired")) return "invite_expired";
+  if (text.includes("invite_used_up")) return "invite_used_up";
+  if (text.includes("open_link_disabled")) return "link_closed";
+  return null;
+}
+
 function isAuthRequiredError(error: DbError | null | undefined) {
   if (!error) return false;
   const text = `${error.code ?? ""} ${error.message ?? ""}`.toLowerCase();
   return text.includes("auth_required") || text.includes("not authenticated");
 }
 
-function toMember(row: { id: string; name: string; created_at?: string | null }): Member {
+function toMemberRole(role: string | null | undefined): MemberRole {
+  return role === "host" || role === "co_host" ? role : "member";
+}
+
+function toMember(row: {
+  id: string;
+  group_id: string;
+  name: string;
+  created_at?: string | null;
+  role?: string | null;
+  status?: string | null;
+  avatar?: unknown;
+}): Member {
   return {
     id: row.id,
     name: row.name,
     createdAt: row.created_at ?? new Date().toISOString(),
+    role: toMemberRole(row.role),
+    status: row.status === "pending" ? "pending" : "active",
+    avatar: parseMemberAvatar(row.avatar, { groupId: row.group_id, memberId: row.id }),
   };
 }
 
@@ -69,12 +123,24 @@ function logJoinAttempt(details: {
   console.info("[joinGroup]", details);
 }
 
+export type JoinGroupError =
+  | "none"
+  | "invalid_code"
+  | "invite_expired"
+  | "invite_used_up"
+  | "link_closed"
+  | "auth_failed"
+  | "network"
+  | "unknown";
+
+/** Joins with an invite code, or with the plain group link when `inviteCode` is missing. */
 export async function joinGroupMember(
   groupId: string,
-  name: string
+  name: string,
+  inviteCode?: string | null
 ): Promise<{
   member: Member | null;
-  error: "none" | "invalid_code" | "auth_failed" | "network" | "unknown";
+  error: JoinGroupError;
 }> {
   const trimmed = name.trim();
   if (!isSupabaseConfigured()) {
@@ -94,7 +160,7 @@ export async function joinGroupMember(
     return { member: null, error: "auth_failed" };
   }
 
-  const joined = await joinGroup(groupId, groupId, trimmed);
+  const joined = await joinGroup(groupId, inviteCode?.trim() || groupId, trimmed);
   if (joined.error) {
     logJoinAttempt({
       groupId,
@@ -107,6 +173,10 @@ export async function joinGroupMember(
     if (isAuthRequiredError(joined.error)) {
       return { member: null, error: "auth_failed" };
     }
+    const inviteError = inviteErrorKind(joined.error);
+    if (inviteError) {
+      return { member: null, error: inviteError };
+    }
     if (isInvalidJoinCodeError(joined.error)) {
       return { member: null, error: "invalid_code" };
     }
@@ -119,7 +189,7 @@ export async function joinGroupMember(
   if (!joined.data) return { member: null, error: "unknown" };
 
   const member = toMember(joined.data);
-  upsertMember(groupId, member);
+  if (member.status !== "pending") upsertMember(groupId, member);
   logJoinAttempt({ groupId, userId, outcome: "success" });
   return { member, error: "none" };
 }
@@ -150,7 +220,7 @@ export async function getCurrentGroupMember(groupId: string): Promise<{
   }
 
   const member = toMember(mine.data);
-  upsertMember(groupId, member);
+  if (member.status !== "pending") upsertMember(groupId, member);
   return { member, error: "none" };
 }
 
@@ -208,6 +278,7 @@ export async function removeGroupMember(groupId: string, memberId: string): Prom
     const local = listMembers(groupId).filter((member) => member.id !== memberId);
     localStorage.setItem(`chooseamovie:members:${groupId}`, JSON.stringify(local));
     localStorage.removeItem(`chooseamovie:ratings:${groupId}:${memberId}`);
+    clearRatedAt(groupId, memberId);
     return { error: "none" };
   }
 
@@ -222,5 +293,149 @@ export async function removeGroupMember(groupId: string, memberId: string): Prom
   const local = listMembers(groupId).filter((member) => member.id !== memberId);
   localStorage.setItem(`chooseamovie:members:${groupId}`, JSON.stringify(local));
   localStorage.removeItem(`chooseamovie:ratings:${groupId}:${memberId}`);
+  clearRatedAt(groupId, memberId);
   return { error: "none" };
 }
+
+/** People waiting for approval to join. Owner and co-hosts only; empty without Supabase. */
+export async function listPendingGroupMembers(groupId: string): Promise<{
+  members: Member[];
+  error: "none" | "network" | "forbidden";
+}> {
+  if (!isSupabaseConfigured()) return { members: [], error: "none" };
+
+  const listed = await listPendingMembers(groupId);
+  if (listed.error) {
+    return { members: [], error: isForbiddenError(listed.error) ? "forbidden" : "network" };
+  }
+  return { members: (listed.data ?? []).map((row) => toMember(row)), error: "none" };
+}
+
+/** Lets a pending member in. Turning a request down is `removeGroupMember`. */
+export async function approveGroupMember(groupId: string, memberId: string): Promise<{
+  member: Member | null;
+  error: "none" | "network" | "forbidden" | "not_found";
+}> {
+  if (!isSupabaseConfigured()) return { member: null, error: "forbidden" };
+
+  const approved = await approveMember(groupId, memberId);
+  if (approved.error || !approved.data) {
+    if (isNotFoundError(approved.error)) return { member: null, error: "not_found" };
+    return { member: null, error: isForbiddenError(approved.error) ? "forbidden" : "network" };
+  }
+
+  const member = toMember(approved.data);
+  upsertMember(groupId, member);
+  return { member, error: "none" };
+}
+
+/** Owner only: makes a member a co-host or turns a co-host back into a member. */
+export async function setGroupMemberRole(
+  groupId: string,
+  memberId: string,
+  role: "co_host" | "member"
+): Promise<{
+  member: Member | null;
+  error: "none" | "network" | "forbidden" | "not_found";
+}> {
+  if (!isSupabaseConfigured()) {
+    const local = listMembers(groupId).find((member) => member.id === memberId);
+    if (!local) return { member: null, error: "not_found" };
+    const updated: Member = { ...local, role };
+    upsertMember(groupId, updated);
+    return { member: updated, error: "none" };
+  }
+
+  const updated = await setMemberRole(groupId, memberId, role);
+  if (updated.error || !updated.data) {
+    if (isNotFoundError(updated.error)) return { member: null, error: "not_found" };
+    return { member: null, error: isForbiddenError(updated.error) ? "forbidden" : "network" };
+  }
+
+  const member = toMember(updated.data);
+  upsertMember(groupId, member);
+  return { member, error: "none" };
+}
+
+function rememberOwnMember(groupId: string, member: Member) {
+  upsertMember(groupId, member);
+  if (getActiveMember(groupId)?.id === member.id) setActiveMember(groupId, member);
+}
+
+// Best effort: a failed delete only leaves an unused file in the bucket.
+async function discardUploadedAvatar(groupId: string, memberId: string, imageUrl: string | null) {
+  const path = imageUrl ? memberAvatarStoragePath(imageUrl, groupId, memberId) : null;
+  if (path) await removeMemberAvatar(path);
+}
+
+/**
+ * Renames the current member inside the group and sets their avatar (null = back to the default).
+ * `previousImageUrl` is the picture saved before this change; it is deleted once it is no longer used.
+ */
+export async function updateGroupMemberProfile(
+  groupId: string,
+  memberId: string,
+  profile: { name: string; avatar: MemberAvatar | null },
+  previousImageUrl: string | null = null
+): Promise<{
+  member: Member | null;
+  error: "none" | "invalid_name" | "forbidden" | "network";
+}> {
+  const name = profile.name.trim();
+  if (!name || name.length > MAX_MEMBER_NAME_LENGTH) return { member: null, error: "invalid_name" };
+
+  if (!isSupabaseConfigured()) {
+    const local = listMembers(groupId).find((member) => member.id === memberId) ?? getActiveMember(groupId);
+    if (!local || local.id !== memberId) return { member: null, error: "forbidden" };
+    const updated: Member = { ...local, name, avatar: profile.avatar ?? undefined };
+    rememberOwnMember(groupId, updated);
+    return { member: updated, error: "none" };
+  }
+
+  const updated = await updateMemberProfile(groupId, name, profile.avatar);
+  if (updated.error || !updated.data) {
+    if (isInvalidProfileError(updated.error)) return { member: null, error: "invalid_name" };
+    return { member: null, error: isForbiddenError(updated.error) ? "forbidden" : "network" };
+  }
+
+  const member = toMember(updated.data);
+  rememberOwnMember(groupId, member);
+  if (previousImageUrl !== (member.avatar?.imageUrl ?? null)) {
+    await discardUploadedAvatar(groupId, memberId, previousImageUrl);
+  }
+  return { member, error: "none" };
+}
+
+/**
+ * Shrinks a picture and stores it: in the member-avatars bucket with Supabase,
+ * as a data URL otherwise. The avatar itself is saved with updateGroupMemberProfile.
+ * `replacing` is an earlier upload that was never saved; it is deleted once the new one is stored.
+ */
+export async function uploadMemberAvatarImage(
+  groupId: string,
+  memberId: string,
+  file: File,
+  replacing: string | null = null
+): Promise<{
+  imageUrl: string | null;
+  error: "none" | "unreadable" | "forbidden" | "network";
+}> {
+  const local = !isSupabaseConfigured();
+  const image = await resizeAvatarImage(file, local);
+  if (!image) return { imageUrl: null, error: "unreadable" };
+
+  if (local) {
+    try {
+      return { imageUrl: await blobToDataUrl(image), error: "none" };
+    } catch {
+      return { imageUrl: null, error: "unreadable" };
+    }
+  }
+
+  const uploaded = await uploadMemberAvatar(groupId, memberId, image);
+  if (uploaded.error || !uploaded.data) {
+    return { imageUrl: null, error: isForbiddenError(uploaded.error) ? "forbidden" : "network" };
+  }
+  await discardUploadedAvatar(groupId, memberId, replacing);
+  return { imageUrl: uploaded.data, error: "none" };
+}
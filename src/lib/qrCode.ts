@@ -0,0 +1,374 @@
+// Minimal QR code encoder for invite links: byte mode, error correction level
+// M, versions 1-10 (up to 213 bytes). Follows ISO/IEC 18004; no network calls.
+
+export type QrMatrix = {
+  size: number;
+  modules: boolean[][]; // [row][column], true = dark
+};
+
+type VersionSpec = {
+  ecPerBlock: number;
+  blocks: Array<{ count: number; dataCodewords: number }>;
+  alignment: number[];
+};
+
+// Level M block layout per version (index = version - 1).
+const VERSIONS: VersionSpec[] = [
+  { ecPerBlock: 10, blocks: [{ count: 1, dataCodewords: 16 }], alignment: [] },
+  { ecPerBlock: 16, blocks: [{ count: 1, dataCodewords: 28 }], alignment: [6, 18] },
+  { ecPerBlock: 26, blocks: [{ count: 1, dataCodewords: 44 }], alignment: [6, 22] },
+  { ecPerBlock: 18, blocks: [{ count: 2, dataCodewords: 32 }], alignment: [6, 26] },
+  { ecPerBlock: 24, blocks: [{ count: 2, dataCodewords: 43 }], alignment: [6, 30] },
+  { ecPerBlock: 16, blocks: [{ count: 4, dataCodewords: 27 }], alignment: [6, 34] },
+  { ecPerBlock: 18, blocks: [{ count: 4, dataCodewords: 31 }], alignment: [6, 22, 38] },
+  {
+    ecPerBlock: 22,
+    blocks: [
+      { count: 2, dataCodewords: 38 },
+      { count: 2, dataCodewords: 39 },
+    ],
+    alignment: [6, 24, 42],
+  },
+  {
+    ecPerBlock: 22,
+    blocks: [
+      { count: 3, dataCodewords: 36 },
+      { count: 2, dataCodewords: 37 },
+    ],
+    alignment: [6, 26, 46],
+  },
+  {
+    ecPerBlock: 26,
+    blocks: [
+      { count: 4, dataCodewords: 43 },
+      { count: 1, dataCodewords: 44 },
+    ],
+    alignment: [6, 28, 50],
+  },
+];
+
+const EC_LEVEL_M_BITS = 0b00;
+
+function dataCapacity(spec: VersionSpec) {
+  return spec.blocks.reduce((sum, group) => sum + group.count * group.dataCodewords, 0);
+}
+
+function gfMultiply(x: number, y: number) {
+  let z = 0;
+  for (let i = 7; i >= 0; i -= 1) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number) {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i += 1) {
+    for (let j = 0; j < result.length; j += 1) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]) {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() ?? 0);
+    result.push(0);
+    divisor.forEach((coefficient, index) => {
+      result[index] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+function encodeDataCodewords(bytes: Uint8Array, version: number, capacity: number) {
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i -= 1) bits.push((value >>> i) & 1);
+  };
+
+  push(0b0100, 4);
+  push(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((byte) => push(byte, 8));
+  push(0, Math.min(4, capacity * 8 - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacity; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+  return codewords;
+}
+
+function interleaveWithErrorCorrection(data: number[], spec: VersionSpec) {
+  const divisor = reedSolomonDivisor(spec.ecPerBlock);
+  const dataBlocks: number[][] = [];
+  const ecBlocks: number[][] = [];
+  let offset = 0;
+  for (const group of spec.blocks) {
+    for (let i = 0; i < group.count; i += 1) {
+      const block = data.slice(offset, offset + group.dataCodewords);
+      offset += group.dataCodewords;
+      dataBlocks.push(block);
+      ecBlocks.push(reedSolomonRemainder(block, divisor));
+    }
+  }
+
+  const result: number[] = [];
+  const longestBlock = Math.max(...dataBlocks.map((block) => block.length));
+  for (let i = 0; i < longestBlock; i += 1) {
+    dataBlocks.forEach((block) => {
+      if (i < block.length) result.push(block[i]);
+    });
+  }
+  for (let i = 0; i < spec.ecPerBlock; i += 1) {
+    ecBlocks.forEach((block) => result.push(block[i]));
+  }
+  return result;
+}
+
+type QrGrid = {
+  version: number;
+  spec: VersionSpec;
+  size: number;
+  modules: boolean[][];
+  isFunction: boolean[][];
+};
+
+function createGrid(version: number, spec: VersionSpec): QrGrid {
+  const size = version * 4 + 17;
+  return {
+    version,
+    spec,
+    size,
+    modules: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+    isFunction: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+  };
+}
+
+function setFunctionModule(grid: QrGrid, x: number, y: number, dark: boolean) {
+  grid.modules[y][x] = dark;
+  grid.isFunction[y][x] = true;
+}
+
+function drawFinder(grid: QrGrid, cx: number, cy: number) {
+  for (let dy = -4; dy <= 4; dy += 1) {
+    for (let dx = -4; dx <= 4; dx += 1) {
+      const x = cx + dx;
+      const y = cy + dy;
+      if (x < 0 || y < 0 || x >= grid.size || y >= grid.size) continue;
+      const distance = Math.max(Math.abs(dx), Math.abs(dy));
+      setFunctionModule(grid, x, y, distance !== 2 && distance !== 4);
+    }
+  }
+}
+
+function drawAlignment(grid: QrGrid, cx: number, cy: number) {
+  for (let dy = -2; dy <= 2; dy += 1) {
+    for (let dx = -2; dx <= 2; dx += 1) {
+      setFunctionModule(grid, cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }
+}
+
+function drawFormatBits(grid: QrGrid, mask: number) {
+  const data = (EC_LEVEL_M_BITS << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i += 1) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+  const bit = (i: number) => ((bits >>> i) & 1) === 1;
+  const { size } = grid;
+
+  for (let i = 0; i <= 5; i += 1) setFunctionModule(grid, 8, i, bit(i));
+  setFunctionModule(grid, 8, 7, bit(6));
+  setFunctionModule(grid, 8, 8, bit(7));
+  setFunctionModule(grid, 7, 8, bit(8));
+  for (let i = 9; i < 15; i += 1) setFunctionModule(grid, 14 - i, 8, bit(i));
+
+  for (let i = 0; i < 8; i += 1) setFunctionModule(grid, size - 1 - i, 8, bit(i));
+  for (let i = 8; i < 15; i += 1) setFunctionModule(grid, 8, size - 15 + i, bit(i));
+  setFunctionModule(grid, 8, size - 8, true);
+}
+
+function drawVersionBits(grid: QrGrid) {
+  if (grid.version < 7) return;
+  let remainder = grid.version;
+  for (let i = 0; i < 12; i += 1) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  const bits = (grid.version << 12) | remainder;
+  for (let i = 0; i < 18; i += 1) {
+    const dark = ((bits >>> i) & 1) === 1;
+    const a = grid.size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    setFunctionModule(grid, a, b, dark);
+    setFunctionModule(grid, b, a, dark);
+  }
+}
+
+function drawFunctionPatterns(grid: QrGrid) {
+  const { size } = grid;
+  for (let i = 0; i < size; i += 1) {
+    setFunctionModule(grid, 6, i, i % 2 === 0);
+    setFunctionModule(grid, i, 6, i % 2 === 0);
+  }
+
+  drawFinder(grid, 3, 3);
+  drawFinder(grid, size - 4, 3);
+  drawFinder(grid, 3, size - 4);
+
+  const positions = grid.spec.alignment;
+  const last = positions.length - 1;
+  positions.forEach((x, i) => {
+    positions.forEach((y, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      drawAlignment(grid, x, y);
+    });
+  });
+
+  // Reserve the format areas; the real bits are written once the mask is chosen.
+  drawFormatBits(grid, 0);
+  drawVersionBits(grid);
+}
+
+function drawCodewords(grid: QrGrid, codewords: number[]) {
+  const { size } = grid;
+  const totalBits = codewords.length * 8;
+  let index = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vertical = 0; vertical < size; vertical += 1) {
+      for (let j = 0; j < 2; j += 1) {
+        const x = right - j;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (grid.isFunction[y][x] || index >= totalBits) continue;
+        grid.modules[y][x] = ((codewords[index >>> 3] >>> (7 - (index & 7))) & 1) === 1;
+        index += 1;
+      }
+    }
+  }
+}
+
+function applyMask(grid: QrGrid, mask: number) {
+  for (let y = 0; y < grid.size; y += 1) {
+    for (let x = 0; x < grid.size; x += 1) {
+      if (grid.isFunction[y][x]) continue;
+      if (maskApplies(mask, x, y)) grid.modules[y][x] = !grid.modules[y][x];
+    }
+  }
+}
+
+function penaltyScore(grid: QrGrid) {
+  const { size, modules } = grid;
+  let score = 0;
+
+  const scoreLine = (line: boolean[]) => {
+    let run = 1;
+    for (let i = 1; i <= line.length; i += 1) {
+      if (i < line.length && line[i] === line[i - 1]) {
+        run += 1;
+        continue;
+      }
+      if (run >= 5) score += 3 + (run - 5);
+      run = 1;
+    }
+    for (let i = 0; i + 7 <= line.length; i += 1) {
+      const finderLike =
+        line[i] && !line[i + 1] && line[i + 2] && line[i + 3] && line[i + 4] && !line[i + 5] && line[i + 6];
+      if (!finderLike) continue;
+      const lightBefore = i >= 4 && line.slice(i - 4, i).every((dark) => !dark);
+      const lightAfter = i + 11 <= line.length && line.slice(i + 7, i + 11).every((dark) => !dark);
+      if (lightBefore || lightAfter) score += 40;
+    }
+  };
+
+  for (let y = 0; y < size; y += 1) scoreLine(modules[y]);
+  for (let x = 0; x < size; x += 1) scoreLine(modules.map((row) => row[x]));
+
+  let dark = 0;
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      if (modules[y][x]) dark += 1;
+      if (
+        y + 1 < size &&
+        x + 1 < size &&
+        modules[y][x] === modules[y][x + 1] &&
+        modules[y][x] === modules[y + 1][x] &&
+        modules[y][x] === modules[y + 1][x + 1]
+      ) {
+        score += 3;
+      }
+    }
+  }
+  const total = size * size;
+  score += Math.floor(Math.abs(dark * 20 - total * 10) / total) * 10;
+  return score;
+}
+
+function maskApplies(mask: number, x: number, y: number) {
+  switch (mask) {
+    case 0:
+      return (x + y) % 2 === 0;
+    case 1:
+      return y % 2 === 0;
+    case 2:
+      return x % 3 === 0;
+    case 3:
+      return (x + y) % 3 === 0;
+    case 4:
+      return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5:
+      return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6:
+      return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default:
+      return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+/** Encodes text as a QR code matrix, or returns null when it is too long for version 10. */
+export function encodeQrCode(text: string): QrMatrix | null {
+  const bytes = new TextEncoder().encode(text);
+  const versionIndex = VERSIONS.findIndex((spec, index) => {
+    const countBits = index + 1 < 10 ? 8 : 16;
+    return 4 + countBits + bytes.length * 8 <= dataCapacity(spec) * 8;
+  });
+  if (versionIndex < 0) return null;
+
+  const version = versionIndex + 1;
+  const spec = VERSIONS[versionIndex];
+  const codewords = interleaveWithErrorCorrection(
+    encodeDataCodewords(bytes, version, dataCapacity(spec)),
+    spec
+  );
+
+  const grid = createGrid(version, spec);
+  drawFunctionPatterns(grid);
+  drawCodewords(grid, codewords);
+
+  let bestMask = 0;
+  let bestPenalty = Number.POSITIVE_INFINITY;
+  for (let mask = 0; mask < 8; mask += 1) {
+    applyMask(grid, mask);
+    drawFormatBits(grid, mask);
+    const penalty = penaltyScore(grid);
+    if (penalty < bestPenalty) {
+      bestPenalty = penalty;
+      bestMask = mask;
+    }
+    applyMask(grid, mask);
+  }
+  applyMask(grid, bestMask);
+  drawFormatBits(grid, bestMask);
+
+  return { size: grid.size, modules: grid.modules };
+}
@@ -0,0 +1,183 @@
+import { VETO_RATING, type MemberRatings } from "@/lib/ratings";
+
+export type RankingStrategy = "total_stars" | "least_misery" | "borda" | "approval" | "bayesian";
+
+export const DEFAULT_RANKING_STRATEGY: RankingStrategy = "total_stars";
+
+// Keep in sync with public.recompute_group_top_titles.
+export const APPROVAL_MIN_RATING = 4;
+export const BAYESIAN_PRIOR_WEIGHT = 2;
+
+export const RANKING_STRATEGY_OPTIONS: Array<{
+  value: RankingStrategy;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: "total_stars",
+    label: "Total stars",
+    description: "Adds up every star. Titles that many people rated tend to win.",
+  },
+  {
+    value: "least_misery",
+    label: "Least misery",
+    description: "Ranks by the lowest rating a title got, so nobody gets stuck with something they skipped.",
+  },
+  {
+    value: "borda",
+    label: "Borda count",
+    description: "Each member's ratings become a ranking, and titles earn points for every title they beat.",
+  },
+  {
+    value: "approval",
+    label: "Approval",
+    description: `Counts how many members rated a title ${APPROVAL_MIN_RATING} stars or more.`,
+  },
+  {
+    value: "bayesian",
+    label: "Bayesian average",
+    description: "Average rating, pulled toward the group mean when only a few people rated a title.",
+  },
+];
+
+export type RankedTitle = {
+  titleId: string;
+  totalStars: number;
+  avg: number;
+  votes: number;
+  skips: number;
+  score: number;
+};
+
+export function normalizeRankingStrategy(raw: unknown): RankingStrategy {
+  if (
+    raw === "least_misery" ||
+    raw === "borda" ||
+    raw === "approval" ||
+    raw === "bayesian"
+  ) {
+    return raw;
+  }
+  return DEFAULT_RANKING_STRATEGY;
+}
+
+export function rankingStrategyLabel(strategy: RankingStrategy) {
+  return RANKING_STRATEGY_OPTIONS.find((opt) => opt.value === strategy)?.label ?? "Total stars";
+}
+
+export function formatRankingScore(strategy: RankingStrategy, score: number) {
+  if (strategy === "total_stars" || strategy === "approval") return String(Math.round(score));
+  if (strategy === "least_misery") return score > 0 ? String(Math.round(score)) : "Skip";
+  if (strategy === "borda") return Number.isInteger(score) ? String(score) : score.toFixed(1);
+  return score.toFixed(2);
+}
+
+export function rankingScoreUnit(strategy: RankingStrategy) {
+  if (strategy === "least_misery") return "lowest";
+  if (strategy === "borda") return "points";
+  if (strategy === "approval") return "approvals";
+  if (strategy === "bayesian") return "weighted";
+  return "stars";
+}
+
+export function compareRankedTitles(
+  a: Pick<RankedTitle, "titleId" | "totalStars" | "avg" | "votes" | "score">,
+  b: Pick<RankedTitle, "titleId" | "totalStars" | "avg" | "votes" | "score">
+) {
+  if (b.score !== a.score) return b.score - a.score;
+  if (b.totalStars !== a.totalStars) return b.totalStars - a.totalStars;
+  if (b.avg !== a.avg) return b.avg - a.avg;
+  if (b.votes !== a.votes) return b.votes - a.votes;
+  return a.titleId.localeCompare(b.titleId);
+}
+
+// Borda points for one member: every title they rated lower counts as a win,
+// ties count as half a win. Skips (0) and vetoes (-1) sit at the bottom of the ballot.
+function bordaPoints(ratings: MemberRatings) {
+  const values = Object.values(ratings);
+  const points: Record<string, number> = {};
+  for (const [titleId, value] of Object.entries(ratings)) {
+    let lower = 0;
+    let equal = 0;
+    for (const other of values) {
+      if (other < value) lower += 1;
+      else if (other === value) equal += 1;
+    }
+    points[titleId] = lower + (equal - 1) * 0.5;
+  }
+  return points;
+}
+
+/**
+ * Scores and orders every title that has at least one star rating and no vetoes.
+ * Mirrors the server-side recompute so local mode and Supabase agree.
+ */
+export function rankTitles(
+  perMember: Record<string, MemberRatings>,
+  strategy: RankingStrategy
+): RankedTitle[] {
+  const totals: Record<
+    string,
+    { sum: number; votes: number; skips: number; vetoes: number; min: number; approvals: number; borda: number }
+  > = {};
+  let groupSum = 0;
+  let groupVotes = 0;
+
+  for (const ratings of Object.values(perMember)) {
+    const borda = strategy === "borda" ? bordaPoints(ratings) : null;
+    for (const [titleId, val] of Object.entries(ratings)) {
+      if (!totals[titleId]) {
+        totals[titleId] = {
+          sum: 0,
+          votes: 0,
+          skips: 0,
+          vetoes: 0,
+          min: Number.POSITIVE_INFINITY,
+          approvals: 0,
+          borda: 0,
+        };
+      }
+      const t = totals[titleId];
+      if (borda) t.borda += borda[titleId] ?? 0;
+      if (val === VETO_RATING) {
+        t.vetoes += 1;
+        continue;
+      }
+      t.min = Math.min(t.min, val);
+      if (val === 0) {
+        t.skips += 1;
+        continue;
+      }
+      t.sum += val;
+      t.votes += 1;
+      if (val >= APPROVAL_MIN_RATING) t.approvals += 1;
+      groupSum += val;
+      groupVotes += 1;
+    }
+  }
+
+  const groupMean = groupVotes ? groupSum / groupVotes : 0;
+
+  const rows: RankedTitle[] = [];
+  for (const [titleId, t] of Object.entries(totals)) {
+    if (t.votes === 0 || t.vetoes > 0) continue;
+    let score: number;
+    if (strategy === "least_misery") score = t.min;
+    else if (strategy === "borda") score = t.borda;
+    else if (strategy === "approval") score = t.approvals;
+    else if (strategy === "bayesian") {
+      score = (BAYESIAN_PRIOR_WEIGHT * groupMean + t.sum) / (BAYESIAN_PRIOR_WEIGHT + t.votes);
+    } else score = t.sum;
+
+    rows.push({
+      titleId,
+      totalStars: t.sum,
+      avg: t.sum / t.votes,
+      votes: t.votes,
+      skips: t.skips,
+      score,
+    });
+  }
+
+  return rows.sort(compareRankedTitles);
+}
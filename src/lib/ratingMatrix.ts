@@ -0,0 +1,135 @@
+import { fileNameSlug } from "@/lib/download";
+import { VETO_RATING, type Member } from "@/lib/ratings";
+import type { GroupTopTitle } from "@/lib/topTitlesStore";
+
+// Spreadsheet export of the results page: one row per title, one column per
+// member. Member cells hold the star rating, "skip", "veto" or nothing.
+
+export type RatingMatrixFormat = "csv" | "tsv";
+
+export type RatingMatrixTitle = {
+  row: GroupTopTitle;
+  ranked: boolean; // false for titles outside the ranking, e.g. vetoed or only skipped
+  title: string;
+  year: string | null;
+  mediaType: "movie" | "tv";
+};
+
+export const RATING_MATRIX_FORMAT_OPTIONS: Array<{ value: RatingMatrixFormat; label: string }> = [
+  { value: "csv", label: "CSV (comma separated)" },
+  { value: "tsv", label: "TSV (tab separated)" },
+];
+
+function memberCell(raw: number | undefined) {
+  if (raw === undefined || !Number.isFinite(raw)) return "";
+  if (raw === VETO_RATING) return "veto";
+  if (raw === 0) return "skip";
+  return String(raw);
+}
+
+/**
+ * Every title any member rated, skipped or vetoed. The `ranked` rows come
+ * first in their order; the rest follow by total stars, with totals worked
+ * out from the members' ratings.
+ */
+export function listEveryRatedTitle(
+  ranked: GroupTopTitle[],
+  perMemberRatings: Record<string, Record<string, number>>
+): Array<{ row: GroupTopTitle; ranked: boolean }> {
+  const rankedIds = new Set(ranked.map((row) => row.titleId));
+  const extraIds = new Set<string>();
+  for (const memberRatings of Object.values(perMemberRatings)) {
+    for (const titleId of Object.keys(memberRatings)) {
+      if (!rankedIds.has(titleId)) extraIds.add(titleId);
+    }
+  }
+
+  const extras = Array.from(extraIds, (titleId): GroupTopTitle => {
+    const stars = Object.values(perMemberRatings)
+      .map((memberRatings) => Number(memberRatings[titleId]))
+      .filter((rating) => Number.isFinite(rating) && rating > 0);
+    const totalStars = stars.reduce((sum, rating) => sum + rating, 0);
+    return {
+      titleId,
+      totalStars,
+      avg: stars.length > 0 ? totalStars / stars.length : 0,
+      votes: stars.length,
+      score: 0,
+      rank: null,
+    };
+  }).sort((a, b) => b.totalStars - a.totalStars || a.titleId.localeCompare(b.titleId));
+
+  return [
+    ...ranked.map((row) => ({ row, ranked: true })),
+    ...extras.map((row) => ({ row, ranked: false })),
+  ];
+}
+
+export function buildRatingMatrix(
+  titles: RatingMatrixTitle[],
+  members: Member[],
+  perMemberRatings: Record<string, Record<string, number>>
+): string[][] {
+  const header = [
+    "Rank",
+    "Title",
+    "Year",
+    "Media type",
+    "Total stars",
+    "Average",
+    "Votes",
+    "Skips",
+    ...members.map((member) => member.name),
+  ];
+
+  const body = titles.map(({ row, ranked, title, year, mediaType }, index) => {
+    const cells = members.map((member) => memberCell(perMemberRatings[member.id]?.[row.titleId]));
+    const skips = members.filter((member) => perMemberRatings[member.id]?.[row.titleId] === 0).length;
+    return [
+      ranked ? String(index + 1) : "",
+      title,
+      year ?? "",
+      mediaType === "tv" ? "TV" : "Movie",
+      String(row.totalStars),
+      row.avg.toFixed(2),
+      String(row.votes),
+      String(skips),
+      ...cells,
+    ];
+  });
+
+  return [header, ...body];
+}
+
+// Member names and custom list titles are user input; a leading quote keeps
+// spreadsheets from reading them as formulas.
+function neutralizeFormula(value: string) {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+function csvCell(value: string) {
+  const safe = neutralizeFormula(value);
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// TSV has no quoting, so tabs and line breaks inside a cell become spaces.
+function tsvCell(value: string) {
+  return neutralizeFormula(value).replace(/[\t\r\n]+/g, " ");
+}
+
+export function formatRatingMatrix(matrix: string[][], format: RatingMatrixFormat) {
+  const lines =
+    format === "csv"
+      ? matrix.map((cells) => cells.map(csvCell).join(","))
+      : matrix.map((cells) => cells.map(tsvCell).join("\t"));
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+export function ratingMatrixFileName(groupName: string, format: RatingMatrixFormat) {
+  const date = new Date().toISOString().slice(0, 10);
+  return `chooseamovie-${fileNameSlug(groupName, "group")}-ratings-${date}.${format}`;
+}
+
+export function ratingMatrixMimeType(format: RatingMatrixFormat) {
+  return format === "csv" ? "text/csv" : "text/tab-separated-values";
+}
@@ -0,0 +1,264 @@
+import {
+  clearRatingIfNotNewer,
+  listRatingsForMember,
+  upsertRatingIfNewer,
+  type DbError,
+} from "@/lib/api";
+import { loadRatings, saveRatings, setRatedAt, type RatingValue } from "@/lib/ratings";
+import { isSupabaseConfigured } from "@/lib/supabase";
+
+// Rating writes wait here until Supabase accepts them, so ratings made offline
+// survive reloads and land once the connection is back. The server keeps
+// whichever write has the newest rated_at (see upsert_rating_if_newer). A
+// null rating clears the title (clear_rating_if_not_newer).
+const KEY_RATING_OUTBOX = "chooseamovie:rating_outbox";
+
+const BASE_RETRY_DELAY_MS = 2_000;
+const MAX_RETRY_DELAY_MS = 5 * 60_000;
+const SYNC_INTERVAL_MS = 30_000;
+
+export type RatingOutboxEntry = {
+  groupId: string;
+  memberId: string;
+  titleId: string;
+  rating: RatingValue | null;
+  ratedAt: string;
+  attempts: number;
+  nextAttemptAt: number;
+};
+
+export type RatingRejection = {
+  groupId: string;
+  memberId: string;
+  titleId: string;
+  reason: "session_closed" | "veto_budget_exceeded" | "forbidden" | "superseded";
+};
+
+const listeners = new Set<() => void>();
+const rejectionListeners = new Set<(rejection: RatingRejection) => void>();
+let flushInFlight: Promise<void> | null = null;
+let syncStarted = false;
+
+function entryKey(entry: Pick<RatingOutboxEntry, "groupId" | "memberId" | "titleId">) {
+  return `${entry.groupId}:${entry.memberId}:${entry.titleId}`;
+}
+
+function loadOutbox(): RatingOutboxEntry[] {
+  if (typeof window === "undefined") return [];
+  const raw = localStorage.getItem(KEY_RATING_OUTBOX);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as RatingOutboxEntry[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveOutbox(entries: RatingOutboxEntry[]) {
+  if (typeof window === "undefined") return;
+  if (entries.length === 0) {
+    localStorage.removeItem(KEY_RATING_OUTBOX);
+  } else {
+    localStorage.setItem(KEY_RATING_OUTBOX, JSON.stringify(entries));
+  }
+  for (const listener of listeners) listener();
+}
+
+function retryDelayMs(attempts: number) {
+  return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+// Connectivity and server hiccups are retried; anything the server rejected
+// on purpose (closed round, removed member, veto budget) never will succeed.
+function isRetryableError(error: DbError) {
+  if (error.code === "auth_required") return true;
+  if (error.status === null || error.status === 0 || error.status >= 500) return true;
+  const text = `${error.message ?? ""} ${error.details ?? ""}`.toLowerCase();
+  return (
+    text.includes("network") ||
+    text.includes("failed to fetch") ||
+    text.includes("fetch failed") ||
+    text.includes("timeout")
+  );
+}
+
+function rejectionReason(error: DbError): RatingRejection["reason"] {
+  const text = `${error.code ?? ""} ${error.message ?? ""}`.toLowerCase();
+  if (text.includes("session_closed")) return "session_closed";
+  if (text.includes("veto_budget_exceeded")) return "veto_budget_exceeded";
+  return "forbidden";
+}
+
+// Puts the server's value for a rejected title back into localStorage, so the
+// optimistic local rating does not linger. If the refetch fails, the next
+// getMemberRatings call replaces it. Returns whether the local value changed.
+async function restoreServerRating(entry: RatingOutboxEntry) {
+  const remote = await listRatingsForMember(entry.groupId, entry.memberId);
+  if (remote.error) return false;
+  // A newer write for the title was queued meanwhile; it owns the local value.
+  if (loadOutbox().some((item) => entryKey(item) === entryKey(entry))) return false;
+
+  const row = (remote.data ?? []).find((item) => item.title_id === entry.titleId);
+  const local = loadRatings(entry.groupId, entry.memberId);
+  const before = local[entry.titleId];
+  if (row) {
+    local[entry.titleId] = Number(row.rating) as RatingValue;
+    setRatedAt(entry.groupId, entry.memberId, entry.titleId, row.updated_at);
+  } else {
+    delete local[entry.titleId];
+    setRatedAt(entry.groupId, entry.memberId, entry.titleId, null);
+  }
+  saveRatings(entry.groupId, entry.memberId, local);
+  return local[entry.titleId] !== before;
+}
+
+/** Queues a rating write, or a clear when `rating` is null. A newer write for the same title replaces the queued one. */
+export function enqueueRatingWrite(
+  groupId: string,
+  memberId: string,
+  titleId: string,
+  rating: RatingValue | null
+) {
+  const entry: RatingOutboxEntry = {
+    groupId,
+    memberId,
+    titleId,
+    rating,
+    ratedAt: new Date().toISOString(),
+    attempts: 0,
+    nextAttemptAt: 0,
+  };
+  const key = entryKey(entry);
+  saveOutbox([...loadOutbox().filter((item) => entryKey(item) !== key), entry]);
+}
+
+export function countPendingRatings(groupId?: string) {
+  const entries = loadOutbox();
+  return groupId ? entries.filter((entry) => entry.groupId === groupId).length : entries.length;
+}
+
+/** Queued writes for one member, newer than anything Supabase has yet. */
+export function listPendingRatings(
+  groupId: string,
+  memberId: string
+): Array<Pick<RatingOutboxEntry, "titleId" | "rating" | "ratedAt">> {
+  return loadOutbox()
+    .filter((entry) => entry.groupId === groupId && entry.memberId === memberId)
+    .map((entry) => ({ titleId: entry.titleId, rating: entry.rating, ratedAt: entry.ratedAt }));
+}
+
+export function subscribeRatingOutbox(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Called after the server permanently rejects a queued rating and the local value was restored. */
+export function subscribeRatingRejections(listener: (rejection: RatingRejection) => void) {
+  rejectionListeners.add(listener);
+  return () => {
+    rejectionListeners.delete(listener);
+  };
+}
+
+export function clearLocalRatingOutbox(groupId: string) {
+  const entries = loadOutbox();
+  const remaining = entries.filter((entry) => entry.groupId !== groupId);
+  if (remaining.length !== entries.length) saveOutbox(remaining);
+}
+
+async function flushDueEntries(force: boolean) {
+  const now = Date.now();
+  const due = loadOutbox().filter((entry) => force || entry.nextAttemptAt <= now);
+
+  for (const entry of due) {
+    const result =
+      entry.rating === null
+        ? await clearRatingIfNotNewer(entry.groupId, entry.memberId, entry.titleId, entry.ratedAt)
+        : await upsertRatingIfNewer(entry.groupId, entry.memberId, entry.titleId, entry.rating, entry.ratedAt);
+
+    // Re-read so writes queued while this request was in flight are kept.
+    const current = loadOutbox();
+    const key = entryKey(entry);
+    const stillQueued = current.find((item) => entryKey(item) === key && item.ratedAt === entry.ratedAt);
+    if (!stillQueued) continue;
+
+    if (!result.error && result.data !== false) {
+      saveOutbox(current.filter((item) => item !== stillQueued));
+      continue;
+    }
+
+    // false: the server kept a newer rating, or this one predates the current
+    // round. A clear that found nothing left to delete is false too, so a
+    // skipped write is only reported when the local value had to change.
+    if (!result.error) {
+      saveOutbox(current.filter((item) => item !== stillQueued));
+      if (!(await restoreServerRating(entry))) continue;
+      const rejection: RatingRejection = {
+        groupId: entry.groupId,
+        memberId: entry.memberId,
+        titleId: entry.titleId,
+        reason: "superseded",
+      };
+      for (const listener of rejectionListeners) listener(rejection);
+      continue;
+    }
+
+    if (!isRetryableError(result.error)) {
+      saveOutbox(current.filter((item) => item !== stillQueued));
+      await restoreServerRating(entry);
+      const rejection: RatingRejection = {
+        groupId: entry.groupId,
+        memberId: entry.memberId,
+        titleId: entry.titleId,
+        reason: rejectionReason(result.error),
+      };
+      for (const listener of rejectionListeners) listener(rejection);
+      continue;
+    }
+
+    const attempts = stillQueued.attempts + 1;
+    saveOutbox(
+      current.map((item) =>
+        item === stillQueued ? { ...item, attempts, nextAttemptAt: Date.now() + retryDelayMs(attempts) } : item
+      )
+    );
+    // The connection is likely down; leave the rest for the next attempt.
+    break;
+  }
+}
+
+/**
+ * Sends queued ratings that are due for a retry. Concurrent calls share one
+ * pass. `force` ignores the backoff, e.g. when the browser comes back online.
+ */
+export function flushRatingOutbox(options: { force?: boolean } = {}): Promise<void> {
+  if (!isSupabaseConfigured() || typeof window === "undefined") return Promise.resolve();
+  if (flushInFlight) return flushInFlight;
+
+  flushInFlight = flushDueEntries(Boolean(options.force)).finally(() => {
+    flushInFlight = null;
+  });
+  return flushInFlight;
+}
+
+/** Retries the outbox on reconnect, on an interval and when another tab queues a rating. */
+export function startRatingOutboxSync() {
+  if (syncStarted || typeof window === "undefined" || !isSupabaseConfigured()) return;
+  syncStarted = true;
+
+  window.addEventListener("online", () => {
+    void flushRatingOutbox({ force: true });
+  });
+  window.addEventListener("storage", (event) => {
+    if (event.key !== KEY_RATING_OUTBOX) return;
+    for (const listener of listeners) listener();
+  });
+  window.setInterval(() => {
+    if (countPendingRatings() > 0) void flushRatingOutbox();
+  }, SYNC_INTERVAL_MS);
+
+  void flushRatingOutbox({ force: true });
+}
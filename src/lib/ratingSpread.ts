@@ -0,0 +1,88 @@
+import { VETO_RATING } from "@/lib/ratings";
+
+// How much the group disagrees about each title. Statistics use the 1-5 star
+// ratings only; skips and vetoes are counted on their own (vetoes in the
+// distribution's 0 bucket) and stay out of the mean and spread.
+
+export type RatingSpread = {
+  count: number;
+  mean: number;
+  stdDev: number;   // population standard deviation, 0 with fewer than two ratings
+  min: number | null;
+  max: number | null;
+  spread: number;   // max - min
+  skips: number;
+  vetoes: number;
+  distribution: Record<0 | 1 | 2 | 3 | 4 | 5, number>;   // 0 = veto
+};
+
+function emptySpread(): RatingSpread {
+  return {
+    count: 0,
+    mean: 0,
+    stdDev: 0,
+    min: null,
+    max: null,
+    spread: 0,
+    skips: 0,
+    vetoes: 0,
+    distribution: { 0: 0, 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 },
+  };
+}
+
+export function computeRatingSpreads(
+  perMember: Record<string, Record<string, number>>
+): Record<string, RatingSpread> {
+  const valuesByTitle: Record<string, number[]> = {};
+  const spreads: Record<string, RatingSpread> = {};
+
+  for (const ratings of Object.values(perMember)) {
+    for (const [titleId, raw] of Object.entries(ratings)) {
+      if (!Number.isFinite(raw)) continue;
+      spreads[titleId] ??= emptySpread();
+      if (raw === 0) {
+        spreads[titleId].skips += 1;
+        continue;
+      }
+      if (raw === VETO_RATING) {
+        spreads[titleId].vetoes += 1;
+        spreads[titleId].distribution[0] += 1;
+        continue;
+      }
+      const value = Math.max(1, Math.min(5, Math.round(raw)));
+      (valuesByTitle[titleId] ??= []).push(value);
+      spreads[titleId].distribution[value as keyof RatingSpread["distribution"]] += 1;
+    }
+  }
+
+  for (const [titleId, values] of Object.entries(valuesByTitle)) {
+    const spread = spreads[titleId];
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+    spread.count = values.length;
+    spread.mean = mean;
+    spread.stdDev = values.length > 1 ? Math.sqrt(variance) : 0;
+    spread.min = Math.min(...values);
+    spread.max = Math.max(...values);
+    spread.spread = spread.max - spread.min;
+  }
+
+  return spreads;
+}
+
+/** Most divisive first: higher standard deviation, then wider spread, then more ratings. */
+export function compareByDivisiveness(
+  a: { titleId: string; spread: RatingSpread | undefined },
+  b: { titleId: string; spread: RatingSpread | undefined }
+) {
+  const stdA = a.spread?.stdDev ?? 0;
+  const stdB = b.spread?.stdDev ?? 0;
+  if (stdB !== stdA) return stdB - stdA;
+  const rangeA = a.spread?.spread ?? 0;
+  const rangeB = b.spread?.spread ?? 0;
+  if (rangeB !== rangeA) return rangeB - rangeA;
+  const countA = a.spread?.count ?? 0;
+  const countB = b.spread?.count ?? 0;
+  if (countB !== countA) return countB - countA;
+  return a.titleId.localeCompare(b.titleId);
+}
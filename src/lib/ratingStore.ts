@@ -1,21 +1,33 @@
 import {
   listMembers as listMembersDb,
   listRatings,
-  upsertRating,
+  listRatingsForMember,
   type DbError,
 } from "@/lib/api";
+import { parseMemberAvatar } from "@/lib/memberAvatars";
 import {
   aggregateGroupRatings,
+  loadRatedAt,
   loadRatings,
   saveRatings,
+  setRatedAt,
   type AggregatedRow,
   type Member,
   type MemberRatings,
   type RatingValue,
   upsertMember,
+  VETO_RATING,
 } from "@/lib/ratings";
+import { enqueueRatingWrite, flushRatingOutbox, listPendingRatings } from "@/lib/ratingOutbox";
+import { isGroupVotingClosed } from "@/lib/sessionStore";
 import { isSupabaseConfigured } from "@/lib/supabase";
 
+export type RecentRating = {
+  titleId: string;
+  rating: RatingValue;
+  ratedAt: string | null;
+};
+
 export type GroupRatingsResult = {
   members: Member[];
   perMember: Record<string, MemberRatings>;
@@ -47,25 +59,125 @@ export async function setRating(
   titleId: string,
   rating: RatingValue
 ): Promise<void> {
+  // Closed sessions are frozen; the server rejects these writes too.
+  if (isGroupVotingClosed(groupId)) return;
+
   const local = loadRatings(groupId, memberId);
   local[titleId] = rating;
   saveRatings(groupId, memberId, local);
+  setRatedAt(groupId, memberId, titleId, new Date().toISOString());
+
+  if (!isSupabaseConfigured()) return;
+  enqueueRatingWrite(groupId, memberId, titleId, rating);
+  void flushRatingOutbox();
+}
+
+/** Removes a rating, skip or veto so the title counts as unrated again. */
+export async function clearRating(groupId: string, memberId: string, titleId: string): Promise<void> {
+  if (isGroupVotingClosed(groupId)) return;
+
+  const local = loadRatings(groupId, memberId);
+  delete local[titleId];
+  saveRatings(groupId, memberId, local);
+  setRatedAt(groupId, memberId, titleId, null);
 
   if (!isSupabaseConfigured()) return;
-  void upsertRating(groupId, memberId, titleId, rating);
+  enqueueRatingWrite(groupId, memberId, titleId, null);
+  void flushRatingOutbox();
+}
+
+/**
+ * One member's ratings, skips and vetoes. Supabase is the source of truth;
+ * ratings still waiting in the outbox win over it. The result is saved locally.
+ */
+export async function getMemberRatings(groupId: string, memberId: string): Promise<{
+  ratings: MemberRatings;
+  error: "none" | "network";
+}> {
+  if (!isSupabaseConfigured()) return { ratings: loadRatings(groupId, memberId), error: "none" };
+
+  const remote = await listRatingsForMember(groupId, memberId);
+  if (remote.error) {
+    return {
+      ratings: loadRatings(groupId, memberId),
+      error: isNetworkLikeError(remote.error) ? "network" : "none",
+    };
+  }
+
+  const ratings: MemberRatings = {};
+  for (const row of remote.data ?? []) {
+    ratings[row.title_id] = Number(row.rating) as RatingValue;
+  }
+  for (const pending of listPendingRatings(groupId, memberId)) {
+    if (pending.rating === null) delete ratings[pending.titleId];
+    else ratings[pending.titleId] = pending.rating;
+  }
+  saveRatings(groupId, memberId, ratings);
+  return { ratings, error: "none" };
+}
+
+/**
+ * One member's ratings, most recently rated first. Uses the rated times from
+ * Supabase when configured and the ones recorded on this device otherwise;
+ * titles without a time go last.
+ */
+export async function getRecentRatings(groupId: string, memberId: string): Promise<{
+  ratings: RecentRating[];
+  error: "none" | "network";
+}> {
+  const ratedAt: Record<string, string> = loadRatedAt(groupId, memberId);
+  let ratings: MemberRatings;
+  let error: "none" | "network" = "none";
+
+  if (isSupabaseConfigured()) {
+    const remote = await listRatingsForMember(groupId, memberId);
+    if (remote.error) {
+      ratings = loadRatings(groupId, memberId);
+      error = isNetworkLikeError(remote.error) ? "network" : "none";
+    } else {
+      ratings = {};
+      for (const row of remote.data ?? []) {
+        ratings[row.title_id] = Number(row.rating) as RatingValue;
+        if (row.updated_at) ratedAt[row.title_id] = row.updated_at;
+      }
+      for (const pending of listPendingRatings(groupId, memberId)) {
+        if (pending.rating === null) delete ratings[pending.titleId];
+        else ratings[pending.titleId] = pending.rating;
+        ratedAt[pending.titleId] = pending.ratedAt;
+      }
+      saveRatings(groupId, memberId, ratings);
+    }
+  } else {
+    ratings = loadRatings(groupId, memberId);
+  }
+
+  const recent: RecentRating[] = Object.entries(ratings).map(([titleId, rating]) => ({
+    titleId,
+    rating,
+    ratedAt: ratedAt[titleId] ?? null,
+  }));
+  // Server and client timestamps are formatted differently, so compare parsed times.
+  const timeOf = (value: string | null) => (value ? Date.parse(value) || 0 : 0);
+  recent.sort((a, b) => {
+    const diff = timeOf(b.ratedAt) - timeOf(a.ratedAt);
+    if (diff !== 0) return diff;
+    return a.titleId.localeCompare(b.titleId);
+  });
+  return { ratings: recent, error };
 }
 
 function aggregateFromRecords(
   members: Member[],
   perMember: Record<string, MemberRatings>
 ): GroupRatingsResult {
-  const totals: Record<string, { sum: number; votes: number; skips: number }> = {};
+  const totals: Record<string, { sum: number; votes: number; skips: number; vetoes: number }> = {};
 
   for (const m of members) {
     const r = perMember[m.id] ?? {};
     for (const [titleId, val] of Object.entries(r)) {
-      if (!totals[titleId]) totals[titleId] = { sum: 0, votes: 0, skips: 0 };
-      if (val === 0) totals[titleId].skips += 1;
+      if (!totals[titleId]) totals[titleId] = { sum: 0, votes: 0, skips: 0, vetoes: 0 };
+      if (val === VETO_RATING) totals[titleId].vetoes += 1;
+      else if (val === 0) totals[titleId].skips += 1;
       else {
         totals[titleId].sum += val;
         totals[titleId].votes += 1;
@@ -79,9 +191,11 @@ function aggregateFromRecords(
     avg: t.votes ? t.sum / t.votes : 0,
     votes: t.votes,
     skips: t.skips,
+    vetoes: t.vetoes,
   }));
 
   rows.sort((a, b) => {
+    if (Boolean(a.vetoes) !== Boolean(b.vetoes)) return a.vetoes ? 1 : -1;
     if (b.totalStars !== a.totalStars) return b.totalStars - a.totalStars;
     if (b.avg !== a.avg) return b.avg - a.avg;
     if (b.votes !== a.votes) return b.votes - a.votes;
@@ -114,6 +228,7 @@ export async function getGroupRatings(groupId: string): Promise<GroupRatingsResu
     id: m.id,
     name: m.name,
     createdAt: m.created_at ?? new Date().toISOString(),
+    avatar: parseMemberAvatar(m.avatar, { groupId, memberId: m.id }),
   }));
 
   const perMember: Record<string, MemberRatings> = {};
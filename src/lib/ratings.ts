@@ -1,18 +1,34 @@
 import type { Group } from "@/lib/storage";
 import type { Title } from "@/lib/titles";
 
+export type MemberRole = "host" | "co_host" | "member";
+
+export type MemberStatus = "active" | "pending";
+
+export type MemberAvatar = {
+  color: string;           // #rrggbb background
+  emoji: string | null;    // shown instead of the name's initial
+  imageUrl: string | null; // uploaded picture, shown over everything else
+};
+
 export type Member = {
   id: string;
   name: string;
   createdAt: string;
+  role?: MemberRole;     // only known for Supabase-backed groups
+  status?: MemberStatus; // "pending" until a host approves the join; Supabase-backed groups only
+  avatar?: MemberAvatar; // unset = initial on a colour picked from the id
 };
 
-export type RatingValue = 0 | 1 | 2 | 3 | 4 | 5; // 0 = skipped
+export type RatingValue = -1 | 0 | 1 | 2 | 3 | 4 | 5; // 0 = skipped, -1 = veto
 export type MemberRatings = Record<string, RatingValue>; // titleId -> rating
 
+export const VETO_RATING = -1;
+
 const KEY_MEMBERS = (groupId: string) => `chooseamovie:members:${groupId}`;
 const KEY_MEMBER_ACTIVE = (groupId: string) => `chooseamovie:member_active:${groupId}`;
 const KEY_RATINGS = (groupId: string, memberId: string) => `chooseamovie:ratings:${groupId}:${memberId}`;
+const KEY_RATED_AT = (groupId: string, memberId: string) => `chooseamovie:rated_at:${groupId}:${memberId}`;
 
 export function makeId() {
   return crypto.randomUUID();
@@ -98,10 +114,36 @@ export function setRating(groupId: string, memberId: string, titleId: string, va
   saveRatings(groupId, memberId, ratings);
 }
 
+/** When each title was last rated on this device (titleId -> ISO time), for the recently rated list. */
+export function loadRatedAt(groupId: string, memberId: string): Record<string, string> {
+  const raw = localStorage.getItem(KEY_RATED_AT(groupId, memberId));
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as Record<string, string>;
+  } catch {
+    return {};
+  }
+}
+
+export function setRatedAt(groupId: string, memberId: string, titleId: string, ratedAt: string | null) {
+  const ratedAtByTitle = loadRatedAt(groupId, memberId);
+  if (ratedAt) ratedAtByTitle[titleId] = ratedAt;
+  else delete ratedAtByTitle[titleId];
+  localStorage.setItem(KEY_RATED_AT(groupId, memberId), JSON.stringify(ratedAtByTitle));
+}
+
+export function clearRatedAt(groupId: string, memberId: string) {
+  localStorage.removeItem(KEY_RATED_AT(groupId, memberId));
+}
+
 export function countRated(ratings: MemberRatings) {
   return Object.keys(ratings).length;
 }
 
+export function countVetoes(ratings: MemberRatings) {
+  return Object.values(ratings).filter((value) => value === VETO_RATING).length;
+}
+
 export function passesGroupFilters(group: Group, title: Title) {
   if (group.settings.contentType === "movies" && title.type !== "movie") return false;
 
@@ -123,6 +165,7 @@ export type AggregatedRow = {
   avg: number;
   votes: number;
   skips: number;
+  vetoes: number;
 };
 
 export function aggregateGroupRatings(groupId: string): {
@@ -132,15 +175,16 @@ export function aggregateGroupRatings(groupId: string): {
 } {
   const members = listMembers(groupId);
   const perMember: Record<string, MemberRatings> = {};
-  const totals: Record<string, { sum: number; votes: number; skips: number }> = {};
+  const totals: Record<string, { sum: number; votes: number; skips: number; vetoes: number }> = {};
 
   for (const m of members) {
     const r = loadRatings(groupId, m.id);
     perMember[m.id] = r;
 
     for (const [titleId, val] of Object.entries(r)) {
-      if (!totals[titleId]) totals[titleId] = { sum: 0, votes: 0, skips: 0 };
-      if (val === 0) totals[titleId].skips += 1;
+      if (!totals[titleId]) totals[titleId] = { sum: 0, votes: 0, skips: 0, vetoes: 0 };
+      if (val === VETO_RATING) totals[titleId].vetoes += 1;
+      else if (val === 0) totals[titleId].skips += 1;
       else {
         totals[titleId].sum += val;
         totals[titleId].votes += 1;
@@ -154,9 +198,12 @@ export function aggregateGroupRatings(groupId: string): {
     avg: t.votes ? t.sum / t.votes : 0,
     votes: t.votes,
     skips: t.skips,
+    vetoes: t.vetoes,
   }));
 
+  // Vetoed titles sink below everything else.
   rows.sort((a, b) => {
+    if (Boolean(a.vetoes) !== Boolean(b.vetoes)) return a.vetoes ? 1 : -1;
     if (b.totalStars !== a.totalStars) return b.totalStars - a.totalStars;
     if (b.avg !== a.avg) return b.avg - a.avg;
     if (b.votes !== a.votes) return b.votes - a.votes;
@@ -166,15 +213,13 @@ export function aggregateGroupRatings(groupId: string): {
   return { members, perMember, rows };
 }
 
-export function clearLocalGroupRatingsData(groupId: string) {
-  localStorage.removeItem(KEY_MEMBERS(groupId));
-  localStorage.removeItem(KEY_MEMBER_ACTIVE(groupId));
-
-  const prefix = `chooseamovie:ratings:${groupId}:`;
+/** Drops every member's ratings for the group but keeps the members. */
+export function clearLocalGroupRatings(groupId: string) {
+  const prefixes = [`chooseamovie:ratings:${groupId}:`, `chooseamovie:rated_at:${groupId}:`];
   const keysToRemove: string[] = [];
   for (let i = 0; i < localStorage.length; i += 1) {
     const key = localStorage.key(i);
-    if (key && key.startsWith(prefix)) {
+    if (key && prefixes.some((prefix) => key.startsWith(prefix))) {
       keysToRemove.push(key);
     }
   }
@@ -183,3 +228,9 @@ export function clearLocalGroupRatingsData(groupId: string) {
     localStorage.removeItem(key);
   }
 }
+
+export function clearLocalGroupRatingsData(groupId: string) {
+  localStorage.removeItem(KEY_MEMBERS(groupId));
+  localStorage.removeItem(KEY_MEMBER_ACTIVE(groupId));
+  clearLocalGroupRatings(groupId);
+}
@@ -0,0 +1,106 @@
+import { startRunoffRound, type GroupSession, type SessionActionError } from "@/lib/sessionStore";
+import { getShortlist, setLocalShortlist, type ShortlistItem, type ShortlistSnapshot } from "@/lib/shortlistStore";
+import { saveGroup, type Group, type GroupSettings } from "@/lib/storage";
+import { getTitleSnapshots, type TitleSnapshot } from "@/lib/titleCacheStore";
+import { parseTmdbTitleKey } from "@/lib/tmdbTitleKey";
+import { getGroupTopTitles } from "@/lib/topTitlesStore";
+
+export const RUNOFF_SIZE_OPTIONS = [3, 5, 8] as const;
+export const DEFAULT_RUNOFF_SIZE = 5;
+
+export type RunoffError = "none" | "not_enough_titles" | Exclude<SessionActionError, "none">;
+
+type Finalist = { titleKey: string; snapshot: ShortlistSnapshot };
+
+function shortlistIndex(titleId: string) {
+  if (!titleId.startsWith("sl:")) return null;
+  const idx = Number(titleId.split(":")[1] ?? -1);
+  return Number.isInteger(idx) && idx >= 0 ? idx : null;
+}
+
+// Custom-list ratings use `sl:<index>:...` ids, so map them back to the
+// custom list entry (and its TMDB key) they were rated from.
+async function resolveFinalists(group: Group, titleIds: string[]): Promise<Finalist[]> {
+  let shortlist: ShortlistItem[] = [];
+  if (titleIds.some((id) => id.startsWith("sl:"))) {
+    shortlist = await getShortlist(group.id);
+  }
+
+  const titleKeys = titleIds.map((titleId) => {
+    const idx = shortlistIndex(titleId);
+    return idx === null ? titleId : shortlist[idx]?.title_id ?? titleId;
+  });
+
+  let cached: Record<string, TitleSnapshot> = {};
+  try {
+    // Finalist names become the group's custom list, so use the group language.
+    cached = await getTitleSnapshots(
+      titleKeys.filter((key) => parseTmdbTitleKey(key)),
+      group.settings.language
+    );
+  } catch {
+    cached = {};
+  }
+
+  return titleIds.map((titleId, index) => {
+    const titleKey = titleKeys[index];
+    const idx = shortlistIndex(titleId);
+    const fromShortlist = idx === null ? null : shortlist[idx]?.title_snapshot ?? null;
+    // The cache stores the title id as a placeholder name until TMDB details load.
+    const fromCache = cached[titleKey] && cached[titleKey].title !== titleKey ? cached[titleKey] : null;
+    const fallbackName =
+      idx === null ? titleId : group.settings.shortlistItems[idx] ?? fromShortlist?.title ?? titleId;
+
+    return {
+      titleKey,
+      snapshot: {
+        title: fromCache?.title ?? fromShortlist?.title ?? fallbackName,
+        year: fromCache?.year ?? fromShortlist?.year ?? null,
+        poster_path: fromCache?.poster_path ?? fromShortlist?.poster_path ?? null,
+        media_type:
+          fromCache?.media_type ?? fromShortlist?.media_type ?? parseTmdbTitleKey(titleKey)?.type ?? "movie",
+      },
+    };
+  });
+}
+
+/**
+ * Seeds a runoff round from the current top titles. The finished round is
+ * archived with its snapshot, ratings are cleared and the group switches to a
+ * custom list holding only the finalists.
+ */
+export async function startRunoff(
+  group: Group,
+  size: number
+): Promise<{ group: Group | null; session: GroupSession | null; error: RunoffError }> {
+  const { rows } = await getGroupTopTitles(group.id);
+  const titleIds = rows
+    .filter((row) => row.votes > 0)
+    .slice(0, size)
+    .map((row) => row.titleId);
+  if (titleIds.length < 2) return { group: null, session: null, error: "not_enough_titles" };
+
+  const finalists = await resolveFinalists(group, titleIds);
+  const items: ShortlistItem[] = finalists.map((finalist, index) => ({
+    group_id: group.id,
+    title_id: finalist.titleKey,
+    title_snapshot: finalist.snapshot,
+    position: index + 1,
+  }));
+  const settings: GroupSettings = {
+    ...group.settings,
+    ratingMode: "shortlist",
+    shortlistItems: finalists.map((finalist) => finalist.snapshot.title),
+  };
+
+  // The round, the custom list and the settings change in one call, so a
+  // rejected or failed runoff leaves all three as they were.
+  const round = await startRunoffRound(group.id, items, settings);
+  if (round.error !== "none") return { group: null, session: round.session, error: round.error };
+
+  setLocalShortlist(group.id, items);
+  const updated: Group = { ...group, settings };
+  saveGroup(updated);
+
+  return { group: updated, session: round.session, error: "none" };
+}
@@ -0,0 +1,272 @@
+import {
+  closeGroupSession as closeGroupSessionDb,
+  getGroupSession as getGroupSessionDb,
+  reopenGroupSession as reopenGroupSessionDb,
+  setGroupSessionDeadline as setGroupSessionDeadlineDb,
+  startGroupRound as startGroupRoundDb,
+  startRunoffRound as startRunoffRoundDb,
+  type DbError,
+  type DbResult,
+  type GroupSessionRow,
+} from "@/lib/api";
+import { clearLocalMatches } from "@/lib/matchStore";
+import { clearLocalGroupRatings } from "@/lib/ratings";
+import type { ShortlistItem } from "@/lib/shortlistStore";
+import type { GroupSettings } from "@/lib/storage";
+import { isSupabaseConfigured } from "@/lib/supabase";
+import { getGroupTopTitles, normalizeTopTitleRows, type GroupTopTitle } from "@/lib/topTitlesStore";
+
+const KEY_SESSION = (groupId: string) => `chooseamovie:group_session:${groupId}`;
+
+export type GroupSessionStatus = "open" | "closed";
+
+export type GroupSession = {
+  id: string;
+  round: number;
+  status: GroupSessionStatus;
+  deadlineAt: string | null;
+  openedAt: string;
+  closedAt: string | null;
+  closedReason: "host" | "deadline" | null;
+  winnerTitleId: string | null;
+  snapshot: GroupTopTitle[];
+};
+
+export type SessionActionError = "none" | "forbidden" | "session_closed" | "invalid_deadline" | "network";
+
+type SessionActionResult = { session: GroupSession | null; error: SessionActionError };
+
+function isForbiddenError(error: DbError | null | undefined) {
+  if (!error) return false;
+  const text = `${error.code ?? ""} ${error.message ?? ""} ${error.details ?? ""}`.toLowerCase();
+  return (
+    text.includes("permission denied") ||
+    text.includes("row-level security") ||
+    text.includes("forbidden")
+  );
+}
+
+function toActionError(error: DbError): SessionActionError {
+  const text = `${error.message ?? ""} ${error.details ?? ""}`.toLowerCase();
+  if (text.includes("session_closed")) return "session_closed";
+  if (text.includes("invalid_deadline")) return "invalid_deadline";
+  if (isForbiddenError(error)) return "forbidden";
+  return "network";
+}
+
+function fromRow(row: GroupSessionRow): GroupSession {
+  return {
+    id: row.id,
+    round: Number(row.round ?? 1) || 1,
+    status: row.status === "closed" ? "closed" : "open",
+    deadlineAt: row.deadline_at ?? null,
+    openedAt: row.opened_at,
+    closedAt: row.closed_at ?? null,
+    closedReason: row.closed_reason === "host" || row.closed_reason === "deadline" ? row.closed_reason : null,
+    winnerTitleId: row.winner_title_id ?? null,
+    snapshot: Array.isArray(row.snapshot) ? normalizeTopTitleRows(row.snapshot) : [],
+  };
+}
+
+function loadLocalSession(groupId: string): GroupSession | null {
+  if (typeof window === "undefined") return null;
+  const raw = localStorage.getItem(KEY_SESSION(groupId));
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as GroupSession;
+    if (!parsed || typeof parsed.id !== "string") return null;
+    return {
+      ...parsed,
+      snapshot: Array.isArray(parsed.snapshot) ? parsed.snapshot : [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+// A new round wipes ratings on the server, so drop the local copies too.
+function saveLocalSession(groupId: string, session: GroupSession) {
+  if (typeof window === "undefined") return;
+  const previous = loadLocalSession(groupId);
+  if (previous && previous.round < session.round) {
+    clearLocalGroupRatings(groupId);
+    clearLocalMatches(groupId);
+  }
+  localStorage.setItem(KEY_SESSION(groupId), JSON.stringify(session));
+}
+
+function createLocalSession(round: number): GroupSession {
+  return {
+    id: `local:${round}`,
+    round,
+    status: "open",
+    deadlineAt: null,
+    openedAt: new Date().toISOString(),
+    closedAt: null,
+    closedReason: null,
+    winnerTitleId: null,
+    snapshot: [],
+  };
+}
+
+async function closeLocalSession(
+  groupId: string,
+  session: GroupSession,
+  reason: "host" | "deadline"
+): Promise<GroupSession> {
+  const { rows } = await getGroupTopTitles(groupId);
+  const closed: GroupSession = {
+    ...session,
+    status: "closed",
+    closedAt: new Date().toISOString(),
+    closedReason: reason,
+    winnerTitleId: rows[0]?.titleId ?? null,
+    snapshot: rows,
+  };
+  saveLocalSession(groupId, closed);
+  return closed;
+}
+
+async function applySessionResult(
+  groupId: string,
+  remote: DbResult<GroupSessionRow>
+): Promise<SessionActionResult> {
+  if (remote.error || !remote.data) {
+    return { session: loadLocalSession(groupId), error: remote.error ? toActionError(remote.error) : "network" };
+  }
+  const session = fromRow(remote.data);
+  saveLocalSession(groupId, session);
+  return { session, error: "none" };
+}
+
+export function isVotingClosed(session: GroupSession | null, now = Date.now()) {
+  if (!session) return false;
+  if (session.status === "closed") return true;
+  return Boolean(session.deadlineAt && Date.parse(session.deadlineAt) <= now);
+}
+
+/** Cached check used to keep closed sessions from taking new ratings. */
+export function isGroupVotingClosed(groupId: string) {
+  return isVotingClosed(loadLocalSession(groupId));
+}
+
+/**
+ * Current voting round for the group. Sessions past their deadline come back
+ * closed, with the winner and top titles snapshot filled in.
+ */
+export async function getGroupSession(groupId: string): Promise<{
+  session: GroupSession | null;
+  error: "none" | "network";
+  accessDenied?: boolean;
+}> {
+  if (!isSupabaseConfigured()) {
+    const local = loadLocalSession(groupId) ?? createLocalSession(1);
+    if (local.status === "open" && isVotingClosed(local)) {
+      return { session: await closeLocalSession(groupId, local, "deadline"), error: "none", accessDenied: false };
+    }
+    saveLocalSession(groupId, local);
+    return { session: local, error: "none", accessDenied: false };
+  }
+
+  const remote = await getGroupSessionDb(groupId);
+  if (remote.error) {
+    if (isForbiddenError(remote.error)) {
+      return { session: null, error: "none", accessDenied: true };
+    }
+    return { session: loadLocalSession(groupId), error: "network", accessDenied: false };
+  }
+  if (!remote.data) return { session: null, error: "none", accessDenied: false };
+
+  const session = fromRow(remote.data);
+  saveLocalSession(groupId, session);
+  return { session, error: "none", accessDenied: false };
+}
+
+export async function closeGroupSession(groupId: string): Promise<SessionActionResult> {
+  if (!isSupabaseConfigured()) {
+    const local = loadLocalSession(groupId) ?? createLocalSession(1);
+    if (local.status === "closed") return { session: local, error: "none" };
+    return { session: await closeLocalSession(groupId, local, "host"), error: "none" };
+  }
+  return applySessionResult(groupId, await closeGroupSessionDb(groupId));
+}
+
+export async function reopenGroupSession(groupId: string): Promise<SessionActionResult> {
+  if (!isSupabaseConfigured()) {
+    const local = loadLocalSession(groupId) ?? createLocalSession(1);
+    const deadlinePassed = Boolean(local.deadlineAt && Date.parse(local.deadlineAt) <= Date.now());
+    const reopened: GroupSession = {
+      ...local,
+      status: "open",
+      deadlineAt: deadlinePassed ? null : local.deadlineAt,
+      closedAt: null,
+      closedReason: null,
+      winnerTitleId: null,
+      snapshot: [],
+    };
+    saveLocalSession(groupId, reopened);
+    return { session: reopened, error: "none" };
+  }
+  return applySessionResult(groupId, await reopenGroupSessionDb(groupId));
+}
+
+/** Closes the current round if needed and starts the next one with no ratings. */
+async function startLocalRound(groupId: string): Promise<SessionActionResult> {
+  const local = loadLocalSession(groupId) ?? createLocalSession(1);
+  if (local.status === "open") await closeLocalSession(groupId, local, "host");
+  const next = createLocalSession(local.round + 1);
+  saveLocalSession(groupId, next);
+  return { session: next, error: "none" };
+}
+
+export async function startNewRound(groupId: string): Promise<SessionActionResult> {
+  if (!isSupabaseConfigured()) return startLocalRound(groupId);
+  return applySessionResult(groupId, await startGroupRoundDb(groupId));
+}
+
+/**
+ * Starts the next round, replaces the custom list with `items` and saves
+ * `settings` in one call, so the three succeed or fail together. Only the
+ * session is cached here; the caller mirrors the list and settings locally.
+ */
+export async function startRunoffRound(
+  groupId: string,
+  items: ShortlistItem[],
+  settings: GroupSettings
+): Promise<SessionActionResult> {
+  if (!isSupabaseConfigured()) return startLocalRound(groupId);
+  return applySessionResult(
+    groupId,
+    await startRunoffRoundDb(
+      groupId,
+      items.map((item) => ({
+        title_id: item.title_id,
+        title_snapshot: item.title_snapshot as unknown as Record<string, unknown>,
+      })),
+      settings as unknown as Record<string, unknown>
+    )
+  );
+}
+
+export async function setSessionDeadline(
+  groupId: string,
+  deadlineAt: string | null
+): Promise<SessionActionResult> {
+  if (deadlineAt && Date.parse(deadlineAt) <= Date.now()) {
+    return { session: loadLocalSession(groupId), error: "invalid_deadline" };
+  }
+
+  if (!isSupabaseConfigured()) {
+    const local = loadLocalSession(groupId) ?? createLocalSession(1);
+    if (local.status === "closed") return { session: local, error: "session_closed" };
+    const updated: GroupSession = { ...local, deadlineAt };
+    saveLocalSession(groupId, updated);
+    return { session: updated, error: "none" };
+  }
+  return applySessionResult(groupId, await setGroupSessionDeadlineDb(groupId, deadlineAt));
+}
+
+export function clearLocalGroupSession(groupId: string) {
+  if (typeof window === "undefined") return;
+  localStorage.removeItem(KEY_SESSION(groupId));
+}
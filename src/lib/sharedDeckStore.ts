@@ -0,0 +1,168 @@
+import { appendGroupQueue, getGroupQueueForMember, type DbError } from "@/lib/api";
+import type { EndlessQueueItem } from "@/lib/endlessQueueStore";
+import { listMembers, loadRatings, VETO_RATING } from "@/lib/ratings";
+import { isSupabaseConfigured } from "@/lib/supabase";
+
+const KEY_SHARED_DECK = (groupId: string) => `chooseamovie:endless:sharedDeck:${groupId}`;
+
+// Titles other members rated at least this high on average jump the line.
+// Keep in sync with public.get_group_queue.
+export const SHARED_DECK_PROMISING_MIN_AVG = 3;
+
+type DeckEntry = {
+  item: EndlessQueueItem;
+  position: number;
+  othersTotalStars: number;
+  othersVotes: number;
+  othersRated: boolean;
+};
+
+function isForbiddenError(error: DbError | null | undefined) {
+  if (!error) return false;
+  const text = `${error.code ?? ""} ${error.message ?? ""} ${error.details ?? ""}`.toLowerCase();
+  return (
+    text.includes("permission denied") ||
+    text.includes("row-level security") ||
+    text.includes("forbidden")
+  );
+}
+
+function toQueueItem(raw: unknown, fallbackTitleId: string): EndlessQueueItem | null {
+  if (!raw || typeof raw !== "object") return null;
+  const value = raw as Partial<EndlessQueueItem>;
+  const titleId = typeof value.title_id === "string" && value.title_id ? value.title_id : fallbackTitleId;
+  if (!titleId || (value.type !== "movie" && value.type !== "tv")) return null;
+  if (typeof value.id !== "number" || typeof value.title !== "string") return null;
+  return {
+    title_id: titleId,
+    type: value.type,
+    id: value.id,
+    title: value.title,
+    year: value.year ?? null,
+    poster_path: value.poster_path ?? null,
+    overview: value.overview ?? "",
+    tmdb_payload_keys: Array.isArray(value.tmdb_payload_keys)
+      ? value.tmdb_payload_keys.filter((key): key is string => typeof key === "string")
+      : [],
+  };
+}
+
+function deckTier(entry: DeckEntry) {
+  if (entry.othersVotes > 0 && entry.othersTotalStars / entry.othersVotes >= SHARED_DECK_PROMISING_MIN_AVG) {
+    return 0;
+  }
+  return entry.othersRated ? 2 : 1;
+}
+
+// Promising titles first (most stars from others), then titles nobody has
+// rated yet in deck order, then titles others already passed on.
+function compareDeckEntries(a: DeckEntry, b: DeckEntry) {
+  const tierA = deckTier(a);
+  const tierB = deckTier(b);
+  if (tierA !== tierB) return tierA - tierB;
+  if (tierA !== 1 && b.othersTotalStars !== a.othersTotalStars) {
+    return b.othersTotalStars - a.othersTotalStars;
+  }
+  return a.position - b.position;
+}
+
+function loadLocalDeck(groupId: string): EndlessQueueItem[] {
+  if (typeof window === "undefined") return [];
+  const raw = localStorage.getItem(KEY_SHARED_DECK(groupId));
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as unknown[];
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .map((entry) => toQueueItem(entry, ""))
+      .filter((item): item is EndlessQueueItem => Boolean(item));
+  } catch {
+    return [];
+  }
+}
+
+function saveLocalDeck(groupId: string, items: EndlessQueueItem[]) {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(KEY_SHARED_DECK(groupId), JSON.stringify(items));
+}
+
+function orderLocalDeck(groupId: string, memberId: string, limit: number) {
+  const mine = loadRatings(groupId, memberId);
+  const others = listMembers(groupId)
+    .filter((member) => member.id !== memberId)
+    .map((member) => loadRatings(groupId, member.id));
+
+  const entries: DeckEntry[] = [];
+  loadLocalDeck(groupId).forEach((item, position) => {
+    if (mine[item.title_id] !== undefined) return;
+    let othersTotalStars = 0;
+    let othersVotes = 0;
+    let othersRated = false;
+    for (const ratings of others) {
+      const value = ratings[item.title_id];
+      if (value === undefined) continue;
+      if (value === VETO_RATING) return;
+      othersRated = true;
+      if (value > 0) {
+        othersTotalStars += value;
+        othersVotes += 1;
+      }
+    }
+    entries.push({ item, position, othersTotalStars, othersVotes, othersRated });
+  });
+
+  return entries.sort(compareDeckEntries).slice(0, limit).map((entry) => entry.item);
+}
+
+/**
+ * The group deck as this member should see it: titles they have not rated yet,
+ * with the ones other members liked moved to the front. Vetoed titles are dropped.
+ */
+export async function loadSharedDeck(
+  groupId: string,
+  memberId: string,
+  limit: number
+): Promise<{ items: EndlessQueueItem[]; error: "none" | "forbidden" | "network" }> {
+  if (!isSupabaseConfigured()) {
+    return { items: orderLocalDeck(groupId, memberId, limit), error: "none" };
+  }
+
+  const remote = await getGroupQueueForMember(groupId, memberId, limit);
+  if (remote.error) {
+    return { items: [], error: isForbiddenError(remote.error) ? "forbidden" : "network" };
+  }
+
+  const items = (remote.data ?? [])
+    .map((row) => toQueueItem(row.item, row.title_id))
+    .filter((item): item is EndlessQueueItem => Boolean(item));
+  return { items, error: "none" };
+}
+
+export async function appendSharedDeck(
+  groupId: string,
+  items: EndlessQueueItem[]
+): Promise<{ added: number; error: "none" | "forbidden" | "network" }> {
+  if (items.length === 0) return { added: 0, error: "none" };
+
+  if (!isSupabaseConfigured()) {
+    const deck = loadLocalDeck(groupId);
+    const known = new Set(deck.map((item) => item.title_id));
+    const fresh = items.filter((item) => !known.has(item.title_id));
+    saveLocalDeck(groupId, [...deck, ...fresh]);
+    return { added: fresh.length, error: "none" };
+  }
+
+  const remote = await appendGroupQueue(
+    groupId,
+    items.map((item) => ({ title_id: item.title_id, item: { ...item } }))
+  );
+  if (remote.error) {
+    return { added: 0, error: isForbiddenError(remote.error) ? "forbidden" : "network" };
+  }
+  return { added: Number(remote.data ?? 0) || 0, error: "none" };
+}
+
+export function clearLocalSharedDeck(groupId: string) {
+  if (typeof window === "undefined") return;
+  localStorage.removeItem(KEY_SHARED_DECK(groupId));
+}
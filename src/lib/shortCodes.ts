@@ -0,0 +1,37 @@
+// Short join codes: 7 random Crockford base32 characters plus a check
+// character, stored as 8 characters and shown as XXXX-XXXX. Must match
+// ensure_group_short_code / resolve_group_short_code in
+// supabase/2026-10-19_15_group_short_codes.sql.
+
+export const SHORT_CODE_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+export const SHORT_CODE_LENGTH = 8;
+
+function checkCharacter(body: string) {
+  let sum = 0;
+  for (let i = 0; i < body.length; i += 1) {
+    sum += SHORT_CODE_ALPHABET.indexOf(body[i]) * (2 * i + 1);
+  }
+  return SHORT_CODE_ALPHABET[sum % SHORT_CODE_ALPHABET.length];
+}
+
+/** Upper-cases typed input, drops spaces and dashes, and reads O as 0 and I/L as 1. */
+export function normalizeShortCode(input: string) {
+  return input
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, "")
+    .replace(/O/g, "0")
+    .replace(/[IL]/g, "1");
+}
+
+/** True when a normalized code has the right length, alphabet and check character. */
+export function isValidShortCode(key: string) {
+  if (key.length !== SHORT_CODE_LENGTH) return false;
+  if (![...key].every((char) => SHORT_CODE_ALPHABET.includes(char))) return false;
+  return checkCharacter(key.slice(0, -1)) === key.slice(-1);
+}
+
+/** Groups a code in fours for display, e.g. 7K2M-Q9X1. */
+export function formatShortCode(input: string) {
+  const key = normalizeShortCode(input);
+  return key.match(/.{1,4}/g)?.join("-") ?? key;
+}
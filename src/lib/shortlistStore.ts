@@ -74,6 +74,16 @@ async function syncCustomList(groupId: string, localItems: ShortlistItem[]) {
   await setCustomList(groupId, payload);
 }
 
+/** The copy saved on this device, without asking Supabase. */
+export function getLocalShortlist(groupId: string): ShortlistItem[] {
+  return loadLocalShortlist(groupId);
+}
+
+/** Saves a list on this device only, e.g. after an RPC already saved it in Supabase. */
+export function setLocalShortlist(groupId: string, items: ShortlistItem[]) {
+  saveLocalShortlist(groupId, items.map((item) => ({ ...item, group_id: groupId })));
+}
+
 export async function getShortlist(groupId: string): Promise<ShortlistItem[]> {
   if (!isSupabaseConfigured()) return loadLocalShortlist(groupId);
 
@@ -1,3 +1,7 @@
+import { normalizeWatchRegion, type WatchRegion } from "@/lib/certifications";
+import { normalizeTitleLanguage, type TitleLanguage } from "@/lib/titleLanguages";
+import { normalizeRankingStrategy, type RankingStrategy } from "@/lib/rankingStrategies";
+
 export type ContentType = "movies" | "movies_and_shows";
 export type RatingMode = "unlimited" | "shortlist";
 export type EndlessMediaType = "movie" | "movies_and_tv" | "tv";
@@ -9,6 +13,9 @@ export type EndlessSettings = {
   excludedGenreIds: number[];
   releaseFrom: string | null;
   releaseTo: string | null;
+  sharedDeck: boolean;          // every member draws from one group-wide queue
+  providerIds: number[];        // TMDB watch provider ids the group can stream on, empty allows any
+  includeRentBuy: boolean;      // also allow titles the services only rent or sell
 };
 
 type LegacyEndlessSettingsInput = Partial<EndlessSettings> & {
@@ -27,12 +34,20 @@ const DEFAULT_ENDLESS_SETTINGS: EndlessSettings = {
   excludedGenreIds: [],
   releaseFrom: null,
   releaseTo: null,
+  sharedDeck: false,
+  providerIds: [],
+  includeRentBuy: false,
 };
 
 const DEFAULT_TOP_TITLES_LIMIT = 100;
 const MIN_TOP_TITLES_LIMIT = 1;
 const MAX_TOP_TITLES_LIMIT = 100;
 
+const DEFAULT_VETO_BUDGET = 3;
+const MAX_VETO_BUDGET = 10;
+
+const DEFAULT_MATCH_THRESHOLD = 4;
+
 export type GroupSettings = {
   contentType: ContentType;
   allowG: boolean;
@@ -45,8 +60,15 @@ export type GroupSettings = {
   allowTVPG: boolean;
   allowTV14: boolean;
   allowTVMA: boolean;
+  region: WatchRegion;          // where providers and certifications are looked up
+  language: TitleLanguage;      // default language for titles, overviews and genres
   allow_members_invite_link: boolean;
+  openLink: boolean;            // the plain /g/<groupId> link can join; invite codes always can
+  requireApproval: boolean;     // open link joiners wait as pending until a host approves them
   top_titles_limit: number;
+  rankingStrategy: RankingStrategy;
+  vetoBudget: number;           // vetoes per member, 0 disables vetoes
+  matchThreshold: number;       // 1-5 stars everyone must give for a match, 0 disables matches
 
   ratingMode: RatingMode;       // new
   shortlistItems: string[];     // new (only used if ratingMode === "shortlist")
@@ -112,6 +134,16 @@ function normalizeTopTitlesLimit(raw: unknown): number {
   return normalized;
 }
 
+function normalizeVetoBudget(raw: unknown): number {
+  if (typeof raw !== "number" || !Number.isFinite(raw)) return DEFAULT_VETO_BUDGET;
+  return Math.max(0, Math.min(MAX_VETO_BUDGET, Math.floor(raw)));
+}
+
+function normalizeMatchThreshold(raw: unknown): number {
+  if (typeof raw !== "number" || !Number.isFinite(raw)) return DEFAULT_MATCH_THRESHOLD;
+  return Math.max(0, Math.min(5, Math.floor(raw)));
+}
+
 export function getEndlessSettings(
   groupSettings: { endless?: LegacyEndlessSettingsInput | null } | undefined
 ): EndlessSettings {
@@ -145,6 +177,11 @@ export function getEndlessSettings(
     excludedGenreIds: excludedGenreIds.filter((id): id is number => Number.isInteger(id) && id > 0),
     releaseFrom: normalizeDate(endless?.releaseFrom),
     releaseTo: normalizeDate(endless?.releaseTo),
+    sharedDeck: endless?.sharedDeck ?? DEFAULT_ENDLESS_SETTINGS.sharedDeck,
+    providerIds: Array.isArray(endless?.providerIds)
+      ? Array.from(new Set(endless.providerIds.filter((id): id is number => Number.isInteger(id) && id > 0)))
+      : DEFAULT_ENDLESS_SETTINGS.providerIds,
+    includeRentBuy: endless?.includeRentBuy ?? DEFAULT_ENDLESS_SETTINGS.includeRentBuy,
   };
 }
 
@@ -166,8 +203,15 @@ export function normalizeGroupSettings(settings: GroupSettingsInput | undefined)
     allowTVPG: settings?.allowTVPG ?? true,
     allowTV14: settings?.allowTV14 ?? true,
     allowTVMA: settings?.allowTVMA ?? true,
+    region: normalizeWatchRegion(settings?.region),
+    language: normalizeTitleLanguage(settings?.language),
     allow_members_invite_link: settings?.allow_members_invite_link ?? legacyAllowMembersInvite ?? false,
+    openLink: settings?.openLink ?? true,
+    requireApproval: settings?.requireApproval ?? false,
     top_titles_limit: normalizeTopTitlesLimit(settings?.top_titles_limit),
+    rankingStrategy: normalizeRankingStrategy(settings?.rankingStrategy),
+    vetoBudget: normalizeVetoBudget(settings?.vetoBudget),
+    matchThreshold: normalizeMatchThreshold(settings?.matchThreshold),
     ratingMode: settings?.ratingMode === "shortlist" ? "shortlist" : "unlimited",
     shortlistItems: Array.isArray(settings?.shortlistItems) ? settings!.shortlistItems : [],
     endless: getEndlessSettings(settings),
@@ -0,0 +1,16 @@
+// TMDB watch provider ids for the services groups pick most often.
+// Ids come from /watch/providers/{movie,tv}; they are the same in every region.
+export const STREAMING_PROVIDER_OPTIONS: Array<{ id: number; label: string }> = [
+  { id: 8, label: "Netflix" },
+  { id: 9, label: "Prime Video" },
+  { id: 337, label: "Disney+" },
+  { id: 1899, label: "Max" },
+  { id: 15, label: "Hulu" },
+  { id: 350, label: "Apple TV+" },
+  { id: 531, label: "Paramount+" },
+  { id: 386, label: "Peacock" },
+];
+
+export function streamingProviderLabel(id: number) {
+  return STREAMING_PROVIDER_OPTIONS.find((option) => option.id === id)?.label ?? `Provider ${id}`;
+}
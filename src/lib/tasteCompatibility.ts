@@ -0,0 +1,108 @@
+import { VETO_RATING, type Member } from "@/lib/ratings";
+
+// Pairwise "who agrees with whom" scores. Two members are compared on the
+// titles they both rated: Pearson correlation of their ratings, from -1
+// (opposite tastes) to 1 (same tastes). Skips and vetoes are left out, since
+// neither is a star rating. When either member gave every shared title the
+// same rating the correlation is undefined, so the score falls back to how
+// close the ratings are (1 when identical, -1 when four stars apart).
+
+export const MIN_TASTE_OVERLAP = 5;
+
+export type TastePair = {
+  similarity: number | null;   // null below MIN_TASTE_OVERLAP co-rated titles
+  overlap: number;
+};
+
+export type TasteMatrix = {
+  members: Member[];
+  pairs: Record<string, Record<string, TastePair>>;   // memberId -> memberId -> pair
+};
+
+export type TastePartners = {
+  member: Member;
+  mostAligned: { member: Member; similarity: number } | null;
+  leastAligned: { member: Member; similarity: number } | null;
+};
+
+function comparableRating(raw: number | undefined): number | null {
+  if (raw === undefined || !Number.isFinite(raw)) return null;
+  if (raw === VETO_RATING || raw === 0) return null;
+  return raw;
+}
+
+function pairSimilarity(a: number[], b: number[]) {
+  const n = a.length;
+  const meanA = a.reduce((sum, value) => sum + value, 0) / n;
+  const meanB = b.reduce((sum, value) => sum + value, 0) / n;
+
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < n; i += 1) {
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += (a[i] - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  }
+
+  if (varianceA > 0 && varianceB > 0) {
+    return covariance / Math.sqrt(varianceA * varianceB);
+  }
+
+  const meanDistance = a.reduce((sum, value, i) => sum + Math.abs(value - b[i]), 0) / n;
+  return 1 - (2 * meanDistance) / 4;
+}
+
+export function computeTasteMatrix(
+  members: Member[],
+  perMember: Record<string, Record<string, number>>,
+  minOverlap = MIN_TASTE_OVERLAP
+): TasteMatrix {
+  const pairs: TasteMatrix["pairs"] = {};
+  for (const member of members) pairs[member.id] = {};
+
+  for (let i = 0; i < members.length; i += 1) {
+    for (let j = i + 1; j < members.length; j += 1) {
+      const first = members[i];
+      const second = members[j];
+      const firstRatings = perMember[first.id] ?? {};
+      const secondRatings = perMember[second.id] ?? {};
+
+      const a: number[] = [];
+      const b: number[] = [];
+      for (const [titleId, raw] of Object.entries(firstRatings)) {
+        const left = comparableRating(raw);
+        const right = comparableRating(secondRatings[titleId]);
+        if (left === null || right === null) continue;
+        a.push(left);
+        b.push(right);
+      }
+
+      const pair: TastePair = {
+        similarity: a.length >= minOverlap ? pairSimilarity(a, b) : null,
+        overlap: a.length,
+      };
+      pairs[first.id][second.id] = pair;
+      pairs[second.id][first.id] = pair;
+    }
+  }
+
+  return { members, pairs };
+}
+
+/** Each member's closest and furthest partner among pairs with enough overlap. */
+export function listTastePartners(matrix: TasteMatrix): TastePartners[] {
+  return matrix.members.map((member) => {
+    const scored = matrix.members
+      .filter((other) => other.id !== member.id)
+      .map((other) => ({ member: other, similarity: matrix.pairs[member.id]?.[other.id]?.similarity ?? null }))
+      .filter((entry): entry is { member: Member; similarity: number } => entry.similarity !== null)
+      .sort((x, y) => y.similarity - x.similarity);
+
+    return {
+      member,
+      mostAligned: scored[0] ?? null,
+      leastAligned: scored.length > 1 ? scored[scored.length - 1] : null,
+    };
+  });
+}
@@ -1,8 +1,11 @@
 import { getTitleCacheMany, upsertTitleCache } from "@/lib/api";
 import { isSupabaseConfigured } from "@/lib/supabase";
+import { DEFAULT_TITLE_LANGUAGE, type TitleLanguage } from "@/lib/titleLanguages";
 import { parseTmdbTitleKey } from "@/lib/tmdbTitleKey";
 
-const LOCAL_TITLE_CACHE_KEY = "chooseamovie:title_cache";
+// English snapshots keep the original key so existing caches stay valid.
+const LOCAL_TITLE_CACHE_KEY = (language: TitleLanguage) =>
+  language === DEFAULT_TITLE_LANGUAGE ? "chooseamovie:title_cache" : `chooseamovie:title_cache:${language}`;
 
 export type TitleSnapshot = {
   title_id: string;
@@ -17,6 +20,7 @@ type UpsertTitleSnapshotOptions = {
   callSite?: string;
   upstreamPayloadKeys?: string[];
   tmdbSucceeded?: boolean;
+  language?: TitleLanguage;
 };
 
 type TmdbDetailsBody = {
@@ -28,9 +32,9 @@ type TmdbDetailsBody = {
   overview?: string | null;
 };
 
-function loadLocalCache(): Record<string, TitleSnapshot> {
+function loadLocalCache(language: TitleLanguage): Record<string, TitleSnapshot> {
   if (typeof window === "undefined") return {};
-  const raw = localStorage.getItem(LOCAL_TITLE_CACHE_KEY);
+  const raw = localStorage.getItem(LOCAL_TITLE_CACHE_KEY(language));
   if (!raw) return {};
   try {
     const parsed = JSON.parse(raw) as Record<string, TitleSnapshot>;
@@ -40,15 +44,15 @@ function loadLocalCache(): Record<string, TitleSnapshot> {
   }
 }
 
-function saveLocalCache(next: Record<string, TitleSnapshot>) {
+function saveLocalCache(language: TitleLanguage, next: Record<string, TitleSnapshot>) {
   if (typeof window === "undefined") return;
-  localStorage.setItem(LOCAL_TITLE_CACHE_KEY, JSON.stringify(next));
+  localStorage.setItem(LOCAL_TITLE_CACHE_KEY(language), JSON.stringify(next));
 }
 
-function upsertLocalSnapshot(titleId: string, snapshot: TitleSnapshot) {
-  const cache = loadLocalCache();
+function upsertLocalSnapshot(language: TitleLanguage, titleId: string, snapshot: TitleSnapshot) {
+  const cache = loadLocalCache(language);
   cache[titleId] = snapshot;
-  saveLocalCache(cache);
+  saveLocalCache(language, cache);
 }
 
 function extractYear(raw: unknown): string | null {
@@ -126,7 +130,7 @@ function buildSnapshotFromTmdbDetails(
   });
 }
 
-async function hydrateSnapshotFromTmdbDetails(titleId: string): Promise<{
+async function hydrateSnapshotFromTmdbDetails(titleId: string, language: TitleLanguage): Promise<{
   snapshot: TitleSnapshot;
   payloadKeys: string[];
 } | null> {
@@ -134,7 +138,7 @@ async function hydrateSnapshotFromTmdbDetails(titleId: string): Promise<{
   const parsed = parseTmdbTitleKey(titleId);
   if (!parsed) return null;
 
-  const response = await fetch(`/api/tmdb/details?type=${parsed.type}&id=${parsed.id}`);
+  const response = await fetch(`/api/tmdb/details?type=${parsed.type}&id=${parsed.id}&language=${language}`);
   if (!response.ok) return null;
 
   const body = (await response.json()) as TmdbDetailsBody;
@@ -161,18 +165,22 @@ export async function upsertTitleSnapshot(
   // Do not write placeholder title_ids as titles unless the caller explicitly indicates TMDB failed.
   if (normalized.title === id && options.tmdbSucceeded !== false) return;
 
-  upsertLocalSnapshot(id, normalized);
+  const language = options.language ?? DEFAULT_TITLE_LANGUAGE;
+  upsertLocalSnapshot(language, id, normalized);
 
   if (!isSupabaseConfigured()) return;
 
-  await upsertTitleCache(id, normalized as unknown as Record<string, unknown>);
+  await upsertTitleCache(id, language, normalized as unknown as Record<string, unknown>);
 }
 
-export async function getTitleSnapshots(titleIds: string[]): Promise<Record<string, TitleSnapshot>> {
+export async function getTitleSnapshots(
+  titleIds: string[],
+  language: TitleLanguage = DEFAULT_TITLE_LANGUAGE
+): Promise<Record<string, TitleSnapshot>> {
   const deduped = Array.from(new Set(titleIds.map((id) => id.trim()).filter(Boolean)));
   if (deduped.length === 0) return {};
 
-  const local = loadLocalCache();
+  const local = loadLocalCache(language);
   const found: Record<string, TitleSnapshot> = {};
   const nextLocal = { ...local };
   const missingFromSupabase: string[] = [];
@@ -194,7 +202,7 @@ export async function getTitleSnapshots(titleIds: string[]): Promise<Record<stri
   }
 
   if (isSupabaseConfigured() && missingFromSupabase.length > 0) {
-    const remote = await getTitleCacheMany(missingFromSupabase);
+    const remote = await getTitleCacheMany(missingFromSupabase, language);
     if (!remote.error) {
       for (const row of remote.data ?? []) {
         const id = String(row.title_id);
@@ -219,12 +227,13 @@ export async function getTitleSnapshots(titleIds: string[]): Promise<Record<stri
   if (typeof window !== "undefined" && toHydrate.size > 0) {
     const hydrated = await Promise.all(
       Array.from(toHydrate).map(async (id) => {
-        const resolved = await hydrateSnapshotFromTmdbDetails(id);
+        const resolved = await hydrateSnapshotFromTmdbDetails(id, language);
         if (!resolved) return null;
         await upsertTitleSnapshot(id, resolved.snapshot, {
           callSite: "titleCacheStore.hydrateFromTmdbDetails",
           upstreamPayloadKeys: resolved.payloadKeys,
           tmdbSucceeded: true,
+          language,
         });
         return { id, snapshot: resolved.snapshot };
       })
@@ -237,6 +246,6 @@ export async function getTitleSnapshots(titleIds: string[]): Promise<Record<stri
     }
   }
 
-  saveLocalCache(nextLocal);
+  saveLocalCache(language, nextLocal);
   return found;
 }
@@ -0,0 +1,27 @@
+// TMDB languages a group can read title metadata in. Titles are always voted
+// on by title_id, so members with different languages still rate the same title.
+export type TitleLanguage = "en-US" | "es-ES" | "fr-FR" | "de-DE" | "it-IT" | "pt-BR" | "ja-JP";
+
+export const DEFAULT_TITLE_LANGUAGE: TitleLanguage = "en-US";
+
+export const TITLE_LANGUAGE_OPTIONS: Array<{ value: TitleLanguage; label: string }> = [
+  { value: "en-US", label: "English" },
+  { value: "es-ES", label: "Español" },
+  { value: "fr-FR", label: "Français" },
+  { value: "de-DE", label: "Deutsch" },
+  { value: "it-IT", label: "Italiano" },
+  { value: "pt-BR", label: "Português (Brasil)" },
+  { value: "ja-JP", label: "日本語" },
+];
+
+export function isTitleLanguage(raw: unknown): raw is TitleLanguage {
+  return TITLE_LANGUAGE_OPTIONS.some((option) => option.value === raw);
+}
+
+export function normalizeTitleLanguage(raw: unknown): TitleLanguage {
+  return isTitleLanguage(raw) ? raw : DEFAULT_TITLE_LANGUAGE;
+}
+
+export function titleLanguageLabel(language: TitleLanguage) {
+  return TITLE_LANGUAGE_OPTIONS.find((option) => option.value === language)?.label ?? language;
+}
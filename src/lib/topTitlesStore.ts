@@ -1,5 +1,7 @@
-import { aggregateGroupRatings, type AggregatedRow } from "@/lib/ratings";
+import { aggregateGroupRatings } from "@/lib/ratings";
 import { getTopTitles, type DbError } from "@/lib/api";
+import { compareRankedTitles, rankTitles, type RankedTitle } from "@/lib/rankingStrategies";
+import { loadGroup } from "@/lib/storage";
 import { isSupabaseConfigured } from "@/lib/supabase";
 
 const LOCAL_TOP_TITLES_KEY = (groupId: string) => `chooseamovie:group_top_titles:${groupId}`;
@@ -9,6 +11,7 @@ export type GroupTopTitle = {
   totalStars: number;
   avg: number;
   votes: number;
+  score: number;
   rank: number | null;
 };
 
@@ -19,12 +22,7 @@ function isForbiddenError(error: DbError | null | undefined) {
 }
 
 function orderRows(rows: GroupTopTitle[]) {
-  const sorted = [...rows].sort((a, b) => {
-    if (b.totalStars !== a.totalStars) return b.totalStars - a.totalStars;
-    if (b.avg !== a.avg) return b.avg - a.avg;
-    if (b.votes !== a.votes) return b.votes - a.votes;
-    return a.titleId.localeCompare(b.titleId);
-  });
+  const sorted = [...rows].sort(compareRankedTitles);
 
   return sorted.map((row, index) => ({
     ...row,
@@ -32,12 +30,13 @@ function orderRows(rows: GroupTopTitle[]) {
   }));
 }
 
-function fromAggregate(rows: AggregatedRow[]): GroupTopTitle[] {
+function fromRanked(rows: RankedTitle[]): GroupTopTitle[] {
   return orderRows(rows.map((row) => ({
     titleId: row.titleId,
     totalStars: row.totalStars,
     avg: row.avg,
     votes: row.votes,
+    score: row.score,
     rank: null,
   })));
 }
@@ -52,6 +51,7 @@ function loadLocalTopTitles(groupId: string): GroupTopTitle[] {
       totalStars?: unknown;
       avg?: unknown;
       votes?: unknown;
+      score?: unknown;
     }>;
     if (!Array.isArray(parsed)) return [];
     const normalized = parsed
@@ -64,11 +64,13 @@ function loadLocalTopTitles(groupId: string): GroupTopTitle[] {
         const totalStars = Number.isFinite(totalStarsRaw)
           ? totalStarsRaw
           : Math.round((Number.isFinite(avg) ? avg : 0) * (Number.isFinite(votes) ? votes : 0));
+        const scoreRaw = Number(row.score);
         return {
           titleId,
           totalStars: Number.isFinite(totalStars) ? totalStars : 0,
           avg: Number.isFinite(avg) ? avg : 0,
           votes: Number.isFinite(votes) ? votes : 0,
+          score: Number.isFinite(scoreRaw) ? scoreRaw : Number.isFinite(totalStars) ? totalStars : 0,
           rank: null,
         };
       })
@@ -85,12 +87,13 @@ function saveLocalTopTitles(groupId: string, rows: GroupTopTitle[]) {
   localStorage.setItem(LOCAL_TOP_TITLES_KEY(groupId), JSON.stringify(rows));
 }
 
-function normalizeRows(
+export function normalizeTopTitleRows(
   data: Array<{
     title_id: string;
     total_stars?: number | string | null;
     avg_rating: number | string;
     rating_count: number;
+    score?: number | string | null;
   }>
 ): GroupTopTitle[] {
   const rows: GroupTopTitle[] = [];
@@ -103,11 +106,14 @@ function normalizeRows(
     const totalStars = Number.isFinite(totalStarsRaw)
       ? totalStarsRaw
       : Math.round((Number.isFinite(avg) ? avg : 0) * (Number.isFinite(votes) ? votes : 0));
+    // Databases without the ranking strategy migration have no score column; those rank by total stars.
+    const scoreRaw = row.score === null || row.score === undefined ? Number.NaN : Number(row.score);
     rows.push({
       titleId,
       totalStars: Number.isFinite(totalStars) ? totalStars : 0,
       avg: Number.isFinite(avg) ? avg : 0,
       votes: Number.isFinite(votes) ? votes : 0,
+      score: Number.isFinite(scoreRaw) ? scoreRaw : Number.isFinite(totalStars) ? totalStars : 0,
       rank: null,
     });
   }
@@ -121,7 +127,9 @@ export async function getGroupTopTitles(groupId: string): Promise<{
   accessDenied?: boolean;
 }> {
   if (!isSupabaseConfigured()) {
-    return { rows: fromAggregate(aggregateGroupRatings(groupId).rows), error: "none", accessDenied: false };
+    const strategy = loadGroup(groupId)?.settings.rankingStrategy ?? "total_stars";
+    const { perMember } = aggregateGroupRatings(groupId);
+    return { rows: fromRanked(rankTitles(perMember, strategy)), error: "none", accessDenied: false };
   }
 
   const fetched = await getTopTitles(groupId);
@@ -134,12 +142,13 @@ export async function getGroupTopTitles(groupId: string): Promise<{
     return { rows: local, error: "network", accessDenied: false };
   }
 
-  const rows = normalizeRows(
+  const rows = normalizeTopTitleRows(
     (fetched.data ?? []).map((row) => ({
       title_id: row.title_id,
       total_stars: row.total_stars,
       avg_rating: row.avg_rating,
       rating_count: row.rating_count,
+      score: row.score,
     }))
   );
 
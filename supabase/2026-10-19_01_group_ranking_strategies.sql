@@ -0,0 +1,181 @@
+-- Pluggable ranking strategies for group_top_titles.
+-- groups.settings.rankingStrategy picks how titles are scored:
+--   total_stars  (default) sum of star ratings
+--   least_misery lowest rating any member gave (skips count as 0)
+--   borda        per-member Borda points (ties split, skips at the bottom)
+--   approval     number of ratings >= 4 stars
+--   bayesian     average pulled toward the group mean with a prior weight of 2
+-- Keep in sync with src/lib/rankingStrategies.ts.
+
+alter table if exists public.group_top_titles
+  add column if not exists score numeric not null default 0;
+
+create or replace function public.recompute_group_top_titles(p_group_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_limit integer := 100;
+  v_strategy text := 'total_stars';
+  v_group_mean numeric := 0;
+  v_prior_weight constant numeric := 2;
+  v_approval_min constant integer := 4;
+begin
+  select
+    case
+      when g.settings ? 'top_titles_limit'
+        and (g.settings->>'top_titles_limit') ~ '^[0-9]+$'
+      then greatest(1, least(100, (g.settings->>'top_titles_limit')::integer))
+      else 100
+    end,
+    case
+      when g.settings->>'rankingStrategy' in ('least_misery', 'borda', 'approval', 'bayesian')
+      then g.settings->>'rankingStrategy'
+      else 'total_stars'
+    end
+  into v_limit, v_strategy
+  from public.groups g
+  where g.id = p_group_id;
+
+  if v_limit is null then
+    v_limit := 100;
+  end if;
+
+  if v_strategy is null then
+    v_strategy := 'total_stars';
+  end if;
+
+  select coalesce(avg(r.rating)::numeric, 0)
+    into v_group_mean
+  from public.ratings r
+  where r.group_id = p_group_id
+    and r.rating > 0;
+
+  delete from public.group_top_titles
+  where group_id = p_group_id;
+
+  insert into public.group_top_titles (
+    group_id,
+    title_id,
+    total_stars,
+    avg_rating,
+    rating_count,
+    score,
+    updated_at
+  )
+  select
+    scored.group_id,
+    scored.title_id,
+    scored.total_stars,
+    scored.avg_rating,
+    scored.rating_count,
+    scored.score,
+    now()
+  from (
+    select
+      t.group_id,
+      t.title_id,
+      t.total_stars,
+      t.avg_rating,
+      t.rating_count,
+      case v_strategy
+        when 'least_misery' then t.min_rating::numeric
+        when 'borda' then t.borda_points
+        when 'approval' then t.approval_count::numeric
+        when 'bayesian' then
+          (v_prior_weight * v_group_mean + t.total_stars) / (v_prior_weight + t.rating_count)
+        else t.total_stars::numeric
+      end as score
+    from (
+      select
+        b.group_id,
+        b.title_id,
+        sum(case when b.rating > 0 then b.rating else 0 end)::integer as total_stars,
+        avg(nullif(b.rating, 0))::numeric as avg_rating,
+        count(*) filter (where b.rating > 0)::integer as rating_count,
+        min(b.rating)::integer as min_rating,
+        count(*) filter (where b.rating >= v_approval_min)::integer as approval_count,
+        sum(b.borda_points)::numeric as borda_points
+      from (
+        select
+          r.group_id,
+          r.title_id,
+          r.rating,
+          (
+            count(*) over (partition by r.member_id order by r.rating)
+            - count(*) over (partition by r.member_id, r.rating)
+          )
+          + (count(*) over (partition by r.member_id, r.rating) - 1) * 0.5 as borda_points
+        from public.ratings r
+        where r.group_id = p_group_id
+      ) b
+      group by b.group_id, b.title_id
+      having count(*) filter (where b.rating > 0) > 0
+    ) t
+  ) scored
+  order by
+    scored.score desc,
+    scored.total_stars desc,
+    scored.avg_rating desc,
+    scored.rating_count desc,
+    scored.title_id asc
+  limit v_limit;
+
+  update public.groups
+    set last_activity_at = now()
+  where id = p_group_id;
+end;
+$function$;
+
+-- Re-rank when the host switches strategy or changes the stored list size.
+create or replace function public.recompute_group_top_titles_on_settings()
+returns trigger
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+begin
+  if (new.settings->>'rankingStrategy') is distinct from (old.settings->>'rankingStrategy')
+    or (new.settings->>'top_titles_limit') is distinct from (old.settings->>'top_titles_limit')
+  then
+    perform public.recompute_group_top_titles(new.id);
+  end if;
+  return new;
+end;
+$function$;
+
+drop trigger if exists trg_recompute_group_top_titles_on_settings on public.groups;
+create trigger trg_recompute_group_top_titles_on_settings
+after update of settings on public.groups
+for each row execute function public.recompute_group_top_titles_on_settings();
+
+create index if not exists group_top_titles_score_idx
+  on public.group_top_titles (
+    group_id,
+    score desc,
+    total_stars desc,
+    avg_rating desc,
+    rating_count desc,
+    updated_at desc
+  );
+
+do $$
+begin
+  if to_regprocedure('public.recompute_group_top_titles(uuid)') is not null then
+    execute 'revoke all on function public.recompute_group_top_titles(uuid) from public';
+    execute 'grant execute on function public.recompute_group_top_titles(uuid) to anon, authenticated, service_role';
+  end if;
+end;
+$$;
+
+do $$
+declare
+  v_group_id uuid;
+begin
+  for v_group_id in select id from public.groups loop
+    perform public.recompute_group_top_titles(v_group_id);
+  end loop;
+end;
+$$;
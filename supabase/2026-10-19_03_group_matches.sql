@@ -0,0 +1,141 @@
+-- Match detection.
+-- A match is recorded when every active member (at least 2) has rated the
+-- same title at or above groups.settings.matchThreshold (1-5 stars, default 4,
+-- 0 disables matches). Rows are append-only history; clients celebrate new
+-- rows over realtime.
+
+create table if not exists public.group_matches (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.groups(id) on delete cascade,
+  title_id text not null,
+  threshold integer not null,
+  member_count integer not null,
+  matched_at timestamptz not null default now(),
+  unique (group_id, title_id)
+);
+
+create index if not exists group_matches_group_matched_at_idx
+  on public.group_matches (group_id, matched_at desc);
+
+create or replace function public.detect_group_match(p_group_id uuid, p_title_id text)
+returns void
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_threshold integer := 4;
+  v_member_count integer := 0;
+  v_matched_count integer := 0;
+begin
+  select
+    case
+      when g.settings ? 'matchThreshold'
+        and (g.settings->>'matchThreshold') ~ '^[0-9]+$'
+      then least(5, (g.settings->>'matchThreshold')::integer)
+      else 4
+    end
+  into v_threshold
+  from public.groups g
+  where g.id = p_group_id;
+
+  if v_threshold is null or v_threshold <= 0 then
+    return;
+  end if;
+
+  select count(*)
+    into v_member_count
+  from public.members m
+  where m.group_id = p_group_id
+    and m.status = 'active';
+
+  if v_member_count < 2 then
+    return;
+  end if;
+
+  select count(*)
+    into v_matched_count
+  from public.members m
+  join public.ratings r
+    on r.group_id = m.group_id
+   and r.member_id = m.id
+   and r.title_id = p_title_id
+  where m.group_id = p_group_id
+    and m.status = 'active'
+    and r.rating >= v_threshold;
+
+  if v_matched_count < v_member_count then
+    return;
+  end if;
+
+  insert into public.group_matches (group_id, title_id, threshold, member_count)
+  values (p_group_id, p_title_id, v_threshold, v_member_count)
+  on conflict (group_id, title_id) do nothing;
+end;
+$function$;
+
+create or replace function public.detect_group_match_trigger()
+returns trigger
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+begin
+  perform public.detect_group_match(new.group_id, new.title_id);
+  return new;
+end;
+$function$;
+
+drop trigger if exists trg_detect_group_match on public.ratings;
+create trigger trg_detect_group_match
+after insert or update of rating on public.ratings
+for each row execute function public.detect_group_match_trigger();
+
+alter table public.group_matches enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'group_matches' and policyname = 'group_matches_select_owner_or_member'
+  ) then
+    create policy group_matches_select_owner_or_member
+      on public.group_matches
+      for select
+      using (
+        exists (
+          select 1
+          from public.groups g
+          where g.id = group_matches.group_id
+            and g.owner_user_id = auth.uid()
+        )
+        or exists (
+          select 1
+          from public.members m
+          where m.group_id = group_matches.group_id
+            and m.user_id = auth.uid()
+            and m.status = 'active'
+        )
+      );
+  end if;
+end;
+$$;
+
+do $$
+begin
+  if to_regprocedure('public.detect_group_match(uuid, text)') is not null then
+    execute 'revoke all on function public.detect_group_match(uuid, text) from public';
+    execute 'grant execute on function public.detect_group_match(uuid, text) to service_role';
+  end if;
+end;
+$$;
+
+do $$
+begin
+  begin
+    execute 'alter publication supabase_realtime add table public.group_matches';
+  exception
+    when duplicate_object then null;
+  end;
+end;
+$$;
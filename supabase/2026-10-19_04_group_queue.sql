@@ -0,0 +1,219 @@
+-- Shared deck mode.
+-- When groups.settings.endless.sharedDeck is true, members draw endless-mode
+-- titles from one group-wide queue instead of their own localStorage queue.
+-- get_group_queue orders it per member so titles other members rated well
+-- come up first, which grows overlap between members quickly.
+-- Keep the ordering in sync with src/lib/sharedDeckStore.ts.
+
+create table if not exists public.group_queue (
+  group_id uuid not null references public.groups(id) on delete cascade,
+  title_id text not null,
+  item jsonb not null,
+  position bigint not null,
+  added_by_member_id uuid references public.members(id) on delete set null,
+  added_at timestamptz not null default now(),
+  primary key (group_id, title_id)
+);
+
+create index if not exists group_queue_group_position_idx
+  on public.group_queue (group_id, position asc);
+
+alter table public.group_queue enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'group_queue' and policyname = 'group_queue_select_owner_or_member'
+  ) then
+    create policy group_queue_select_owner_or_member
+      on public.group_queue
+      for select
+      using (
+        exists (
+          select 1
+          from public.groups g
+          where g.id = group_queue.group_id
+            and g.owner_user_id = auth.uid()
+        )
+        or exists (
+          select 1
+          from public.members m
+          where m.group_id = group_queue.group_id
+            and m.user_id = auth.uid()
+            and m.status = 'active'
+        )
+      );
+  end if;
+end;
+$$;
+
+-- Appends titles to the end of the deck; titles already in the deck are ignored.
+-- Returns how many rows were added.
+create or replace function public.append_group_queue(p_group_id uuid, p_items jsonb)
+returns integer
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_user_id uuid := auth.uid();
+  v_member_id uuid;
+  v_next_position bigint := 0;
+  v_added integer := 0;
+begin
+  if v_user_id is null then
+    raise exception 'auth_required';
+  end if;
+
+  select m.id
+    into v_member_id
+  from public.members m
+  where m.group_id = p_group_id
+    and m.user_id = v_user_id
+    and m.status = 'active'
+  limit 1;
+
+  if v_member_id is null and not exists (
+    select 1
+    from public.groups g
+    where g.id = p_group_id
+      and g.owner_user_id = v_user_id
+  ) then
+    raise exception 'forbidden';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' then
+    return 0;
+  end if;
+
+  -- Serialize appends per group so positions stay unique and ordered.
+  perform 1 from public.groups g where g.id = p_group_id for update;
+
+  select coalesce(max(q.position), 0)
+    into v_next_position
+  from public.group_queue q
+  where q.group_id = p_group_id;
+
+  insert into public.group_queue (group_id, title_id, item, position, added_by_member_id)
+  select
+    p_group_id,
+    incoming.title_id,
+    incoming.item,
+    v_next_position + incoming.ord,
+    v_member_id
+  from (
+    select
+      e.value->>'title_id' as title_id,
+      e.value->'item' as item,
+      e.ordinality as ord
+    from jsonb_array_elements(p_items) with ordinality as e(value, ordinality)
+    where coalesce(e.value->>'title_id', '') <> ''
+      and jsonb_typeof(e.value->'item') = 'object'
+  ) incoming
+  on conflict (group_id, title_id) do nothing;
+
+  get diagnostics v_added = row_count;
+  return v_added;
+end;
+$function$;
+
+-- The deck as one member should see it: titles they have not rated yet.
+--   1. titles other members rated >= 3 stars on average, most stars first
+--   2. titles nobody has rated yet, in deck order
+--   3. titles others skipped or rated low, most stars first
+-- Titles with a veto are dropped.
+create or replace function public.get_group_queue(p_group_id uuid, p_member_id uuid, p_limit integer)
+returns table (
+  title_id text,
+  item jsonb,
+  "position" bigint,
+  others_total_stars integer,
+  others_votes integer
+)
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_user_id uuid := auth.uid();
+  v_promising_min constant numeric := 3;
+begin
+  if v_user_id is null then
+    raise exception 'auth_required';
+  end if;
+
+  if not exists (
+    select 1
+    from public.members m
+    where m.group_id = p_group_id
+      and m.id = p_member_id
+      and m.user_id = v_user_id
+      and m.status = 'active'
+  ) then
+    raise exception 'forbidden';
+  end if;
+
+  return query
+  select
+    ranked.title_id,
+    ranked.item,
+    ranked.position,
+    ranked.others_total_stars,
+    ranked.others_votes
+  from (
+    select
+      q.title_id,
+      q.item,
+      q.position,
+      coalesce(o.total_stars, 0)::integer as others_total_stars,
+      coalesce(o.votes, 0)::integer as others_votes,
+      case
+        when coalesce(o.votes, 0) > 0 and o.total_stars::numeric / o.votes >= v_promising_min then 0
+        when o.rated is null then 1
+        else 2
+      end as tier
+    from public.group_queue q
+    left join (
+      select
+        r.title_id,
+        count(*) as rated,
+        count(*) filter (where r.rating < 0) as vetoes,
+        sum(case when r.rating > 0 then r.rating else 0 end) as total_stars,
+        count(*) filter (where r.rating > 0) as votes
+      from public.ratings r
+      where r.group_id = p_group_id
+        and r.member_id <> p_member_id
+      group by r.title_id
+    ) o on o.title_id = q.title_id
+    where q.group_id = p_group_id
+      and coalesce(o.vetoes, 0) = 0
+      and not exists (
+        select 1
+        from public.ratings mine
+        where mine.group_id = p_group_id
+          and mine.member_id = p_member_id
+          and mine.title_id = q.title_id
+      )
+  ) ranked
+  order by
+    ranked.tier asc,
+    case when ranked.tier = 1 then 0 else ranked.others_total_stars end desc,
+    ranked.position asc
+  limit greatest(1, least(coalesce(p_limit, 80), 200));
+end;
+$function$;
+
+do $$
+begin
+  if to_regprocedure('public.append_group_queue(uuid, jsonb)') is not null then
+    execute 'revoke all on function public.append_group_queue(uuid, jsonb) from public';
+    execute 'grant execute on function public.append_group_queue(uuid, jsonb) to anon, authenticated, service_role';
+  end if;
+
+  if to_regprocedure('public.get_group_queue(uuid, uuid, integer)') is not null then
+    execute 'revoke all on function public.get_group_queue(uuid, uuid, integer) from public';
+    execute 'grant execute on function public.get_group_queue(uuid, uuid, integer) to anon, authenticated, service_role';
+  end if;
+end;
+$$;
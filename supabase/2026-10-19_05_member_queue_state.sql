@@ -0,0 +1,94 @@
+-- Cross-device endless queue state.
+-- One row per (group_id, member_id) mirroring the member's localStorage queue:
+--   upcoming        queued endless items (same shape as EndlessQueueItem)
+--   seen_title_ids  titles already shown, newest last (capped client-side at 300)
+--   discover_state  TMDB discover paging cursor for the current endless settings
+-- Clients merge this with their local copy on load (src/lib/endlessQueueStore.ts)
+-- and push changes back with a debounced upsert.
+
+create table if not exists public.member_queue_state (
+  group_id uuid not null references public.groups(id) on delete cascade,
+  member_id uuid not null references public.members(id) on delete cascade,
+  upcoming jsonb not null default '[]'::jsonb,
+  seen_title_ids jsonb not null default '[]'::jsonb,
+  discover_state jsonb,
+  updated_at timestamptz not null default now(),
+  primary key (group_id, member_id)
+);
+
+drop trigger if exists set_member_queue_state_updated_at on public.member_queue_state;
+create trigger set_member_queue_state_updated_at
+before update on public.member_queue_state
+for each row execute function public.set_row_updated_at();
+
+alter table public.member_queue_state enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'member_queue_state' and policyname = 'member_queue_state_select_self'
+  ) then
+    create policy member_queue_state_select_self
+      on public.member_queue_state
+      for select
+      using (
+        exists (
+          select 1
+          from public.members m
+          where m.id = member_queue_state.member_id
+            and m.group_id = member_queue_state.group_id
+            and m.user_id = auth.uid()
+        )
+      );
+  end if;
+
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'member_queue_state' and policyname = 'member_queue_state_insert_self'
+  ) then
+    create policy member_queue_state_insert_self
+      on public.member_queue_state
+      for insert
+      with check (
+        exists (
+          select 1
+          from public.members m
+          where m.id = member_queue_state.member_id
+            and m.group_id = member_queue_state.group_id
+            and m.user_id = auth.uid()
+            and m.status = 'active'
+        )
+      );
+  end if;
+
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'member_queue_state' and policyname = 'member_queue_state_update_self'
+  ) then
+    create policy member_queue_state_update_self
+      on public.member_queue_state
+      for update
+      using (
+        exists (
+          select 1
+          from public.members m
+          where m.id = member_queue_state.member_id
+            and m.group_id = member_queue_state.group_id
+            and m.user_id = auth.uid()
+            and m.status = 'active'
+        )
+      )
+      with check (
+        exists (
+          select 1
+          from public.members m
+          where m.id = member_queue_state.member_id
+            and m.group_id = member_queue_state.group_id
+            and m.user_id = auth.uid()
+            and m.status = 'active'
+        )
+      );
+  end if;
+end;
+$$;
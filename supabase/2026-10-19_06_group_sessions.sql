@@ -0,0 +1,419 @@
+-- Decision sessions.
+-- Each group votes in rounds. A round stays open until the host ends it or
+-- its deadline passes; closing snapshots group_top_titles into the row and
+-- locks the leader in as winner_title_id. Ratings cannot change while the
+-- latest round is closed. Starting a new round clears the group's ratings
+-- and matches, so titles can match again in the next round.
+-- Keep the close rules in sync with src/lib/sessionStore.ts.
+
+create table if not exists public.group_sessions (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.groups(id) on delete cascade,
+  round integer not null default 1,
+  status text not null default 'open' check (status in ('open', 'closed')),
+  deadline_at timestamptz,
+  opened_at timestamptz not null default now(),
+  closed_at timestamptz,
+  closed_reason text check (closed_reason in ('host', 'deadline')),
+  winner_title_id text,
+  snapshot jsonb,
+  unique (group_id, round)
+);
+
+create index if not exists group_sessions_group_round_idx
+  on public.group_sessions (group_id, round desc);
+
+alter table public.group_sessions enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'group_sessions' and policyname = 'group_sessions_select_owner_or_member'
+  ) then
+    create policy group_sessions_select_owner_or_member
+      on public.group_sessions
+      for select
+      using (
+        exists (
+          select 1
+          from public.groups g
+          where g.id = group_sessions.group_id
+            and g.owner_user_id = auth.uid()
+        )
+        or exists (
+          select 1
+          from public.members m
+          where m.group_id = group_sessions.group_id
+            and m.user_id = auth.uid()
+            and m.status = 'active'
+        )
+      );
+  end if;
+end;
+$$;
+
+-- Latest round for the group, creating round 1 the first time it is needed.
+create or replace function public.ensure_group_session(p_group_id uuid)
+returns public.group_sessions
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_session public.group_sessions;
+begin
+  select s.*
+    into v_session
+  from public.group_sessions s
+  where s.group_id = p_group_id
+  order by s.round desc
+  limit 1;
+
+  if v_session.id is null then
+    insert into public.group_sessions (group_id, round)
+    values (p_group_id, 1)
+    on conflict (group_id, round) do nothing;
+
+    select s.*
+      into v_session
+    from public.group_sessions s
+    where s.group_id = p_group_id
+    order by s.round desc
+    limit 1;
+  end if;
+
+  return v_session;
+end;
+$function$;
+
+-- Closes a round, freezing the current top titles and picking the leader.
+create or replace function public.close_group_session_internal(p_session_id uuid, p_reason text)
+returns public.group_sessions
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_session public.group_sessions;
+  v_snapshot jsonb;
+begin
+  select s.*
+    into v_session
+  from public.group_sessions s
+  where s.id = p_session_id
+  for update;
+
+  if v_session.id is null or v_session.status = 'closed' then
+    return v_session;
+  end if;
+
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'group_id', t.group_id,
+        'title_id', t.title_id,
+        'total_stars', t.total_stars,
+        'avg_rating', t.avg_rating,
+        'rating_count', t.rating_count,
+        'score', t.score,
+        'updated_at', t.updated_at
+      )
+      order by t.score desc, t.total_stars desc, t.avg_rating desc, t.rating_count desc, t.title_id asc
+    ),
+    '[]'::jsonb
+  )
+    into v_snapshot
+  from public.group_top_titles t
+  where t.group_id = v_session.group_id
+    and t.rating_count > 0;
+
+  update public.group_sessions s
+  set
+    status = 'closed',
+    closed_at = now(),
+    closed_reason = p_reason,
+    snapshot = v_snapshot,
+    winner_title_id = v_snapshot->0->>'title_id'
+  where s.id = p_session_id
+  returning s.* into v_session;
+
+  return v_session;
+end;
+$function$;
+
+create or replace function public.require_group_owner(p_group_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+begin
+  if auth.uid() is null then
+    raise exception 'auth_required';
+  end if;
+
+  if not exists (
+    select 1
+    from public.groups g
+    where g.id = p_group_id
+      and g.owner_user_id = auth.uid()
+  ) then
+    raise exception 'forbidden';
+  end if;
+end;
+$function$;
+
+-- Current round. A round past its deadline is closed on read.
+create or replace function public.get_group_session(p_group_id uuid)
+returns setof public.group_sessions
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_user_id uuid := auth.uid();
+  v_session public.group_sessions;
+begin
+  if v_user_id is null then
+    raise exception 'auth_required';
+  end if;
+
+  if not exists (
+    select 1
+    from public.groups g
+    where g.id = p_group_id
+      and g.owner_user_id = v_user_id
+  ) and not exists (
+    select 1
+    from public.members m
+    where m.group_id = p_group_id
+      and m.user_id = v_user_id
+      and m.status = 'active'
+  ) then
+    raise exception 'forbidden';
+  end if;
+
+  v_session := public.ensure_group_session(p_group_id);
+
+  if v_session.status = 'open' and v_session.deadline_at is not null and v_session.deadline_at <= now() then
+    v_session := public.close_group_session_internal(v_session.id, 'deadline');
+  end if;
+
+  return next v_session;
+end;
+$function$;
+
+create or replace function public.close_group_session(p_group_id uuid)
+returns setof public.group_sessions
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_session public.group_sessions;
+begin
+  perform public.require_group_owner(p_group_id);
+  v_session := public.ensure_group_session(p_group_id);
+  return next public.close_group_session_internal(v_session.id, 'host');
+end;
+$function$;
+
+-- Reopens the latest round. A deadline that already passed is cleared so the
+-- round does not close again straight away.
+create or replace function public.reopen_group_session(p_group_id uuid)
+returns setof public.group_sessions
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_session public.group_sessions;
+begin
+  perform public.require_group_owner(p_group_id);
+  v_session := public.ensure_group_session(p_group_id);
+
+  update public.group_sessions s
+  set
+    status = 'open',
+    deadline_at = case when s.deadline_at <= now() then null else s.deadline_at end,
+    closed_at = null,
+    closed_reason = null,
+    winner_title_id = null,
+    snapshot = null
+  where s.id = v_session.id
+  returning s.* into v_session;
+
+  return next v_session;
+end;
+$function$;
+
+-- Skips the per-row recompute for the group named in app.skip_recompute_group_id
+-- (set for the transaction only) while start_group_round clears its ratings.
+-- Match detection and the veto budget only fire on insert and update.
+create or replace function public.recompute_group_top_titles_trigger()
+returns trigger
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_group_id uuid := coalesce(new.group_id, old.group_id);
+begin
+  if v_group_id is not null
+    and v_group_id::text is distinct from nullif(current_setting('app.skip_recompute_group_id', true), '') then
+    perform public.recompute_group_top_titles(v_group_id);
+  end if;
+  return coalesce(new, old);
+end;
+$function$;
+
+-- Closes the current round if needed, clears the group's ratings and matches
+-- and opens the next round. Top titles are recomputed once, after the delete.
+create or replace function public.start_group_round(p_group_id uuid)
+returns setof public.group_sessions
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_session public.group_sessions;
+begin
+  perform public.require_group_owner(p_group_id);
+  v_session := public.ensure_group_session(p_group_id);
+
+  if v_session.status = 'open' then
+    v_session := public.close_group_session_internal(v_session.id, 'host');
+  end if;
+
+  perform set_config('app.skip_recompute_group_id', p_group_id::text, true);
+  delete from public.ratings r where r.group_id = p_group_id;
+  perform set_config('app.skip_recompute_group_id', '', true);
+  perform public.recompute_group_top_titles(p_group_id);
+
+  delete from public.group_matches m where m.group_id = p_group_id;
+
+  insert into public.group_sessions (group_id, round)
+  values (p_group_id, v_session.round + 1)
+  returning * into v_session;
+
+  return next v_session;
+end;
+$function$;
+
+create or replace function public.set_group_session_deadline(p_group_id uuid, p_deadline_at timestamptz)
+returns setof public.group_sessions
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_session public.group_sessions;
+begin
+  perform public.require_group_owner(p_group_id);
+  v_session := public.ensure_group_session(p_group_id);
+
+  if v_session.status = 'closed' then
+    raise exception 'session_closed';
+  end if;
+
+  if p_deadline_at is not null and p_deadline_at <= now() then
+    raise exception 'invalid_deadline';
+  end if;
+
+  update public.group_sessions s
+  set deadline_at = p_deadline_at
+  where s.id = v_session.id
+  returning s.* into v_session;
+
+  return next v_session;
+end;
+$function$;
+
+-- Freezes ratings while the latest round is closed or past its deadline.
+-- Deletes stay allowed so member removal and new rounds still work.
+create or replace function public.enforce_open_group_session()
+returns trigger
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_session public.group_sessions;
+begin
+  select s.*
+    into v_session
+  from public.group_sessions s
+  where s.group_id = new.group_id
+  order by s.round desc
+  limit 1;
+
+  if v_session.id is not null and (
+    v_session.status = 'closed'
+    or (v_session.deadline_at is not null and v_session.deadline_at <= now())
+  ) then
+    raise exception 'session_closed';
+  end if;
+
+  return new;
+end;
+$function$;
+
+drop trigger if exists trg_enforce_open_group_session on public.ratings;
+create trigger trg_enforce_open_group_session
+before insert or update on public.ratings
+for each row execute function public.enforce_open_group_session();
+
+do $$
+begin
+  if to_regprocedure('public.ensure_group_session(uuid)') is not null then
+    execute 'revoke all on function public.ensure_group_session(uuid) from public';
+    execute 'grant execute on function public.ensure_group_session(uuid) to service_role';
+  end if;
+
+  if to_regprocedure('public.close_group_session_internal(uuid, text)') is not null then
+    execute 'revoke all on function public.close_group_session_internal(uuid, text) from public';
+    execute 'grant execute on function public.close_group_session_internal(uuid, text) to service_role';
+  end if;
+
+  if to_regprocedure('public.require_group_owner(uuid)') is not null then
+    execute 'revoke all on function public.require_group_owner(uuid) from public';
+    execute 'grant execute on function public.require_group_owner(uuid) to service_role';
+  end if;
+
+  if to_regprocedure('public.get_group_session(uuid)') is not null then
+    execute 'revoke all on function public.get_group_session(uuid) from public';
+    execute 'grant execute on function public.get_group_session(uuid) to anon, authenticated, service_role';
+  end if;
+
+  if to_regprocedure('public.close_group_session(uuid)') is not null then
+    execute 'revoke all on function public.close_group_session(uuid) from public';
+    execute 'grant execute on function public.close_group_session(uuid) to anon, authenticated, service_role';
+  end if;
+
+  if to_regprocedure('public.reopen_group_session(uuid)') is not null then
+    execute 'revoke all on function public.reopen_group_session(uuid) from public';
+    execute 'grant execute on function public.reopen_group_session(uuid) to anon, authenticated, service_role';
+  end if;
+
+  if to_regprocedure('public.start_group_round(uuid)') is not null then
+    execute 'revoke all on function public.start_group_round(uuid) from public';
+    execute 'grant execute on function public.start_group_round(uuid) to anon, authenticated, service_role';
+  end if;
+
+  if to_regprocedure('public.set_group_session_deadline(uuid, timestamptz)') is not null then
+    execute 'revoke all on function public.set_group_session_deadline(uuid, timestamptz) from public';
+    execute 'grant execute on function public.set_group_session_deadline(uuid, timestamptz) to anon, authenticated, service_role';
+  end if;
+end;
+$$;
+
+do $$
+begin
+  begin
+    execute 'alter publication supabase_realtime add table public.group_sessions';
+  exception
+    when duplicate_object then null;
+  end;
+end;
+$$;
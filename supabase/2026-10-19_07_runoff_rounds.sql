@@ -0,0 +1,52 @@
+-- Runoff rounds.
+-- start_runoff_round starts the next round (start_group_round), replaces the
+-- group's custom list with the finalists and saves the new group settings in
+-- one transaction, so a failed runoff leaves the round, the list and the
+-- settings as they were. Keep in sync with src/lib/runoffStore.ts.
+-- Safe to run repeatedly.
+
+-- p_items is [{title_id, title_snapshot}] in finalist order; p_settings is the
+-- full groups.settings object with the custom list switched on.
+create or replace function public.start_runoff_round(p_group_id uuid, p_items jsonb, p_settings jsonb)
+returns setof public.group_sessions
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_session public.group_sessions;
+begin
+  perform public.require_group_owner(p_group_id);
+
+  if jsonb_typeof(p_items) is distinct from 'array' or jsonb_array_length(p_items) < 2 then
+    raise exception 'not_enough_titles';
+  end if;
+
+  if jsonb_typeof(p_settings) is distinct from 'object' then
+    raise exception 'invalid_settings';
+  end if;
+
+  select s.* into v_session from public.start_group_round(p_group_id) s;
+
+  delete from public.group_custom_list l where l.group_id = p_group_id;
+
+  insert into public.group_custom_list (group_id, title_id, title_snapshot, position)
+  select p_group_id, item.value->>'title_id', coalesce(item.value->'title_snapshot', '{}'::jsonb), item.ordinality::int
+  from jsonb_array_elements(p_items) with ordinality as item(value, ordinality);
+
+  update public.groups g
+    set settings = p_settings
+  where g.id = p_group_id;
+
+  return next v_session;
+end;
+$function$;
+
+do $$
+begin
+  if to_regprocedure('public.start_runoff_round(uuid, jsonb, jsonb)') is not null then
+    execute 'revoke all on function public.start_runoff_round(uuid, jsonb, jsonb) from public';
+    execute 'grant execute on function public.start_runoff_round(uuid, jsonb, jsonb) to anon, authenticated, service_role';
+  end if;
+end;
+$$;
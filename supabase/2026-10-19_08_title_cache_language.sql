@@ -0,0 +1,23 @@
+-- Localized title snapshots.
+-- title_cache holds one snapshot per title and TMDB language, so members who
+-- read in different languages share title_ids but not titles or overviews.
+-- Existing rows were fetched in English and become the en-US snapshots.
+-- Keep the language list in sync with src/lib/titleLanguages.ts.
+
+alter table public.title_cache
+  add column if not exists language text not null default 'en-US';
+
+do $$
+begin
+  if exists (
+    select 1
+    from pg_constraint c
+    where c.conrelid = 'public.title_cache'::regclass
+      and c.conname = 'title_cache_pkey'
+      and array_length(c.conkey, 1) = 1
+  ) then
+    alter table public.title_cache drop constraint title_cache_pkey;
+    alter table public.title_cache add constraint title_cache_pkey primary key (title_id, language);
+  end if;
+end;
+$$;
@@ -0,0 +1,23 @@
+-- Durable store for the server-side TMDB response cache.
+-- Rows are written and read only by the TMDB proxy routes with the service
+-- role key; clients have no access. Keys are the TMDB path plus sorted query
+-- (see tmdbCacheKey in src/app/api/tmdb/_cache.ts). Rows past stale_until are
+-- purged by the proxy.
+
+create table if not exists public.tmdb_response_cache (
+  cache_key text primary key,
+  endpoint text not null,
+  body jsonb not null,
+  fetched_at timestamptz not null default now(),
+  fresh_until timestamptz not null,
+  stale_until timestamptz not null,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists tmdb_response_cache_stale_until_idx
+  on public.tmdb_response_cache (stale_until);
+
+alter table public.tmdb_response_cache enable row level security;
+
+revoke all on table public.tmdb_response_cache from public, anon, authenticated;
+grant select, insert, update, delete on table public.tmdb_response_cache to service_role;
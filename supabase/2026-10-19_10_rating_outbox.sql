@@ -0,0 +1,68 @@
+-- Rating outbox sync.
+-- Clients queue rating writes on the device (src/lib/ratingOutbox.ts) and
+-- send them with the time they were made. The newest rated_at wins, so a
+-- rating queued offline never overwrites a later one from another device,
+-- and a rating made before the current round opened is dropped.
+
+create or replace function public.upsert_rating_if_newer(
+  p_group_id uuid,
+  p_member_id uuid,
+  p_title_id text,
+  p_rating integer,
+  p_rated_at timestamptz
+)
+returns boolean
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_user_id uuid := auth.uid();
+  v_rated_at timestamptz := least(coalesce(p_rated_at, now()), now());
+  v_round_opened_at timestamptz;
+begin
+  if v_user_id is null then
+    raise exception 'auth_required';
+  end if;
+
+  if not exists (
+    select 1
+    from public.members m
+    where m.id = p_member_id
+      and m.group_id = p_group_id
+      and m.user_id = v_user_id
+      and m.status = 'active'
+  ) then
+    raise exception 'forbidden';
+  end if;
+
+  select s.opened_at
+    into v_round_opened_at
+  from public.group_sessions s
+  where s.group_id = p_group_id
+  order by s.round desc
+  limit 1;
+
+  if v_round_opened_at is not null and v_rated_at < v_round_opened_at then
+    return false;
+  end if;
+
+  insert into public.ratings (group_id, member_id, title_id, rating, updated_at)
+  values (p_group_id, p_member_id, p_title_id, p_rating, v_rated_at)
+  on conflict (group_id, member_id, title_id) do update
+    set rating = excluded.rating,
+        updated_at = excluded.updated_at
+    where public.ratings.updated_at <= excluded.updated_at;
+
+  return found;
+end;
+$function$;
+
+do $$
+begin
+  if to_regprocedure('public.upsert_rating_if_newer(uuid, uuid, text, integer, timestamptz)') is not null then
+    execute 'revoke all on function public.upsert_rating_if_newer(uuid, uuid, text, integer, timestamptz) from public';
+    execute 'grant execute on function public.upsert_rating_if_newer(uuid, uuid, text, integer, timestamptz) to anon, authenticated, service_role';
+  end if;
+end;
+$$;
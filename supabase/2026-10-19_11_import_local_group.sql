@@ -0,0 +1,87 @@
+-- Local-only group migration.
+-- Groups created while Supabase was unconfigured or unreachable live only in
+-- localStorage. The client re-creates them with create_group and then calls
+-- import_local_group to copy the device's members and ratings. The local
+-- member using the device becomes the host row create_group made; the others
+-- are added without a user (they used the same device) and keep their ratings.
+-- Ratings go in with one insert, and the per-row top titles recompute is
+-- skipped for this group (app.skip_recompute_group_id, see 2026-10-19_06_group_sessions.sql)
+-- until the single recompute at the end.
+
+create or replace function public.import_local_group(p_group_id uuid, p_members jsonb)
+returns table (local_member_id text, server_member_id uuid)
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_user_id uuid := auth.uid();
+  v_host_member_id uuid;
+  v_member jsonb;
+  v_member_id uuid;
+  v_imported jsonb := '[]'::jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'auth_required';
+  end if;
+
+  if not exists (
+    select 1 from public.groups g where g.id = p_group_id and g.owner_user_id = v_user_id
+  ) then
+    raise exception 'forbidden';
+  end if;
+
+  select m.id
+    into v_host_member_id
+  from public.members m
+  where m.group_id = p_group_id
+    and m.user_id = v_user_id;
+
+  for v_member in select * from jsonb_array_elements(coalesce(p_members, '[]'::jsonb))
+  loop
+    if coalesce((v_member->>'is_self')::boolean, false) and v_host_member_id is not null then
+      v_member_id := v_host_member_id;
+    else
+      insert into public.members (id, group_id, name, user_id, role, status, created_at)
+      values (
+        gen_random_uuid(),
+        p_group_id,
+        coalesce(nullif(trim(v_member->>'name'), ''), 'Member'),
+        null,
+        'member',
+        'active',
+        coalesce((v_member->>'created_at')::timestamptz, now())
+      )
+      returning id into v_member_id;
+    end if;
+
+    v_imported := v_imported || jsonb_build_array(
+      jsonb_build_object('member_id', v_member_id, 'ratings', coalesce(v_member->'ratings', '{}'::jsonb))
+    );
+
+    local_member_id := v_member->>'local_id';
+    server_member_id := v_member_id;
+    return next;
+  end loop;
+
+  perform set_config('app.skip_recompute_group_id', p_group_id::text, true);
+
+  insert into public.ratings (group_id, member_id, title_id, rating, updated_at)
+  select p_group_id, (m->>'member_id')::uuid, r.key, r.value::integer, now()
+  from jsonb_array_elements(v_imported) m
+  cross join lateral jsonb_each_text(m->'ratings') r
+  on conflict (group_id, member_id, title_id) do nothing;
+
+  perform set_config('app.skip_recompute_group_id', '', true);
+  perform public.recompute_group_top_titles(p_group_id);
+end;
+$function$;
+
+do $$
+begin
+  if to_regprocedure('public.import_local_group(uuid, jsonb)') is not null then
+    execute 'revoke all on function public.import_local_group(uuid, jsonb) from public';
+    execute 'grant execute on function public.import_local_group(uuid, jsonb) to authenticated, service_role';
+  end if;
+end;
+$$;
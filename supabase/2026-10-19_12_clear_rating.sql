@@ -0,0 +1,70 @@
+-- Clearing a rating from the rate page's "Recently rated" list.
+-- Clears go through the same client outbox as rating writes, so they carry the
+-- time they were made and never remove a rating saved later from another
+-- device. The delete fires trg_recompute_group_top_titles like any other
+-- ratings change.
+
+create or replace function public.clear_rating_if_not_newer(
+  p_group_id uuid,
+  p_member_id uuid,
+  p_title_id text,
+  p_cleared_at timestamptz
+)
+returns boolean
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_user_id uuid := auth.uid();
+  v_cleared_at timestamptz := least(coalesce(p_cleared_at, now()), now());
+  v_session public.group_sessions;
+begin
+  if v_user_id is null then
+    raise exception 'auth_required';
+  end if;
+
+  if not exists (
+    select 1
+    from public.members m
+    where m.id = p_member_id
+      and m.group_id = p_group_id
+      and m.user_id = v_user_id
+      and m.status = 'active'
+  ) then
+    raise exception 'forbidden';
+  end if;
+
+  -- trg_enforce_open_group_session only covers inserts and updates.
+  select s.*
+    into v_session
+  from public.group_sessions s
+  where s.group_id = p_group_id
+  order by s.round desc
+  limit 1;
+
+  if v_session.id is not null and (
+    v_session.status = 'closed'
+    or (v_session.deadline_at is not null and v_session.deadline_at <= now())
+  ) then
+    raise exception 'session_closed';
+  end if;
+
+  delete from public.ratings r
+  where r.group_id = p_group_id
+    and r.member_id = p_member_id
+    and r.title_id = p_title_id
+    and r.updated_at <= v_cleared_at;
+
+  return found;
+end;
+$function$;
+
+do $$
+begin
+  if to_regprocedure('public.clear_rating_if_not_newer(uuid, uuid, text, timestamptz)') is not null then
+    execute 'revoke all on function public.clear_rating_if_not_newer(uuid, uuid, text, timestamptz) from public';
+    execute 'grant execute on function public.clear_rating_if_not_newer(uuid, uuid, text, timestamptz) to anon, authenticated, service_role';
+  end if;
+end;
+$$;
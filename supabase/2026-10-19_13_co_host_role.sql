@@ -0,0 +1,328 @@
+-- Co-hosts: members the owner trusts to help run the group.
+-- members.role is 'host' (the owner's row), 'co_host' or 'member'. Co-hosts may
+-- edit the custom list, change groups.settings, remove members and close
+-- voting. Reopening voting, new rounds, deadlines, roles and deleting the group
+-- stay with the owner. Roles only change through set_member_role; direct
+-- writes to members cannot grant one (trg_enforce_member_self_write).
+-- Safe to run repeatedly.
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_constraint
+    where conname = 'members_role_check'
+      and conrelid = 'public.members'::regclass
+  ) then
+    alter table public.members
+      add constraint members_role_check
+      check (role in ('host', 'co_host', 'member'));
+  end if;
+end;
+$$;
+
+-- True when the caller is an active co-host of the group. Used by RLS policies,
+-- so it runs as definer to read members without recursing into their policies.
+create or replace function public.is_group_co_host(p_group_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path to 'public'
+as $function$
+  select exists (
+    select 1
+    from public.members m
+    where m.group_id = p_group_id
+      and m.user_id = auth.uid()
+      and m.role = 'co_host'
+      and m.status = 'active'
+  );
+$function$;
+
+create or replace function public.require_group_manager(p_group_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+begin
+  if auth.uid() is null then
+    raise exception 'auth_required';
+  end if;
+
+  if not exists (
+    select 1
+    from public.groups g
+    where g.id = p_group_id
+      and g.owner_user_id = auth.uid()
+  ) and not public.is_group_co_host(p_group_id) then
+    raise exception 'forbidden';
+  end if;
+end;
+$function$;
+
+-- Owner only. Grants or revokes co-host; the host row cannot be changed.
+create or replace function public.set_member_role(p_group_id uuid, p_member_id uuid, p_role text)
+returns public.members
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_member public.members;
+begin
+  perform public.require_group_owner(p_group_id);
+
+  if p_role is null or p_role not in ('co_host', 'member') then
+    raise exception 'invalid_role';
+  end if;
+
+  select m.*
+    into v_member
+  from public.members m
+  where m.group_id = p_group_id
+    and m.id = p_member_id
+    and m.status = 'active';
+
+  if not found then
+    raise exception 'member_not_found';
+  end if;
+
+  if v_member.role = 'host' then
+    raise exception 'cannot_change_host';
+  end if;
+
+  update public.members m
+    set role = p_role
+  where m.id = p_member_id
+  returning m.* into v_member;
+
+  return v_member;
+end;
+$function$;
+
+-- Same as before, but co-hosts may remove regular members too. Only the owner
+-- can remove a co-host.
+create or replace function public.remove_group_member(p_group_id uuid, p_member_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_user_id uuid := auth.uid();
+  v_target_role text;
+  v_is_owner boolean;
+begin
+  if v_user_id is null then
+    raise exception 'auth_required';
+  end if;
+
+  select exists (
+    select 1
+    from public.groups g
+    where g.id = p_group_id
+      and g.owner_user_id = v_user_id
+  )
+  into v_is_owner;
+
+  if not v_is_owner and not public.is_group_co_host(p_group_id) then
+    raise exception 'forbidden';
+  end if;
+
+  select m.role
+    into v_target_role
+  from public.members m
+  where m.group_id = p_group_id
+    and m.id = p_member_id;
+
+  if not found then
+    raise exception 'member_not_found';
+  end if;
+
+  if coalesce(v_target_role, '') = 'host' then
+    raise exception 'cannot_remove_host';
+  end if;
+
+  if v_target_role = 'co_host' and not v_is_owner then
+    raise exception 'forbidden';
+  end if;
+
+  delete from public.ratings r
+  where r.group_id = p_group_id
+    and r.member_id = p_member_id;
+
+  delete from public.members m
+  where m.group_id = p_group_id
+    and m.id = p_member_id;
+
+  update public.groups
+    set last_activity_at = now()
+  where id = p_group_id;
+end;
+$function$;
+
+create or replace function public.close_group_session(p_group_id uuid)
+returns setof public.group_sessions
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_session public.group_sessions;
+begin
+  perform public.require_group_manager(p_group_id);
+  v_session := public.ensure_group_session(p_group_id);
+  return next public.close_group_session_internal(v_session.id, 'host');
+end;
+$function$;
+
+-- Co-hosts update groups through RLS for settings only. Internal updates such
+-- as last_activity_at still pass.
+create or replace function public.enforce_group_co_host_update()
+returns trigger
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+begin
+  if auth.uid() is null or old.owner_user_id = auth.uid() then
+    return new;
+  end if;
+
+  if new.name is distinct from old.name
+    or new.owner_user_id is distinct from old.owner_user_id
+    or new.join_code is distinct from old.join_code
+    or new.schema_version is distinct from old.schema_version
+    or new.deleted_at is distinct from old.deleted_at
+  then
+    raise exception 'forbidden';
+  end if;
+
+  return new;
+end;
+$function$;
+
+drop trigger if exists trg_enforce_group_co_host_update on public.groups;
+create trigger trg_enforce_group_co_host_update
+before update on public.groups
+for each row execute function public.enforce_group_co_host_update();
+
+-- Members may write their own row through RLS (members_insert_self,
+-- members_update_self), but roles only change through set_member_role. The
+-- RPCs run as the function owner, so only API roles are checked here.
+create or replace function public.enforce_member_self_write()
+returns trigger
+language plpgsql
+set search_path to 'public'
+as $function$
+begin
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if exists (
+    select 1
+    from public.groups g
+    where g.id = new.group_id
+      and g.owner_user_id = auth.uid()
+  ) then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.role <> 'member' then
+      raise exception 'forbidden';
+    end if;
+
+    return new;
+  end if;
+
+  if new.role is distinct from old.role then
+    raise exception 'forbidden';
+  end if;
+
+  return new;
+end;
+$function$;
+
+drop trigger if exists trg_enforce_member_self_write on public.members;
+create trigger trg_enforce_member_self_write
+before insert or update on public.members
+for each row execute function public.enforce_member_self_write();
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'groups' and policyname = 'groups_update_co_host'
+  ) then
+    create policy groups_update_co_host
+      on public.groups
+      for update
+      using (public.is_group_co_host(id))
+      with check (public.is_group_co_host(id));
+  end if;
+
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'group_custom_list' and policyname = 'group_custom_list_write_co_host'
+  ) then
+    create policy group_custom_list_write_co_host
+      on public.group_custom_list
+      for insert
+      with check (public.is_group_co_host(group_id));
+  end if;
+
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'group_custom_list' and policyname = 'group_custom_list_update_co_host'
+  ) then
+    create policy group_custom_list_update_co_host
+      on public.group_custom_list
+      for update
+      using (public.is_group_co_host(group_id))
+      with check (public.is_group_co_host(group_id));
+  end if;
+
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'group_custom_list' and policyname = 'group_custom_list_delete_co_host'
+  ) then
+    create policy group_custom_list_delete_co_host
+      on public.group_custom_list
+      for delete
+      using (public.is_group_co_host(group_id));
+  end if;
+end;
+$$;
+
+do $$
+begin
+  if to_regprocedure('public.is_group_co_host(uuid)') is not null then
+    execute 'revoke all on function public.is_group_co_host(uuid) from public';
+    execute 'grant execute on function public.is_group_co_host(uuid) to anon, authenticated, service_role';
+  end if;
+
+  if to_regprocedure('public.require_group_manager(uuid)') is not null then
+    execute 'revoke all on function public.require_group_manager(uuid) from public';
+    execute 'grant execute on function public.require_group_manager(uuid) to service_role';
+  end if;
+
+  if to_regprocedure('public.set_member_role(uuid, uuid, text)') is not null then
+    execute 'revoke all on function public.set_member_role(uuid, uuid, text) from public';
+    execute 'grant execute on function public.set_member_role(uuid, uuid, text) to anon, authenticated, service_role';
+  end if;
+
+  if to_regprocedure('public.remove_group_member(uuid, uuid)') is not null then
+    execute 'revoke all on function public.remove_group_member(uuid, uuid) from public';
+    execute 'grant execute on function public.remove_group_member(uuid, uuid) to anon, authenticated, service_role';
+  end if;
+
+  if to_regprocedure('public.close_group_session(uuid)') is not null then
+    execute 'revoke all on function public.close_group_session(uuid) from public';
+    execute 'grant execute on function public.close_group_session(uuid) to anon, authenticated, service_role';
+  end if;
+end;
+$$;
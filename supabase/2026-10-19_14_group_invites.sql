@@ -0,0 +1,197 @@
+-- Invite codes for joining a group.
+-- Hosts create rows in group_invites (owner RLS policies from
+-- 2026-02-24_supabase_cleanup_signin_architecture.sql), each with an optional
+-- expiry, a max use count (0 = unlimited) and the role new members get.
+-- join_group accepts a live invite code, or the group id / groups.join_code
+-- while groups.settings.openLink is not false. Members who are already active
+-- can always rejoin (for example to change their name).
+-- join_group is the only way in: trg_enforce_member_self_write rejects direct
+-- inserts into members by anyone but the owner, and direct updates that move a
+-- row to another group or user, or bring back a removed member.
+-- Safe to run repeatedly.
+
+alter table if exists public.group_invites
+  add column if not exists role text not null default 'member';
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_constraint
+    where conname = 'group_invites_role_check'
+      and conrelid = 'public.group_invites'::regclass
+  ) then
+    alter table public.group_invites
+      add constraint group_invites_role_check
+      check (role in ('member', 'co_host'));
+  end if;
+end;
+$$;
+
+create or replace function public.join_group(p_group_id uuid, p_name text, p_join_code text)
+returns public.members
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_user_id uuid := auth.uid();
+  v_member public.members;
+  v_name text := nullif(trim(p_name), '');
+  v_code text := trim(coalesce(p_join_code, ''));
+  v_group public.groups;
+  v_invite public.group_invites;
+  v_role text := 'member';
+begin
+  if v_user_id is null then
+    raise exception 'auth_required';
+  end if;
+
+  if v_name is null then
+    raise exception 'invalid_member_name';
+  end if;
+
+  select g.*
+    into v_group
+  from public.groups g
+  where g.id = p_group_id
+    and g.deleted_at is null;
+
+  if not found then
+    raise exception 'invalid_join_code';
+  end if;
+
+  if exists (
+    select 1
+    from public.members m
+    where m.group_id = p_group_id
+      and m.user_id = v_user_id
+      and m.status = 'active'
+  ) then
+    null;
+  elsif v_code = v_group.id::text or (v_group.join_code is not null and v_code = v_group.join_code) then
+    if coalesce(v_group.settings->>'openLink', 'true') = 'false' then
+      raise exception 'open_link_disabled';
+    end if;
+  else
+    select i.*
+      into v_invite
+    from public.group_invites i
+    where i.group_id = p_group_id
+      and i.code = v_code
+    for update;
+
+    if not found or v_invite.revoked_at is not null then
+      raise exception 'invalid_join_code';
+    end if;
+
+    if v_invite.expires_at is not null and v_invite.expires_at <= now() then
+      raise exception 'invite_expired';
+    end if;
+
+    if v_invite.max_uses > 0 and v_invite.used_count >= v_invite.max_uses then
+      raise exception 'invite_used_up';
+    end if;
+
+    update public.group_invites
+      set used_count = used_count + 1
+    where id = v_invite.id;
+
+    v_role := v_invite.role;
+  end if;
+
+  insert into public.members (
+    id,
+    group_id,
+    name,
+    user_id,
+    role,
+    status,
+    removed_at,
+    removed_by_user_id,
+    last_seen_at
+  )
+  values (
+    gen_random_uuid(),
+    p_group_id,
+    v_name,
+    v_user_id,
+    v_role,
+    'active',
+    null,
+    null,
+    now()
+  )
+  on conflict (group_id, user_id)
+  do update
+    set name = excluded.name,
+        role = case
+          when public.members.role in ('host', 'co_host') then public.members.role
+          else excluded.role
+        end,
+        status = 'active',
+        removed_at = null,
+        removed_by_user_id = null,
+        last_seen_at = now(),
+        updated_at = now()
+  returning * into v_member;
+
+  update public.groups
+    set last_activity_at = now()
+  where id = p_group_id;
+
+  return v_member;
+end;
+$function$;
+
+-- Replaces the role-only version from 2026-10-19_13_co_host_role.sql. The RPCs
+-- run as the function owner, so only API roles are checked here.
+create or replace function public.enforce_member_self_write()
+returns trigger
+language plpgsql
+set search_path to 'public'
+as $function$
+begin
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if exists (
+    select 1
+    from public.groups g
+    where g.id = new.group_id
+      and g.owner_user_id = auth.uid()
+  ) then
+    return new;
+  end if;
+
+  -- Invite codes, expiry, use limits and the open link switch live in join_group.
+  if tg_op = 'INSERT' then
+    raise exception 'forbidden';
+  end if;
+
+  if new.group_id is distinct from old.group_id
+    or new.user_id is distinct from old.user_id
+    or new.status is distinct from old.status
+    or new.role is distinct from old.role
+  then
+    raise exception 'forbidden';
+  end if;
+
+  return new;
+end;
+$function$;
+
+drop trigger if exists trg_enforce_member_self_write on public.members;
+create trigger trg_enforce_member_self_write
+before insert or update on public.members
+for each row execute function public.enforce_member_self_write();
+
+do $$
+begin
+  if to_regprocedure('public.join_group(uuid, text, text)') is not null then
+    execute 'revoke all on function public.join_group(uuid, text, text) from public';
+    execute 'grant execute on function public.join_group(uuid, text, text) to anon, authenticated, service_role';
+  end if;
+end;
+$$;
@@ -0,0 +1,142 @@
+-- Short join codes such as 7K2M-Q9X1 that people can read out and type on
+-- another device: 7 random Crockford base32 characters (about 34 billion
+-- codes) plus a check character, stored without dashes. Keep in sync with
+-- src/lib/shortCodes.ts.
+-- The owner gets one code per group from ensure_group_short_code. /join looks
+-- codes up through the rate-limited /api/join/resolve route, which is the only
+-- caller of resolve_group_short_code (service_role); that limit, not the code
+-- length, is what keeps guessing impractical. A short code is another way
+-- to reach the open link, so it stops resolving while groups.settings.openLink
+-- is false, and a closed group looks exactly like an unknown code.
+-- Safe to run repeatedly.
+
+alter table if exists public.groups
+  add column if not exists short_code text;
+
+create unique index if not exists groups_short_code_key
+  on public.groups (short_code)
+  where short_code is not null;
+
+-- Drops codes in any other format; owners get a new one on next view.
+update public.groups
+  set short_code = null
+where short_code is not null
+  and short_code !~ '^[0-9A-HJKMNP-TV-Z]{8}$';
+
+create or replace function public.short_code_check_character(p_body text)
+returns text
+language plpgsql
+immutable
+set search_path to 'public'
+as $function$
+declare
+  v_alphabet constant text := '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+  v_sum int := 0;
+  v_index int;
+begin
+  for v_index in 1..length(p_body) loop
+    v_sum := v_sum + (strpos(v_alphabet, substr(p_body, v_index, 1)) - 1) * (2 * v_index - 1);
+  end loop;
+  return substr(v_alphabet, 1 + (v_sum % 32), 1);
+end;
+$function$;
+
+create or replace function public.ensure_group_short_code(p_group_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_alphabet constant text := '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+  v_bytes bytea;
+  v_body text;
+  v_code text;
+  v_byte_index int;
+  v_attempt int := 0;
+begin
+  perform public.require_group_owner(p_group_id);
+
+  select g.short_code
+    into v_code
+  from public.groups g
+  where g.id = p_group_id;
+
+  if v_code is not null then
+    return v_code;
+  end if;
+
+  loop
+    v_attempt := v_attempt + 1;
+    if v_attempt > 20 then
+      raise exception 'short_code_unavailable';
+    end if;
+
+    -- Byte 6 of a v4 uuid carries the version bits, so it is skipped.
+    v_bytes := uuid_send(gen_random_uuid());
+    v_body := '';
+    foreach v_byte_index in array array[0, 1, 2, 3, 4, 5, 7] loop
+      v_body := v_body || substr(v_alphabet, 1 + get_byte(v_bytes, v_byte_index) % 32, 1);
+    end loop;
+    v_code := v_body || public.short_code_check_character(v_body);
+
+    begin
+      update public.groups
+        set short_code = v_code
+      where id = p_group_id
+        and short_code is null;
+      return v_code;
+    exception
+      when unique_violation then
+        null;
+    end;
+  end loop;
+end;
+$function$;
+
+-- Accepts any case, ignores spaces and dashes, and reads O as 0 and I/L as 1.
+-- Returns null for malformed, unknown, deleted and closed groups alike.
+create or replace function public.resolve_group_short_code(p_code text)
+returns uuid
+language plpgsql
+stable
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_key text := translate(upper(regexp_replace(coalesce(p_code, ''), '[^A-Za-z0-9]', '', 'g')), 'OIL', '011');
+  v_group_id uuid;
+begin
+  if v_key !~ '^[0-9A-HJKMNP-TV-Z]{8}$'
+    or right(v_key, 1) <> public.short_code_check_character(left(v_key, 7)) then
+    return null;
+  end if;
+
+  select g.id
+    into v_group_id
+  from public.groups g
+  where g.short_code = v_key
+    and g.deleted_at is null
+    and coalesce(g.settings->>'openLink', 'true') <> 'false';
+
+  return v_group_id;
+end;
+$function$;
+
+do $$
+begin
+  if to_regprocedure('public.short_code_check_character(text)') is not null then
+    execute 'revoke all on function public.short_code_check_character(text) from public, anon, authenticated';
+  end if;
+
+  if to_regprocedure('public.ensure_group_short_code(uuid)') is not null then
+    execute 'revoke all on function public.ensure_group_short_code(uuid) from public';
+    execute 'grant execute on function public.ensure_group_short_code(uuid) to anon, authenticated, service_role';
+  end if;
+
+  if to_regprocedure('public.resolve_group_short_code(text)') is not null then
+    execute 'revoke all on function public.resolve_group_short_code(text) from public, anon, authenticated';
+    execute 'grant execute on function public.resolve_group_short_code(text) to service_role';
+  end if;
+end;
+$$;
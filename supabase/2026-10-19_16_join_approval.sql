@@ -0,0 +1,241 @@
+-- Join approval. With groups.settings.requireApproval = true, people joining
+-- through the open link get members.status = 'pending' until the owner or a
+-- co-host approves them (approve_group_member) or turns them away
+-- (remove_group_member). Invite codes are handed out by the host, so they
+-- still join as active members.
+-- Pending members cannot write ratings: every policy and RPC that checks
+-- membership already requires status = 'active', and the restrictive
+-- ratings policies below enforce it for direct writes too. Members cannot
+-- insert themselves or change their own status directly
+-- (trg_enforce_member_self_write, 2026-10-19_14_group_invites.sql).
+-- Safe to run repeatedly.
+
+alter table public.members
+  drop constraint if exists members_status_check;
+
+alter table public.members
+  add constraint members_status_check
+  check (status in ('active', 'pending', 'removed'));
+
+create or replace function public.join_group(p_group_id uuid, p_name text, p_join_code text)
+returns public.members
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_user_id uuid := auth.uid();
+  v_member public.members;
+  v_name text := nullif(trim(p_name), '');
+  v_code text := trim(coalesce(p_join_code, ''));
+  v_group public.groups;
+  v_invite public.group_invites;
+  v_role text := 'member';
+  v_status text := 'active';
+begin
+  if v_user_id is null then
+    raise exception 'auth_required';
+  end if;
+
+  if v_name is null then
+    raise exception 'invalid_member_name';
+  end if;
+
+  select g.*
+    into v_group
+  from public.groups g
+  where g.id = p_group_id
+    and g.deleted_at is null;
+
+  if not found then
+    raise exception 'invalid_join_code';
+  end if;
+
+  if exists (
+    select 1
+    from public.members m
+    where m.group_id = p_group_id
+      and m.user_id = v_user_id
+      and m.status = 'active'
+  ) or v_group.owner_user_id = v_user_id then
+    null;
+  elsif v_code = v_group.id::text or (v_group.join_code is not null and v_code = v_group.join_code) then
+    if coalesce(v_group.settings->>'openLink', 'true') = 'false' then
+      raise exception 'open_link_disabled';
+    end if;
+
+    if coalesce(v_group.settings->>'requireApproval', 'false') = 'true' then
+      v_status := 'pending';
+    end if;
+  else
+    select i.*
+      into v_invite
+    from public.group_invites i
+    where i.group_id = p_group_id
+      and i.code = v_code
+    for update;
+
+    if not found or v_invite.revoked_at is not null then
+      raise exception 'invalid_join_code';
+    end if;
+
+    if v_invite.expires_at is not null and v_invite.expires_at <= now() then
+      raise exception 'invite_expired';
+    end if;
+
+    if v_invite.max_uses > 0 and v_invite.used_count >= v_invite.max_uses then
+      raise exception 'invite_used_up';
+    end if;
+
+    update public.group_invites
+      set used_count = used_count + 1
+    where id = v_invite.id;
+
+    v_role := v_invite.role;
+  end if;
+
+  insert into public.members (
+    id,
+    group_id,
+    name,
+    user_id,
+    role,
+    status,
+    removed_at,
+    removed_by_user_id,
+    last_seen_at
+  )
+  values (
+    gen_random_uuid(),
+    p_group_id,
+    v_name,
+    v_user_id,
+    v_role,
+    v_status,
+    null,
+    null,
+    now()
+  )
+  on conflict (group_id, user_id)
+  do update
+    set name = excluded.name,
+        role = case
+          when public.members.role in ('host', 'co_host') then public.members.role
+          else excluded.role
+        end,
+        status = case
+          when public.members.status = 'active' then 'active'
+          else excluded.status
+        end,
+        removed_at = null,
+        removed_by_user_id = null,
+        last_seen_at = now(),
+        updated_at = now()
+  returning * into v_member;
+
+  if v_member.status = 'active' then
+    update public.groups
+      set last_activity_at = now()
+    where id = p_group_id;
+  end if;
+
+  return v_member;
+end;
+$function$;
+
+-- Owner or co-host. Turning a request down goes through remove_group_member.
+create or replace function public.approve_group_member(p_group_id uuid, p_member_id uuid)
+returns public.members
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_member public.members;
+begin
+  perform public.require_group_manager(p_group_id);
+
+  update public.members m
+    set status = 'active',
+        updated_at = now()
+  where m.group_id = p_group_id
+    and m.id = p_member_id
+    and m.status = 'pending'
+  returning m.* into v_member;
+
+  if not found then
+    raise exception 'member_not_found';
+  end if;
+
+  update public.groups
+    set last_activity_at = now()
+  where id = p_group_id;
+
+  return v_member;
+end;
+$function$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'ratings' and policyname = 'ratings_insert_active_member'
+  ) then
+    create policy ratings_insert_active_member
+      on public.ratings
+      as restrictive
+      for insert
+      with check (
+        exists (
+          select 1
+          from public.members m
+          where m.id = ratings.member_id
+            and m.group_id = ratings.group_id
+            and m.status = 'active'
+        )
+      );
+  end if;
+
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'ratings' and policyname = 'ratings_update_active_member'
+  ) then
+    create policy ratings_update_active_member
+      on public.ratings
+      as restrictive
+      for update
+      using (
+        exists (
+          select 1
+          from public.members m
+          where m.id = ratings.member_id
+            and m.group_id = ratings.group_id
+            and m.status = 'active'
+        )
+      )
+      with check (
+        exists (
+          select 1
+          from public.members m
+          where m.id = ratings.member_id
+            and m.group_id = ratings.group_id
+            and m.status = 'active'
+        )
+      );
+  end if;
+end;
+$$;
+
+do $$
+begin
+  if to_regprocedure('public.join_group(uuid, text, text)') is not null then
+    execute 'revoke all on function public.join_group(uuid, text, text) from public';
+    execute 'grant execute on function public.join_group(uuid, text, text) to anon, authenticated, service_role';
+  end if;
+
+  if to_regprocedure('public.approve_group_member(uuid, uuid)') is not null then
+    execute 'revoke all on function public.approve_group_member(uuid, uuid) from public';
+    execute 'grant execute on function public.approve_group_member(uuid, uuid) to anon, authenticated, service_role';
+  end if;
+end;
+$$;
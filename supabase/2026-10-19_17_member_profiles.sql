@@ -0,0 +1,219 @@
+-- Member avatars and renaming inside a group.
+-- members.avatar is null or {"color": "#rrggbb", "emoji": text|null,
+-- "imageUrl": text|null}. Uploaded pictures go to the public member-avatars
+-- storage bucket under <group_id>/<member_id>/, written and deleted only by
+-- that member. imageUrl must point into that folder, since avatars are shown
+-- without image optimisation.
+-- update_member_profile changes the caller's own name and avatar. Direct
+-- writes to members.name and members.avatar are rejected by
+-- trg_enforce_member_self_write.
+-- Safe to run repeatedly.
+
+alter table if exists public.members
+  add column if not exists avatar jsonb null;
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('member-avatars', 'member-avatars', true, 262144, array['image/jpeg', 'image/png', 'image/webp'])
+on conflict (id) do nothing;
+
+create or replace function public.update_member_profile(p_group_id uuid, p_name text, p_avatar jsonb)
+returns public.members
+language plpgsql
+security definer
+set search_path to 'public'
+as $function$
+declare
+  v_user_id uuid := auth.uid();
+  v_name text := nullif(trim(p_name), '');
+  v_avatar jsonb := null;
+  v_color text;
+  v_emoji text;
+  v_image_url text;
+  v_member_id uuid;
+  v_member public.members;
+begin
+  if v_user_id is null then
+    raise exception 'auth_required';
+  end if;
+
+  select m.id
+    into v_member_id
+  from public.members m
+  where m.group_id = p_group_id
+    and m.user_id = v_user_id
+    and m.status = 'active';
+
+  if not found then
+    raise exception 'forbidden';
+  end if;
+
+  if v_name is null or char_length(v_name) > 40 then
+    raise exception 'invalid_member_name';
+  end if;
+
+  if p_avatar is not null and jsonb_typeof(p_avatar) <> 'null' then
+    if jsonb_typeof(p_avatar) <> 'object' then
+      raise exception 'invalid_avatar';
+    end if;
+
+    v_color := p_avatar->>'color';
+    v_emoji := nullif(p_avatar->>'emoji', '');
+    v_image_url := nullif(p_avatar->>'imageUrl', '');
+
+    if v_color is null or v_color !~ '^#[0-9a-fA-F]{6}$' then
+      raise exception 'invalid_avatar';
+    end if;
+
+    if v_emoji is not null and char_length(v_emoji) > 16 then
+      raise exception 'invalid_avatar';
+    end if;
+
+    -- The client also pins the host to this project's storage URL.
+    if v_image_url is not null and (
+      char_length(v_image_url) > 1024
+      or v_image_url !~ (
+        '^https://[^/?#]+/storage/v1/object/public/member-avatars/'
+        || p_group_id::text || '/' || v_member_id::text || '/[A-Za-z0-9_-]+\.(jpg|png|webp)$'
+      )
+    ) then
+      raise exception 'invalid_avatar';
+    end if;
+
+    v_avatar := jsonb_build_object('color', v_color, 'emoji', v_emoji, 'imageUrl', v_image_url);
+  end if;
+
+  update public.members m
+    set name = v_name,
+        avatar = v_avatar,
+        updated_at = now()
+  where m.id = v_member_id
+  returning m.* into v_member;
+
+  return v_member;
+end;
+$function$;
+
+-- Replaces the version from 2026-10-19_14_group_invites.sql and adds name and
+-- avatar, which only update_member_profile may change.
+create or replace function public.enforce_member_self_write()
+returns trigger
+language plpgsql
+set search_path to 'public'
+as $function$
+begin
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if exists (
+    select 1
+    from public.groups g
+    where g.id = new.group_id
+      and g.owner_user_id = auth.uid()
+  ) then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    raise exception 'forbidden';
+  end if;
+
+  if new.group_id is distinct from old.group_id
+    or new.user_id is distinct from old.user_id
+    or new.status is distinct from old.status
+    or new.role is distinct from old.role
+    or new.name is distinct from old.name
+    or new.avatar is distinct from old.avatar
+  then
+    raise exception 'forbidden';
+  end if;
+
+  return new;
+end;
+$function$;
+
+drop trigger if exists trg_enforce_member_self_write on public.members;
+create trigger trg_enforce_member_self_write
+before insert or update on public.members
+for each row execute function public.enforce_member_self_write();
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'storage' and tablename = 'objects' and policyname = 'member_avatars_insert_own'
+  ) then
+    create policy member_avatars_insert_own
+      on storage.objects
+      for insert
+      with check (
+        bucket_id = 'member-avatars'
+        and exists (
+          select 1
+          from public.members m
+          where m.group_id::text = (storage.foldername(name))[1]
+            and m.id::text = (storage.foldername(name))[2]
+            and m.user_id = auth.uid()
+            and m.status = 'active'
+        )
+      );
+  end if;
+end;
+$$;
+
+-- Replaced pictures are deleted by their owner. Storage needs select as well as
+-- delete for that; public URLs are unaffected.
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'storage' and tablename = 'objects' and policyname = 'member_avatars_select_own'
+  ) then
+    create policy member_avatars_select_own
+      on storage.objects
+      for select
+      using (
+        bucket_id = 'member-avatars'
+        and exists (
+          select 1
+          from public.members m
+          where m.group_id::text = (storage.foldername(name))[1]
+            and m.id::text = (storage.foldername(name))[2]
+            and m.user_id = auth.uid()
+        )
+      );
+  end if;
+end;
+$$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'storage' and tablename = 'objects' and policyname = 'member_avatars_delete_own'
+  ) then
+    create policy member_avatars_delete_own
+      on storage.objects
+      for delete
+      using (
+        bucket_id = 'member-avatars'
+        and exists (
+          select 1
+          from public.members m
+          where m.group_id::text = (storage.foldername(name))[1]
+            and m.id::text = (storage.foldername(name))[2]
+            and m.user_id = auth.uid()
+        )
+      );
+  end if;
+end;
+$$;
+
+do $$
+begin
+  if to_regprocedure('public.update_member_profile(uuid, text, jsonb)') is not null then
+    execute 'revoke all on function public.update_member_profile(uuid, text, jsonb) from public';
+    execute 'grant execute on function public.update_member_profile(uuid, text, jsonb) to anon, authenticated, service_role';
+  end if;
+end;
+$$;